@@ -326,6 +326,16 @@ function initDb(db: Db) {
       FOREIGN KEY (run_id) REFERENCES runs(id) ON DELETE CASCADE,
       FOREIGN KEY (field_id) REFERENCES analysis_fields(id) ON DELETE CASCADE
     );
+    CREATE TABLE IF NOT EXISTS analysis_run_samples (
+      run_id INTEGER NOT NULL,
+      field_id INTEGER NOT NULL,
+      sample_index INTEGER NOT NULL,
+      cavity INTEGER,
+      value_real REAL,
+      PRIMARY KEY (run_id, field_id, sample_index),
+      FOREIGN KEY (run_id) REFERENCES runs(id) ON DELETE CASCADE,
+      FOREIGN KEY (field_id) REFERENCES analysis_fields(id) ON DELETE CASCADE
+    );
     CREATE TABLE IF NOT EXISTS doe_studies (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       experiment_id INTEGER NOT NULL,
@@ -492,6 +502,12 @@ function initDb(db: Db) {
   if (!hasColumn(db, "analysis_fields", "doe_id")) {
     db.exec("ALTER TABLE analysis_fields ADD COLUMN doe_id INTEGER");
   }
+  if (!hasColumn(db, "analysis_fields", "sample_count")) {
+    db.exec("ALTER TABLE analysis_fields ADD COLUMN sample_count INTEGER NOT NULL DEFAULT 1");
+  }
+  if (!hasColumn(db, "analysis_fields", "sample_aggregation")) {
+    db.exec("ALTER TABLE analysis_fields ADD COLUMN sample_aggregation TEXT NOT NULL DEFAULT 'mean'");
+  }
   if (!hasColumn(db, "users", "reset_requested_at")) {
     db.exec("ALTER TABLE users ADD COLUMN reset_requested_at TEXT");
   }
@@ -504,6 +520,9 @@ function initDb(db: Db) {
   if (!hasColumn(db, "param_configs", "doe_id")) {
     db.exec("ALTER TABLE param_configs ADD COLUMN doe_id INTEGER");
   }
+  if (!hasColumn(db, "param_configs", "factor_role")) {
+    db.exec("ALTER TABLE param_configs ADD COLUMN factor_role TEXT NOT NULL DEFAULT 'CONTROL'");
+  }
   if (!hasColumn(db, "design_metadata", "doe_id")) {
     db.exec("ALTER TABLE design_metadata ADD COLUMN doe_id INTEGER");
   }
@@ -560,6 +579,15 @@ function initDb(db: Db) {
   if (!hasColumn(db, "runs", "doe_id")) {
     db.exec("ALTER TABLE runs ADD COLUMN doe_id INTEGER");
   }
+  if (!hasColumn(db, "runs", "whole_plot")) {
+    db.exec("ALTER TABLE runs ADD COLUMN whole_plot INTEGER");
+  }
+  if (!hasColumn(db, "runs", "block")) {
+    db.exec("ALTER TABLE runs ADD COLUMN block INTEGER");
+  }
+  if (!hasColumn(db, "runs", "exclude_reason")) {
+    db.exec("ALTER TABLE runs ADD COLUMN exclude_reason TEXT");
+  }
 
   const standardFields: Array<{
     code: string;
@@ -0,0 +1,131 @@
+export type ConstraintOperator = "<=" | ">=" | "<" | ">";
+
+export type LinearConstraint = {
+  kind: "linear";
+  terms: Array<{ code: string; coef: number }>;
+  op: ConstraintOperator;
+  rhs: number;
+  source: string;
+};
+
+export type ForbiddenCombination = {
+  kind: "forbidden";
+  conditions: Array<{ code: string; op: ConstraintOperator | "="; value: number }>;
+  source: string;
+};
+
+export type DesignConstraint = LinearConstraint | ForbiddenCombination;
+
+const TOLERANCE = 1e-9;
+const CODE = "[A-Za-z_][A-Za-z0-9_]*";
+const NUMBER = "\\d*\\.?\\d+";
+
+function parseSide(side: string): { terms: Map<string, number>; constant: number } | null {
+  const compact = side.replace(/\s+/g, "");
+  if (!compact) return null;
+  const pieces = compact.match(/[+-]?[^+-]+/g);
+  if (!pieces || pieces.join("") !== compact) return null;
+  const terms = new Map<string, number>();
+  let constant = 0;
+  for (const piece of pieces) {
+    const match = piece.match(new RegExp(`^([+-]?)(${NUMBER})?(\\*)?(${CODE})?$`));
+    if (!match || (!match[2] && !match[4]) || (match[3] && (!match[2] || !match[4]))) return null;
+    const value = (match[1] === "-" ? -1 : 1) * (match[2] ? Number(match[2]) : 1);
+    if (match[4]) {
+      terms.set(match[4], (terms.get(match[4]) ?? 0) + value);
+    } else {
+      constant += value;
+    }
+  }
+  return { terms, constant };
+}
+
+function parseLinear(line: string): LinearConstraint | string {
+  const parts = line.split(/(<=|>=|<|>)/);
+  if (parts.length !== 3) return `"${line}": expected one of <=, >=, < or >.`;
+  const left = parseSide(parts[0]);
+  const right = parseSide(parts[2]);
+  if (!left || !right) return `"${line}": terms must look like 2*code, -code or a number.`;
+  const coefs = new Map(left.terms);
+  right.terms.forEach((coef, code) => coefs.set(code, (coefs.get(code) ?? 0) - coef));
+  const terms = Array.from(coefs.entries())
+    .filter(([, coef]) => coef !== 0)
+    .map(([code, coef]) => ({ code, coef }));
+  if (!terms.length) return `"${line}": no factor codes.`;
+  return { kind: "linear", terms, op: parts[1] as ConstraintOperator, rhs: right.constant - left.constant, source: line };
+}
+
+function parseForbidden(line: string, body: string): ForbiddenCombination | string {
+  const conditions: ForbiddenCombination["conditions"] = [];
+  for (const part of body.split(/\s*(?:,|\band\b)\s*/i).filter(Boolean)) {
+    const match = part.trim().match(new RegExp(`^(${CODE})\\s*(<=|>=|==?|<|>)\\s*(-?${NUMBER})$`));
+    if (!match) return `"${line}": conditions must look like code >= 60.`;
+    conditions.push({ code: match[1], op: match[2].startsWith("=") ? "=" : (match[2] as ConstraintOperator), value: Number(match[3]) });
+  }
+  if (!conditions.length) return `"${line}": no conditions.`;
+  return { kind: "forbidden", conditions, source: line };
+}
+
+/**
+ * One constraint per line. Linear inequalities over factor codes, e.g. `hold_press - 0.8*inj_press <= 0`;
+ * forbidden combinations start with `forbid` and list conditions that must not all hold at once,
+ * e.g. `forbid melt_temp <= 210 and inj_speed >= 60`. Blank lines and `#` comments are ignored.
+ */
+export function parseConstraints(text: string): { constraints: DesignConstraint[]; errors: string[] } {
+  const constraints: DesignConstraint[] = [];
+  const errors: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, "").trim();
+    if (!line) continue;
+    const forbidden = line.match(/^forbid\s+(.*)$/i);
+    const parsed = forbidden ? parseForbidden(line, forbidden[1]) : parseLinear(line);
+    if (typeof parsed === "string") {
+      errors.push(parsed);
+    } else {
+      constraints.push(parsed);
+    }
+  }
+  return { constraints, errors };
+}
+
+export function constraintCodes(constraints: DesignConstraint[]): string[] {
+  const codes = new Set<string>();
+  constraints.forEach((constraint) => {
+    const entries = constraint.kind === "linear" ? constraint.terms : constraint.conditions;
+    entries.forEach((entry) => codes.add(entry.code));
+  });
+  return Array.from(codes);
+}
+
+function compare(left: number, op: ConstraintOperator | "=", right: number): boolean {
+  if (op === "<=") return left <= right + TOLERANCE;
+  if (op === ">=") return left >= right - TOLERANCE;
+  if (op === "<") return left < right - TOLERANCE;
+  if (op === ">") return left > right + TOLERANCE;
+  return Math.abs(left - right) <= TOLERANCE * Math.max(1, Math.abs(right));
+}
+
+/**
+ * First constraint the point breaks, or null. A constraint that mentions a factor without a value
+ * at this point cannot be judged and is skipped.
+ */
+export function violatedConstraint(
+  constraints: DesignConstraint[],
+  valueOf: (code: string) => number | null | undefined
+): DesignConstraint | null {
+  for (const constraint of constraints) {
+    if (constraint.kind === "linear") {
+      const values = constraint.terms.map((term) => valueOf(term.code));
+      if (values.some((value) => value == null)) continue;
+      const lhs = constraint.terms.reduce((acc, term, idx) => acc + term.coef * (values[idx] as number), 0);
+      if (!compare(lhs, constraint.op, constraint.rhs)) return constraint;
+    } else {
+      const matched = constraint.conditions.every((condition) => {
+        const value = valueOf(condition.code);
+        return value != null && compare(value, condition.op, condition.value);
+      });
+      if (matched) return constraint;
+    }
+  }
+  return null;
+}
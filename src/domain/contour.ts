@@ -0,0 +1,56 @@
+export type ContourSegment = [[number, number], [number, number]];
+
+// Round levels between min and max with a 1, 2, 2.5 or 5 step; about `count` of them, endpoints excluded.
+export function contourLevels(min: number, max: number, count = 8): number[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max) || max <= min || count < 1) return [];
+  const raw = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 2.5, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= raw)!;
+  const levels: number[] = [];
+  for (let level = Math.ceil(min / step) * step; level < max; level += step) {
+    // Trim float noise from the repeated addition.
+    const rounded = Number(level.toPrecision(12));
+    if (rounded > min) levels.push(rounded);
+  }
+  return levels;
+}
+
+/**
+ * Marching squares: the line segments where a gridded surface crosses `level`, with crossings placed
+ * by linear interpolation along the cell edges. z[i][j] is the value at (xValues[i], yValues[j]).
+ * Saddle cells are split by the average of their corners; cells with a missing corner are skipped.
+ */
+export function contourSegments(xValues: number[], yValues: number[], z: number[][], level: number): ContourSegment[] {
+  const segments: ContourSegment[] = [];
+  const crossing = (x1: number, y1: number, z1: number, x2: number, y2: number, z2: number): [number, number] => {
+    const t = (level - z1) / (z2 - z1);
+    return [x1 + (x2 - x1) * t, y1 + (y2 - y1) * t];
+  };
+  for (let i = 0; i + 1 < xValues.length; i += 1) {
+    for (let j = 0; j + 1 < yValues.length; j += 1) {
+      const [x0, x1, y0, y1] = [xValues[i], xValues[i + 1], yValues[j], yValues[j + 1]];
+      const [a, b, c, d] = [z[i][j], z[i + 1][j], z[i + 1][j + 1], z[i][j + 1]];
+      if (![a, b, c, d].every((value) => Number.isFinite(value))) continue;
+      const above = [a, b, c, d].map((value) => value >= level);
+      // Edges in order bottom, right, top, left; null where the edge does not cross the level.
+      const edges = [
+        above[0] !== above[1] ? crossing(x0, y0, a, x1, y0, b) : null,
+        above[1] !== above[2] ? crossing(x1, y0, b, x1, y1, c) : null,
+        above[3] !== above[2] ? crossing(x0, y1, d, x1, y1, c) : null,
+        above[0] !== above[3] ? crossing(x0, y0, a, x0, y1, d) : null
+      ];
+      const crossed = edges.filter((point): point is [number, number] => point != null);
+      if (crossed.length === 2) {
+        segments.push([crossed[0], crossed[1]]);
+      } else if (crossed.length === 4) {
+        const centerAbove = (a + b + c + d) / 4 >= level;
+        if (centerAbove === above[0]) {
+          segments.push([edges[0]!, edges[1]!], [edges[2]!, edges[3]!]);
+        } else {
+          segments.push([edges[0]!, edges[3]!], [edges[1]!, edges[2]!]);
+        }
+      }
+    }
+  }
+  return segments;
+}
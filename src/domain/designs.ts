@@ -1,4 +1,10 @@
 import { seededShuffle } from "../lib/rng.js";
+import { buildModelTerms } from "./models.js";
+import type { ModelKind } from "./models.js";
+import { coordinateExchange } from "./optimal.js";
+import type { OptimalCriterion, OptimalResult } from "./optimal.js";
+import { haltonPoints, maximinLatinHypercube, sobolPoints } from "./space_filling.js";
+import type { SpaceFillingMethod } from "./space_filling.js";
 
 export type FactorConfig = {
   paramDefId: number;
@@ -10,11 +16,14 @@ export type FactorConfig = {
   list?: number[] | null;
   levelCount?: number | null;
   fixedValue?: number | null;
+  // Text levels of a categorical factor; its LIST levels (and run values) are indices into this array.
+  categories?: string[] | null;
 };
 
 export type DesignRun = {
   values: Record<number, number>;
   coded?: Record<number, number>;
+  recipeId?: number | null;
 };
 
 function interleaveCenters<T>(runs: T[], centers: T[]): T[] {
@@ -38,6 +47,10 @@ function interleaveCenters<T>(runs: T[], centers: T[]): T[] {
   return result;
 }
 
+function roundLevel(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
 function cartesian<T>(sets: T[][]): T[][] {
   if (!sets.length) return [[]];
   return sets.reduce<T[][]>((acc, set) => {
@@ -82,6 +95,75 @@ export function buildSimDesign(factors: FactorConfig[], seed: number, maxRuns: n
   return seededShuffle(runs, seed);
 }
 
+export function defaultSpaceFillingRuns(k: number): number {
+  return Math.max(10, 10 * k);
+}
+
+// Maps u in [0, 1) onto the factor: continuous over a RANGE, equal-width bins over a LIST.
+function valueFromUnit(factor: FactorConfig, u: number): number | null {
+  if (factor.mode === "RANGE") {
+    if (factor.rangeMin == null || factor.rangeMax == null) return null;
+    return roundLevel(factor.rangeMin + u * (factor.rangeMax - factor.rangeMin));
+  }
+  const levels = levelsFromConfig(factor);
+  if (!levels.length) return null;
+  return levels[Math.min(levels.length - 1, Math.floor(u * levels.length))];
+}
+
+// Coded -1..1 for a space-filling run: the sample itself over a RANGE, the chosen level's position
+// among the sorted LIST levels (evenly spaced) so the coding matches the stored value.
+function codedFromUnit(factor: FactorConfig, u: number, value: number): number {
+  if (factor.mode === "RANGE") return roundLevel(2 * u - 1);
+  const levels = Array.from(new Set(levelsFromConfig(factor))).sort((a, b) => a - b);
+  return levels.length > 1 ? roundLevel((2 * levels.indexOf(value)) / (levels.length - 1) - 1) : 0;
+}
+
+/**
+ * Space-filling designs for simulation-style studies: the run count is chosen freely rather than
+ * following the level counts. FIXED factors keep their value and take no dimension.
+ */
+export function buildSpaceFillingDesign(
+  factors: FactorConfig[],
+  seed: number,
+  options: { method: SpaceFillingMethod; runs: number; feasible?: (values: Record<number, number>) => boolean }
+): DesignRun[] {
+  const varying = factors.filter((factor) => factor.mode !== "FIXED" && valueFromUnit(factor, 0) != null);
+  const fixed = factors.filter((factor) => factor.mode === "FIXED" && factor.fixedValue != null);
+  if (!varying.length || options.runs < 1) return [];
+  const toRun = (point: number[]) => {
+    const values: Record<number, number> = {};
+    const coded: Record<number, number> = {};
+    varying.forEach((factor, idx) => {
+      values[factor.paramDefId] = valueFromUnit(factor, point[idx])!;
+      coded[factor.paramDefId] = codedFromUnit(factor, point[idx], values[factor.paramDefId]);
+    });
+    fixed.forEach((factor) => {
+      values[factor.paramDefId] = factor.fixedValue!;
+    });
+    return { values, coded };
+  };
+  const feasible = options.feasible ?? (() => true);
+  if (options.method === "lhs") {
+    // A Latin hypercube has no continuation; infeasible points are left to the caller to drop.
+    return seededShuffle(maximinLatinHypercube(options.runs, varying.length, seed).map(toRun), seed);
+  }
+  // Low-discrepancy sequences simply continue past infeasible points, up to 50 draws per run.
+  const draw = options.method === "sobol" ? sobolPoints : haltonPoints;
+  const runs: DesignRun[] = [];
+  let drawn = 0;
+  while (runs.length < options.runs && drawn < options.runs * 50) {
+    const count = Math.max(options.runs, drawn) * 2;
+    const points = draw(count, varying.length, seed).slice(drawn);
+    drawn = count;
+    for (const point of points) {
+      const run = toRun(point);
+      if (feasible(run.values)) runs.push(run);
+      if (runs.length === options.runs) break;
+    }
+  }
+  return seededShuffle(runs, seed);
+}
+
 export function buildFfaDesign(factors: FactorConfig[], seed: number, maxRuns: number): DesignRun[] {
   const sets = factors.map((factor) => levelsFromConfig(factor));
   const combos = cartesian(sets);
@@ -156,23 +238,1055 @@ export function buildBbdDesign(
   return { runs, codedLevels: shuffled };
 }
 
+const FACTOR_LETTERS = "ABCDEFGHJKLMNOPQRSTUVWXYZ";
+
+// Standard 2^(k-p) generators (minimum aberration, NIST/BHH tables), ordered by increasing p.
+// Each entry lists the generator words for the added factors, written over the basic factors.
+const STANDARD_GENERATORS: Record<number, string[][]> = {
+  3: [["AB"]],
+  4: [["ABC"]],
+  5: [["ABCD"], ["AB", "AC"]],
+  6: [["ABCDE"], ["ABC", "BCD"], ["AB", "AC", "BC"]],
+  7: [["ABCDEF"], ["ABCD", "ABDE"], ["ABC", "BCD", "ACD"], ["AB", "AC", "BC", "ABC"]],
+  8: [["ABCDEFG"], ["ABCD", "ABEF"], ["ABC", "ABD", "BCDE"], ["BCD", "ACD", "ABC", "ABD"]],
+  9: [
+    ["ABCDEFGH"],
+    ["ACDFG", "BCEFG"],
+    ["ABCD", "ACEF", "CDEF"],
+    ["BCDE", "ACDE", "ABDE", "ABCE"],
+    ["ABC", "BCD", "ACD", "ABD", "ABCD"]
+  ],
+  10: [
+    ["ABCDEFGHJ"],
+    ["ABCDG", "ABEFH"],
+    ["ABCG", "BCDE", "ACDF"],
+    ["BCDF", "ACDF", "ABDE", "ABCE"],
+    ["ABCD", "ABCE", "ABDE", "ACDE", "BCDE"],
+    ["ABC", "BCD", "ACD", "ABD", "ABCD", "AB"]
+  ],
+  11: [
+    ["ABCDEFGHJK"],
+    ["ABCG", "BCDE", "ACDF", "ABCDEFG"],
+    ["CDE", "ABCD", "ABF", "BDEF", "ADEF"],
+    ["ABC", "BCD", "CDE", "ACD", "ADE", "BDE"],
+    ["ABC", "BCD", "ACD", "ABD", "ABCD", "AB", "AC"]
+  ]
+};
+
+export const MAX_FRACTIONAL_FACTORS = 11;
+
+export type FractionalPlan = {
+  k: number;
+  p: number;
+  runs: number;
+  resolution: number | null;
+  generators: string[];
+  definingRelation: string[];
+};
+
+export type FractionalAlias = {
+  effect: string;
+  aliases: string[];
+};
+
+function wordToMask(word: string): number {
+  let mask = 0;
+  for (const letter of word) {
+    const idx = FACTOR_LETTERS.indexOf(letter);
+    if (idx >= 0) mask |= 1 << idx;
+  }
+  return mask;
+}
+
+function maskToWord(mask: number): string {
+  let word = "";
+  for (let i = 0; i < FACTOR_LETTERS.length; i += 1) {
+    if (mask & (1 << i)) word += FACTOR_LETTERS[i];
+  }
+  return word || "I";
+}
+
+function bitCount(mask: number): number {
+  let count = 0;
+  let rest = mask;
+  while (rest) {
+    rest &= rest - 1;
+    count += 1;
+  }
+  return count;
+}
+
+function generatorMasks(k: number, words: string[]): number[] {
+  const p = words.length;
+  return words.map((word, idx) => wordToMask(word) | (1 << (k - p + idx)));
+}
+
+// All non-identity words of the defining relation (products of every generator subset).
+function definingWords(masks: number[], foldOver: boolean): number[] {
+  const words: number[] = [];
+  for (let subset = 1; subset < 1 << masks.length; subset += 1) {
+    let word = 0;
+    masks.forEach((mask, idx) => {
+      if (subset & (1 << idx)) word ^= mask;
+    });
+    // A full fold-over (all signs reversed) cancels every odd-length word.
+    if (foldOver && bitCount(word) % 2 === 1) continue;
+    words.push(word);
+  }
+  return words.sort((a, b) => bitCount(a) - bitCount(b) || a - b);
+}
+
+export function factorLetter(index: number): string {
+  return FACTOR_LETTERS[index] ?? `X${index + 1}`;
+}
+
+export function fractionalPlan(k: number, minResolution: number, foldOver = false): FractionalPlan | null {
+  if (k < 2 || k > MAX_FRACTIONAL_FACTORS) return null;
+  const candidates: string[][] = [...(STANDARD_GENERATORS[k] ?? [])].reverse();
+  candidates.push([]);
+  for (const words of candidates) {
+    const masks = generatorMasks(k, words);
+    const relation = definingWords(masks, foldOver);
+    const resolution = relation.length ? Math.min(...relation.map(bitCount)) : null;
+    if (resolution != null && resolution < minResolution) continue;
+    const p = words.length;
+    return {
+      k,
+      p,
+      runs: Math.pow(2, k - p) * (foldOver && p > 0 ? 2 : 1),
+      resolution,
+      generators: words.map((word, idx) => `${factorLetter(k - p + idx)} = ${word}`),
+      definingRelation: ["I", ...relation.map(maskToWord)]
+    };
+  }
+  return null;
+}
+
+export function fractionalAliases(plan: FractionalPlan, maxOrder = 3): FractionalAlias[] {
+  const relation = plan.definingRelation.filter((word) => word !== "I").map(wordToMask);
+  const effects: number[] = [];
+  for (let i = 0; i < plan.k; i += 1) effects.push(1 << i);
+  for (let i = 0; i < plan.k; i += 1) {
+    for (let j = i + 1; j < plan.k; j += 1) effects.push((1 << i) | (1 << j));
+  }
+  return effects.map((effect) => ({
+    effect: maskToWord(effect),
+    aliases: relation
+      .map((word) => effect ^ word)
+      .filter((mask) => bitCount(mask) <= maxOrder)
+      .sort((a, b) => bitCount(a) - bitCount(b) || a - b)
+      .map(maskToWord)
+  }));
+}
+
+// Coded ±1 rows of the (unfolded) fraction in standard order; added columns follow the generators.
+function fractionalRows(plan: FractionalPlan): number[][] {
+  const basic = plan.k - plan.p;
+  const masks = generatorMasks(plan.k, plan.generators.map((gen) => gen.split("=")[1].trim()));
+  const rows: number[][] = [];
+  for (let row = 0; row < Math.pow(2, basic); row += 1) {
+    const signs: number[] = [];
+    for (let col = 0; col < basic; col += 1) {
+      signs.push(row & (1 << col) ? 1 : -1);
+    }
+    masks.forEach((mask) => {
+      let sign = 1;
+      for (let col = 0; col < basic; col += 1) {
+        if (mask & (1 << col)) sign *= signs[col];
+      }
+      signs.push(sign);
+    });
+    rows.push(signs);
+  }
+  return rows;
+}
+
+// Low and high of a factor; LIST values may be entered in any order.
+function twoLevelsFromConfig(config: FactorConfig): [number, number] | null {
+  const levels = [...levelsFromConfig(config)].sort((a, b) => a - b);
+  if (levels.length < 2) return null;
+  return [levels[0], levels[levels.length - 1]];
+}
+
 export function buildScreenDesign(
   factors: FactorConfig[],
   seed: number,
-  maxRuns: number
-): DesignRun[] {
-  const sets = factors.map((factor) => {
-    const levels = levelsFromConfig(factor);
-    return levels.slice(0, 2);
+  options: { resolution: number; foldOver: boolean }
+): {
+  runs: DesignRun[];
+  codedLevels: Array<Record<number, number>>;
+  plan: FractionalPlan | null;
+  aliases: FractionalAlias[];
+  letters: Array<{ letter: string; paramDefId: number; code: string; label: string }>;
+} {
+  const usable = factors.filter((factor) => twoLevelsFromConfig(factor) != null);
+  const plan = fractionalPlan(usable.length, options.resolution, options.foldOver);
+  const letters = usable.map((factor, idx) => ({
+    letter: factorLetter(idx),
+    paramDefId: factor.paramDefId,
+    code: factor.code,
+    label: factor.label
+  }));
+  if (!plan) return { runs: [], codedLevels: [], plan: null, aliases: [], letters };
+
+  const baseRows = fractionalRows(plan);
+  const toCoded = (signs: number[]) => {
+    const coded: Record<number, number> = {};
+    usable.forEach((factor, idx) => {
+      coded[factor.paramDefId] = signs[idx];
+    });
+    return coded;
+  };
+  let codedRuns = seededShuffle(baseRows.map(toCoded), seed);
+  if (options.foldOver && plan.p > 0) {
+    const folded = baseRows.map((signs) => toCoded(signs.map((sign) => -sign)));
+    codedRuns = [...codedRuns, ...seededShuffle(folded, seed + 1)];
+  }
+  const runs = codedRuns.map((coded) => {
+    const values: Record<number, number> = {};
+    for (const factor of usable) {
+      const [low, high] = twoLevelsFromConfig(factor)!;
+      values[factor.paramDefId] = coded[factor.paramDefId] === 1 ? high : low;
+    }
+    return { values, coded };
   });
-  const combos = cartesian(sets);
-  const shuffled = seededShuffle(combos, seed);
-  const sampled = shuffled.slice(0, Math.min(maxRuns, combos.length));
-  return sampled.map((combo) => {
+  return { runs, codedLevels: codedRuns, plan, aliases: fractionalAliases(plan), letters };
+}
+
+export type CcdVariant = "CCC" | "CCI" | "CCF";
+export type CcdAlphaMode = "rotatable" | "orthogonal";
+
+export type CcdPlan = {
+  k: number;
+  variant: CcdVariant;
+  alphaMode: CcdAlphaMode;
+  alpha: number;
+  factorialRuns: number;
+  axialRuns: number;
+  centerRuns: number;
+  runs: number;
+  fraction: FractionalPlan;
+};
+
+// Factorial portion is a full 2^k up to 4 factors, then the smallest resolution V fraction.
+export function ccdPlan(
+  k: number,
+  options: { variant: CcdVariant; alphaMode: CcdAlphaMode; centerPoints: number; axialReplicates: number }
+): CcdPlan | null {
+  if (k < 2) return null;
+  const fraction = fractionalPlan(k, 5);
+  if (!fraction) return null;
+  const factorialRuns = fraction.runs;
+  const axialReplicates = Math.max(options.axialReplicates, 1);
+  const axialRuns = 2 * k * axialReplicates;
+  const centerRuns = Math.max(options.centerPoints, 0);
+  let alpha = 1;
+  if (options.variant !== "CCF") {
+    if (options.alphaMode === "orthogonal") {
+      // Orthogonal when alpha^4 = F (sqrt(N) - sqrt(F))^2 / (4 r_a^2).
+      const total = factorialRuns + axialRuns + centerRuns;
+      alpha = Math.pow(
+        (Math.pow(Math.sqrt(total) - Math.sqrt(factorialRuns), 2) * factorialRuns) / (4 * axialReplicates ** 2),
+        0.25
+      );
+    } else {
+      // Rotatable when alpha^4 = F / r_a with the star points replicated r_a times.
+      alpha = Math.pow(factorialRuns / axialReplicates, 0.25);
+    }
+  }
+  return {
+    k,
+    variant: options.variant,
+    alphaMode: options.alphaMode,
+    alpha,
+    factorialRuns,
+    axialRuns,
+    centerRuns,
+    runs: factorialRuns + axialRuns + centerRuns,
+    fraction
+  };
+}
+
+export function buildCcdDesign(
+  factors: FactorConfig[],
+  seed: number,
+  options: { variant: CcdVariant; alphaMode: CcdAlphaMode; centerPoints: number; axialReplicates: number }
+): { runs: DesignRun[]; codedLevels: Array<Record<number, number>>; plan: CcdPlan | null } {
+  const usable = factors.filter((factor) => twoLevelsFromConfig(factor) != null);
+  const plan = ccdPlan(usable.length, options);
+  if (!plan) return { runs: [], codedLevels: [], plan: null };
+
+  // CCI shrinks the cube so the axial points sit on the factor limits; CCC/CCF keep the cube at ±1.
+  const cubeScale = plan.variant === "CCI" ? 1 / plan.alpha : 1;
+  const axialDistance = plan.variant === "CCI" ? 1 : plan.alpha;
+  const toCoded = (signs: number[]) => {
+    const coded: Record<number, number> = {};
+    usable.forEach((factor, idx) => {
+      coded[factor.paramDefId] = signs[idx];
+    });
+    return coded;
+  };
+  const cube = fractionalRows(plan.fraction).map((signs) => toCoded(signs.map((sign) => sign * cubeScale)));
+  const axial: Array<Record<number, number>> = [];
+  for (let rep = 0; rep < Math.max(options.axialReplicates, 1); rep += 1) {
+    usable.forEach((_, idx) => {
+      for (const sign of [-1, 1]) {
+        const signs = usable.map(() => 0);
+        signs[idx] = sign * axialDistance;
+        axial.push(toCoded(signs));
+      }
+    });
+  }
+  const centers = Array.from({ length: plan.centerRuns }, () => toCoded(usable.map(() => 0)));
+  const codedRuns = interleaveCenters(seededShuffle([...cube, ...axial], seed), centers);
+  const runs = codedRuns.map((coded) => {
     const values: Record<number, number> = {};
-    factors.forEach((factor, idx) => {
-      values[factor.paramDefId] = combo[idx];
+    for (const factor of usable) {
+      const [low, high] = twoLevelsFromConfig(factor)!;
+      const center = (low + high) / 2;
+      const half = (high - low) / 2;
+      values[factor.paramDefId] = roundLevel(center + coded[factor.paramDefId] * half);
+    }
+    return { values, coded };
+  });
+  return { runs, codedLevels: codedRuns, plan };
+}
+
+// First rows of the cyclic Plackett–Burman constructions; the last run is all low.
+const PLACKETT_BURMAN_GENERATORS: Record<number, string> = {
+  12: "++-+++---+-",
+  20: "++--++++-+-+----++-",
+  24: "+++++-+-++--++--+-+----"
+};
+
+export const PLACKETT_BURMAN_SIZES = [12, 20, 24];
+
+// Smallest supported run size of at least `minRuns` with a column for every factor.
+export function plackettBurmanRuns(k: number, minRuns = 12): number | null {
+  if (k < 2) return null;
+  return PLACKETT_BURMAN_SIZES.find((size) => size >= minRuns && size - 1 >= k) ?? null;
+}
+
+function plackettBurmanRows(size: number): number[][] {
+  const first = PLACKETT_BURMAN_GENERATORS[size].split("").map((ch) => (ch === "+" ? 1 : -1));
+  const rows: number[][] = [];
+  for (let shift = 0; shift < size - 1; shift += 1) {
+    rows.push(first.map((_, col) => first[(col - shift + first.length) % first.length]));
+  }
+  rows.push(first.map(() => -1));
+  return rows;
+}
+
+export function buildPlackettBurmanDesign(
+  factors: FactorConfig[],
+  seed: number,
+  options: { minRuns: number }
+): { runs: DesignRun[]; codedLevels: Array<Record<number, number>>; size: number | null } {
+  const usable = factors.filter((factor) => twoLevelsFromConfig(factor) != null);
+  const size = plackettBurmanRuns(usable.length, options.minRuns);
+  if (!size) return { runs: [], codedLevels: [], size: null };
+
+  const codedRuns = seededShuffle(
+    plackettBurmanRows(size).map((signs) => {
+      const coded: Record<number, number> = {};
+      usable.forEach((factor, idx) => {
+        coded[factor.paramDefId] = signs[idx];
+      });
+      return coded;
+    }),
+    seed
+  );
+  const runs = codedRuns.map((coded) => {
+    const values: Record<number, number> = {};
+    for (const factor of usable) {
+      const [low, high] = twoLevelsFromConfig(factor)!;
+      values[factor.paramDefId] = coded[factor.paramDefId] === 1 ? high : low;
+    }
+    return { values, coded };
+  });
+  return { runs, codedLevels: codedRuns, size };
+}
+
+// Order 10 has no prime Paley construction (9 = 3^2); rows come from the GF(9) quadratic character.
+const CONFERENCE_10 = [
+  "0+++++++++",
+  "+0+++--+--",
+  "++0+-+--+-",
+  "+++0--+--+",
+  "++--0+++--",
+  "+-+-+0+-+-",
+  "+--+++0--+",
+  "++--+--0++",
+  "+-+--+-+0+",
+  "+--+--+++0"
+];
+
+export const MAX_DSD_FACTORS = 23;
+
+function isPrime(value: number): boolean {
+  if (value < 2) return false;
+  for (let d = 2; d * d <= value; d += 1) {
+    if (value % d === 0) return false;
+  }
+  return true;
+}
+
+// Conference matrix C (zero diagonal, ±1 elsewhere, C·Cᵀ = (m-1)·I) via Paley for prime m-1.
+export function conferenceMatrix(m: number): number[][] | null {
+  if (m === 10) {
+    return CONFERENCE_10.map((row) => row.split("").map((ch) => (ch === "0" ? 0 : ch === "+" ? 1 : -1)));
+  }
+  const q = m - 1;
+  if (!isPrime(q) || q === 2) return null;
+  const squares = new Set<number>();
+  for (let x = 1; x < q; x += 1) squares.add((x * x) % q);
+  const chi = (value: number) => {
+    const residue = ((value % q) + q) % q;
+    if (residue === 0) return 0;
+    return squares.has(residue) ? 1 : -1;
+  };
+  const edge = q % 4 === 1 ? 1 : -1;
+  const matrix: number[][] = [[0, ...Array.from({ length: q }, () => 1)]];
+  for (let i = 0; i < q; i += 1) {
+    matrix.push([edge, ...Array.from({ length: q }, (_, j) => chi(j - i))]);
+  }
+  return matrix;
+}
+
+export type DsdPlan = {
+  k: number;
+  m: number;
+  runs: number;
+  fakeFactors: number;
+};
+
+// Uses the smallest conference matrix with at least k columns; odd k (and orders without a
+// construction) leave unused "fake factor" columns, which only add runs.
+export function dsdPlan(k: number): DsdPlan | null {
+  if (k < 3 || k > MAX_DSD_FACTORS) return null;
+  for (let m = k % 2 === 0 ? k : k + 1; m <= MAX_DSD_FACTORS + 1; m += 2) {
+    if (conferenceMatrix(m)) {
+      return { k, m, runs: 2 * m + 1, fakeFactors: m - k };
+    }
+  }
+  return null;
+}
+
+export function buildDsdDesign(
+  factors: FactorConfig[],
+  seed: number
+): { runs: DesignRun[]; codedLevels: Array<Record<number, number>>; plan: DsdPlan | null } {
+  const usable = factors.filter((factor) => twoLevelsFromConfig(factor) != null);
+  const plan = dsdPlan(usable.length);
+  if (!plan) return { runs: [], codedLevels: [], plan: null };
+
+  const conference = conferenceMatrix(plan.m)!;
+  const toCoded = (signs: number[]) => {
+    const coded: Record<number, number> = {};
+    usable.forEach((factor, idx) => {
+      coded[factor.paramDefId] = signs[idx];
     });
-    return { values };
+    return coded;
+  };
+  const rows = [
+    ...conference.map(toCoded),
+    ...conference.map((row) => toCoded(row.map((value) => -value || 0))),
+    toCoded(usable.map(() => 0))
+  ];
+  const codedRuns = seededShuffle(rows, seed);
+  const runs = codedRuns.map((coded) => {
+    const values: Record<number, number> = {};
+    for (const factor of usable) {
+      const levels = levelsFromConfig(factor);
+      const [low, high] = twoLevelsFromConfig(factor)!;
+      const middle = levels.length === 3 ? levels[1] : roundLevel((low + high) / 2);
+      const level = coded[factor.paramDefId];
+      values[factor.paramDefId] = level === 0 ? middle : level === 1 ? high : low;
+    }
+    return { values, coded };
+  });
+  return { runs, codedLevels: codedRuns, plan };
+}
+
+function codedScale(factor: FactorConfig): { center: number; half: number } {
+  const [low, high] = twoLevelsFromConfig(factor)!;
+  return { center: (low + high) / 2, half: (high - low) / 2 || 1 };
+}
+
+// Settings coded to -1..1 over each factor's low/high levels; factors without two levels, and
+// categorical factors with more than two, are dropped.
+export function codeRuns(
+  factors: FactorConfig[],
+  runs: Array<Record<number, number>>
+): { factors: FactorConfig[]; rows: number[][] } {
+  const usable = factors.filter(
+    (factor) => twoLevelsFromConfig(factor) != null && (factor.categories?.length ?? 2) <= 2
+  );
+  const scales = usable.map(codedScale);
+  const rows = runs
+    .filter((values) => usable.every((factor) => values[factor.paramDefId] != null))
+    .map((values) => usable.map((factor, idx) => (values[factor.paramDefId] - scales[idx].center) / scales[idx].half));
+  return { factors: usable, rows };
+}
+
+// Coding the design used for each numeric factor that appears in its coded runs (design metadata
+// `factors` and `codedLevels`): the low/high levels map to -1/+1.
+export function designCoding(
+  factors: FactorConfig[],
+  codedLevels: Array<Record<number, number>>
+): Map<number, { center: number; half: number }> {
+  const coding = new Map<number, { center: number; half: number }>();
+  factors
+    .filter(
+      (factor) =>
+        !factor.categories &&
+        twoLevelsFromConfig(factor) != null &&
+        codedLevels.some((coded) => coded[factor.paramDefId] != null)
+    )
+    .forEach((factor) => coding.set(factor.paramDefId, codedScale(factor)));
+  return coding;
+}
+
+export type AugmentKind = "fold_over" | "axial" | "center";
+export type AugmentAlpha = "face" | "rotatable";
+
+/**
+ * Runs that extend an existing two-level design, from the coded settings of its runs.
+ * Fold-over mirrors every factorial point (all signs, or only foldFactorId) that is not already in
+ * the design; axial adds ±alpha star points (rotatable alpha from the number of factorial points);
+ * center adds center points only. Every kind interleaves the requested center points. Factors
+ * without two levels are left out.
+ */
+export function buildAugmentRuns(
+  factors: FactorConfig[],
+  existing: Array<Record<number, number>>,
+  seed: number,
+  options: { kind: AugmentKind; foldFactorId: number | null; alpha: AugmentAlpha; centerPoints: number }
+): { runs: DesignRun[]; alpha: number | null } {
+  const usable = factors.filter((factor) => twoLevelsFromConfig(factor) != null);
+  if (!usable.length) return { runs: [], alpha: null };
+  const scales = usable.map(codedScale);
+  const codedKey = (signs: number[]) => signs.map((sign) => roundLevel(sign)).join(",");
+  const existingCoded = existing
+    .filter((values) => usable.every((factor) => values[factor.paramDefId] != null))
+    .map((values) => usable.map((factor, idx) => roundLevel((values[factor.paramDefId] - scales[idx].center) / scales[idx].half)));
+  const factorial = existingCoded.filter((signs) => signs.every((sign) => Math.abs(Math.abs(sign) - 1) < 1e-6));
+  const centers = Array.from({ length: Math.max(options.centerPoints, 0) }, () => usable.map(() => 0));
+
+  let codedRuns: number[][] = [];
+  let alpha: number | null = null;
+  if (options.kind === "fold_over") {
+    const present = new Set(existingCoded.map(codedKey));
+    const folded = new Map<string, number[]>();
+    for (const signs of factorial) {
+      const mirror = signs.map((sign, idx) =>
+        options.foldFactorId == null || usable[idx].paramDefId === options.foldFactorId ? -sign : sign
+      );
+      const key = codedKey(mirror);
+      if (!present.has(key)) folded.set(key, mirror);
+    }
+    codedRuns = interleaveCenters(seededShuffle(Array.from(folded.values()), seed), centers);
+  } else if (options.kind === "axial") {
+    const distinctFactorial = new Set(factorial.map(codedKey)).size;
+    alpha = options.alpha === "rotatable" && distinctFactorial > 0 ? Math.pow(distinctFactorial, 0.25) : 1;
+    const axial = usable.flatMap((_, idx) =>
+      [-1, 1].map((sign) => usable.map((__, j) => (j === idx ? sign * (alpha as number) : 0)))
+    );
+    codedRuns = interleaveCenters(seededShuffle(axial, seed), centers);
+  } else {
+    codedRuns = centers;
+  }
+
+  const runs = codedRuns.map((signs) => {
+    const values: Record<number, number> = {};
+    const coded: Record<number, number> = {};
+    usable.forEach((factor, idx) => {
+      coded[factor.paramDefId] = signs[idx];
+      values[factor.paramDefId] = roundLevel(scales[idx].center + signs[idx] * scales[idx].half);
+    });
+    return { values, coded };
+  });
+  return { runs, alpha };
+}
+
+// Levels the exchange may pick: extremes for linear models, plus the middle (or every LIST value) for
+// quadratic models and constrained regions, where cut-off corners need interior replacements.
+function optimalCandidates(factor: FactorConfig, model: ModelKind, constrained: boolean): number[] {
+  if (factor.categories) return levelsFromConfig(factor);
+  const [low, high] = twoLevelsFromConfig(factor)!;
+  if (model !== "quadratic" && !constrained) return [low, high];
+  if (factor.mode === "LIST") return levelsFromConfig(factor);
+  return [low, roundLevel((low + high) / 2), high];
+}
+
+// Run budget when none is set: four runs beyond the model terms leave a few degrees of freedom for error.
+export function defaultOptimalRuns(termCount: number): number {
+  return termCount + 4;
+}
+
+export function buildOptimalDesign(
+  factors: FactorConfig[],
+  seed: number,
+  options: {
+    model: ModelKind;
+    criterion: OptimalCriterion;
+    runs: number | null;
+    forced: Array<Record<number, number>>;
+    existing?: Array<Record<number, number>>;
+    feasible?: (values: Record<number, number>) => boolean;
+  }
+): {
+  runs: DesignRun[];
+  codedLevels: Array<Record<number, number>>;
+  terms: string[];
+  budget: number;
+  result: OptimalResult | null;
+} {
+  const usable = factors.filter((factor) => twoLevelsFromConfig(factor) != null);
+  const terms = buildModelTerms(
+    usable.map((factor) => factor.code),
+    options.model,
+    usable.map((factor) => factor.categories ?? null)
+  );
+  // Categorical factors are searched over their level indices, which the indicator terms read as-is.
+  const scales = usable.map((factor) => (factor.categories ? { center: 0, half: 1 } : codedScale(factor)));
+  const toCoded = (value: number, idx: number) => (value - scales[idx].center) / scales[idx].half;
+  const fromCoded = (row: number[]) => {
+    const values: Record<number, number> = {};
+    usable.forEach((factor, idx) => {
+      values[factor.paramDefId] = roundLevel(scales[idx].center + row[idx] * scales[idx].half);
+    });
+    return values;
+  };
+  const levels = usable.map((factor, idx) =>
+    optimalCandidates(factor, options.model, options.feasible != null).map((value) => toCoded(value, idx))
+  );
+  const feasible = options.feasible;
+  // Existing runs take part in the search like forced runs but are not returned as new runs.
+  const existing = options.existing ?? [];
+  const forced = [...existing, ...options.forced].map((run) =>
+    usable.map((factor, idx) => {
+      const value = run[factor.paramDefId];
+      return Number.isFinite(value) ? toCoded(value, idx) : 0;
+    })
+  );
+  const budget = options.runs ?? defaultOptimalRuns(terms.length);
+  const labels = terms.map((term) => term.label);
+  const result = usable.length
+    ? coordinateExchange({
+        levels,
+        terms,
+        runs: budget + existing.length,
+        forced,
+        criterion: options.criterion,
+        seed,
+        feasible: feasible ? (row) => feasible(fromCoded(row)) : undefined
+      })
+    : null;
+  if (!result) return { runs: [], codedLevels: [], terms: labels, budget, result: null };
+
+  const codedRuns = seededShuffle(
+    result.rows.slice(existing.length).map((row) => {
+      const coded: Record<number, number> = {};
+      usable.forEach((factor, idx) => {
+        coded[factor.paramDefId] = roundLevel(row[idx]);
+      });
+      return coded;
+    }),
+    seed
+  );
+  const runs = codedRuns.map((coded) => ({
+    values: fromCoded(usable.map((factor) => coded[factor.paramDefId])),
+    coded
+  }));
+  return { runs, codedLevels: codedRuns, terms: labels, budget, result };
+}
+
+export type TaguchiArrayName = "L4" | "L8" | "L9" | "L12" | "L18" | "L27";
+
+export type OrthogonalArray = {
+  name: TaguchiArrayName;
+  runs: number;
+  columnLevels: number[];
+  rows: number[][];
+};
+
+// Columns of a regular array as GF(p) linear combinations of the basic columns; levels are 1-based.
+function regularArray(name: TaguchiArrayName, base: number, basic: number, columns: number[][]): OrthogonalArray {
+  const rows: number[][] = [];
+  for (let index = 0; index < Math.pow(base, basic); index += 1) {
+    const digits = Array.from({ length: basic }, (_, pos) => Math.floor(index / Math.pow(base, basic - 1 - pos)) % base);
+    rows.push(columns.map((coeffs) => (coeffs.reduce((acc, coeff, pos) => acc + coeff * digits[pos], 0) % base) + 1));
+  }
+  return { name, runs: rows.length, columnLevels: columns.map(() => base), rows };
+}
+
+const L18_ROWS = [
+  "11111111", "11222222", "11333333", "12112233", "12223311", "12331122",
+  "13121323", "13232131", "13313212", "21133221", "21211332", "21322113",
+  "22123132", "22231213", "22312321", "23132312", "23213123", "23321231"
+];
+
+export const TAGUCHI_ARRAYS: OrthogonalArray[] = [
+  regularArray("L4", 2, 2, [[1, 0], [0, 1], [1, 1]]),
+  regularArray("L8", 2, 3, [[1, 0, 0], [0, 1, 0], [1, 1, 0], [0, 0, 1], [1, 0, 1], [0, 1, 1], [1, 1, 1]]),
+  regularArray("L9", 3, 2, [[1, 0], [0, 1], [1, 1], [1, 2]]),
+  {
+    name: "L12",
+    runs: 12,
+    columnLevels: Array.from({ length: 11 }, () => 2),
+    rows: plackettBurmanRows(12).map((signs) => signs.map((sign) => (sign === 1 ? 2 : 1)))
+  },
+  {
+    name: "L18",
+    runs: 18,
+    columnLevels: [2, 3, 3, 3, 3, 3, 3, 3],
+    rows: L18_ROWS.map((row) => row.split("").map(Number))
+  },
+  regularArray("L27", 3, 3, [
+    [1, 0, 0], [0, 1, 0], [1, 1, 0], [1, 2, 0], [0, 0, 1], [1, 0, 1], [1, 0, 2],
+    [0, 1, 1], [1, 1, 1], [1, 2, 2], [0, 1, 2], [1, 2, 1], [1, 1, 2]
+  ])
+];
+
+export type TaguchiAssignment = {
+  column: number;
+  dummy: boolean;
+};
+
+// 3-level factors take 3-level columns; 2-level factors take 2-level columns first, then spare
+// 3-level columns with the dummy-level treatment (level 3 replays level 1).
+function assignColumns(array: OrthogonalArray, levelCounts: number[]): TaguchiAssignment[] | null {
+  if (levelCounts.some((count) => count !== 2 && count !== 3)) return null;
+  const free2 = array.columnLevels.map((levels, idx) => (levels === 2 ? idx : -1)).filter((idx) => idx >= 0);
+  const free3 = array.columnLevels.map((levels, idx) => (levels === 3 ? idx : -1)).filter((idx) => idx >= 0);
+  const assignment: TaguchiAssignment[] = new Array(levelCounts.length);
+  for (let i = 0; i < levelCounts.length; i += 1) {
+    if (levelCounts[i] !== 3) continue;
+    const column = free3.shift();
+    if (column == null) return null;
+    assignment[i] = { column, dummy: false };
+  }
+  for (let i = 0; i < levelCounts.length; i += 1) {
+    if (levelCounts[i] !== 2) continue;
+    const column = free2.shift() ?? free3.shift();
+    if (column == null) return null;
+    assignment[i] = { column, dummy: array.columnLevels[column] === 3 };
+  }
+  return assignment;
+}
+
+export type TaguchiPlan = {
+  inner: { name: TaguchiArrayName; runs: number; assignment: TaguchiAssignment[] };
+  outer: { name: TaguchiArrayName | "FULL"; runs: number; rows: number[][] };
+  runs: number;
+};
+
+function innerArray(levelCounts: number[], preferred: TaguchiArrayName | "auto") {
+  const candidates = preferred === "auto" ? TAGUCHI_ARRAYS : TAGUCHI_ARRAYS.filter((array) => array.name === preferred);
+  for (const array of candidates) {
+    const assignment = assignColumns(array, levelCounts);
+    if (assignment) return { array, assignment };
+  }
+  return null;
+}
+
+// Noise factors are crossed as a full factorial when that is no larger than the smallest fitting array.
+function outerArray(levelCounts: number[]): TaguchiPlan["outer"] | null {
+  if (!levelCounts.length) return { name: "FULL", runs: 1, rows: [[]] };
+  const full = cartesian(levelCounts.map((count) => Array.from({ length: count }, (_, idx) => idx + 1)));
+  const fitted = innerArray(levelCounts, "auto");
+  if (!fitted || full.length <= fitted.array.runs) {
+    return { name: "FULL", runs: full.length, rows: full };
+  }
+  const rows = fitted.array.rows.map((row) =>
+    fitted.assignment.map(({ column, dummy }) => (dummy && row[column] === 3 ? 1 : row[column]))
+  );
+  return { name: fitted.array.name, runs: rows.length, rows };
+}
+
+export function taguchiPlan(
+  controlLevels: number[],
+  noiseLevels: number[],
+  preferred: TaguchiArrayName | "auto"
+): TaguchiPlan | null {
+  if (!controlLevels.length) return null;
+  const inner = innerArray(controlLevels, preferred);
+  if (!inner) return null;
+  if (noiseLevels.some((count) => count < 2)) return null;
+  const outer = outerArray(noiseLevels);
+  if (!outer) return null;
+  return {
+    inner: { name: inner.array.name, runs: inner.array.runs, assignment: inner.assignment },
+    outer,
+    runs: inner.array.runs * outer.runs
+  };
+}
+
+/**
+ * Crossed inner × outer design: every inner-array row (control settings) is run at every outer-array
+ * row (noise settings). Inner rows are randomized; noise settings stay in standard order within a row.
+ * Coded levels are the 1-based array levels.
+ */
+export function buildTaguchiDesign(
+  control: FactorConfig[],
+  noise: FactorConfig[],
+  seed: number,
+  options: { array: TaguchiArrayName | "auto" }
+): { runs: DesignRun[]; codedLevels: Array<Record<number, number>>; plan: TaguchiPlan | null } {
+  const controlLevels = control.map(levelsFromConfig);
+  const noiseLevels = noise.map(levelsFromConfig);
+  const plan = taguchiPlan(
+    controlLevels.map((levels) => levels.length),
+    noiseLevels.map((levels) => levels.length),
+    options.array
+  );
+  if (!plan) return { runs: [], codedLevels: [], plan: null };
+  const array = TAGUCHI_ARRAYS.find((candidate) => candidate.name === plan.inner.name)!;
+  const innerRows = seededShuffle(
+    array.rows.map((row) =>
+      plan.inner.assignment.map(({ column, dummy }) => (dummy && row[column] === 3 ? 1 : row[column]))
+    ),
+    seed
+  );
+  const runs: DesignRun[] = [];
+  for (const innerRow of innerRows) {
+    for (const outerRow of plan.outer.rows) {
+      const values: Record<number, number> = {};
+      const coded: Record<number, number> = {};
+      control.forEach((factor, idx) => {
+        values[factor.paramDefId] = controlLevels[idx][innerRow[idx] - 1];
+        coded[factor.paramDefId] = innerRow[idx];
+      });
+      noise.forEach((factor, idx) => {
+        values[factor.paramDefId] = noiseLevels[idx][outerRow[idx] - 1];
+        coded[factor.paramDefId] = outerRow[idx];
+      });
+      runs.push({ values, coded });
+    }
+  }
+  return { runs, codedLevels: runs.map((run) => run.coded!), plan };
+}
+
+export type MixtureKind = "lattice" | "centroid" | "extreme";
+
+export type MixtureComponent = {
+  name: string;
+  lower: number;
+  upper: number;
+};
+
+export type MixturePlan = {
+  kind: MixtureKind;
+  degree: number;
+  points: number[][];
+  excluded: number;
+  pseudo: boolean;
+};
+
+export const MAX_MIXTURE_COMPONENTS = 10;
+const MIXTURE_TOLERANCE = 1e-9;
+
+function simplexLattice(q: number, degree: number): number[][] {
+  const points: number[][] = [];
+  const walk = (prefix: number[], remaining: number) => {
+    if (prefix.length === q - 1) {
+      points.push([...prefix, remaining].map((count) => count / degree));
+      return;
+    }
+    for (let count = remaining; count >= 0; count -= 1) walk([...prefix, count], remaining - count);
+  };
+  walk([], degree);
+  return points;
+}
+
+// Every non-empty subset of components blended in equal parts: 2^q - 1 points.
+function simplexCentroid(q: number): number[][] {
+  const points: number[][] = [];
+  for (let mask = 1; mask < 1 << q; mask += 1) {
+    const size = bitCount(mask);
+    points.push(Array.from({ length: q }, (_, idx) => (mask & (1 << idx) ? 1 / size : 0)));
+  }
+  return points;
+}
+
+function overallCentroid(vertices: number[][]): number[] {
+  const q = vertices[0]?.length ?? 0;
+  return Array.from({ length: q }, (_, idx) => vertices.reduce((acc, vertex) => acc + vertex[idx], 0) / vertices.length);
+}
+
+// Interior check blends halfway between each vertex and the overall centroid.
+function axialBlends(vertices: number[][]): number[][] {
+  const centroid = overallCentroid(vertices);
+  return vertices.map((vertex) => vertex.map((value, idx) => (value + centroid[idx]) / 2));
+}
+
+/**
+ * Extreme vertices of {lower <= x <= upper, sum x = 1} (McLean & Anderson): fix all but one component
+ * at a bound and keep the point when the remaining component lands inside its own bounds.
+ */
+export function extremeVertices(components: MixtureComponent[]): number[][] {
+  const q = components.length;
+  const vertices: number[][] = [];
+  for (let free = 0; free < q; free += 1) {
+    for (let mask = 0; mask < 1 << (q - 1); mask += 1) {
+      const point = new Array<number>(q).fill(0);
+      let bit = 0;
+      let sum = 0;
+      components.forEach((component, idx) => {
+        if (idx === free) return;
+        point[idx] = mask & (1 << bit) ? component.upper : component.lower;
+        sum += point[idx];
+        bit += 1;
+      });
+      point[free] = 1 - sum;
+      const { lower, upper } = components[free];
+      if (point[free] < lower - MIXTURE_TOLERANCE || point[free] > upper + MIXTURE_TOLERANCE) continue;
+      vertices.push(point);
+    }
+  }
+  return dedupePoints(vertices);
+}
+
+// Two vertices share an edge when at least q - 2 components sit on the same bound in both.
+function edgeMidpoints(vertices: number[][], components: MixtureComponent[]): number[][] {
+  const q = components.length;
+  const atBound = (value: number, idx: number) =>
+    Math.abs(value - components[idx].lower) < 1e-7 ? "L" : Math.abs(value - components[idx].upper) < 1e-7 ? "U" : null;
+  const midpoints: number[][] = [];
+  for (let a = 0; a < vertices.length; a += 1) {
+    for (let b = a + 1; b < vertices.length; b += 1) {
+      let shared = 0;
+      for (let idx = 0; idx < q; idx += 1) {
+        const bound = atBound(vertices[a][idx], idx);
+        if (bound && bound === atBound(vertices[b][idx], idx)) shared += 1;
+      }
+      if (shared >= q - 2) midpoints.push(vertices[a].map((value, idx) => (value + vertices[b][idx]) / 2));
+    }
+  }
+  return midpoints;
+}
+
+function dedupePoints(points: number[][]): number[][] {
+  const seen = new Set<string>();
+  return points.filter((point) => {
+    const key = point.map((value) => roundLevel(value).toFixed(6)).join(",");
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Mixture blends as proportions summing to one. Lattice and centroid designs are laid out on the
+ * L-pseudocomponent simplex (lower bounds taken off the top) and points breaking an upper bound are
+ * dropped and counted; extreme-vertex designs work on the constrained region directly.
+ * Null when the bounds leave no feasible blend.
+ */
+export function mixturePlan(
+  components: MixtureComponent[],
+  options: { kind: MixtureKind; degree: number; augment: boolean }
+): MixturePlan | null {
+  const q = components.length;
+  if (q < 2 || q > MAX_MIXTURE_COMPONENTS) return null;
+  if (components.some((component) => component.lower < 0 || component.upper > 1 || component.lower > component.upper)) {
+    return null;
+  }
+  const lowerSum = components.reduce((acc, component) => acc + component.lower, 0);
+  const upperSum = components.reduce((acc, component) => acc + component.upper, 0);
+  if (lowerSum > 1 + MIXTURE_TOLERANCE || upperSum < 1 - MIXTURE_TOLERANCE) return null;
+  const degree = Math.max(1, Math.floor(options.degree));
+
+  if (options.kind === "extreme") {
+    const vertices = extremeVertices(components);
+    if (!vertices.length) return null;
+    const points = [...vertices];
+    if (degree >= 2) points.push(...edgeMidpoints(vertices, components));
+    points.push(overallCentroid(vertices));
+    if (options.augment) points.push(...axialBlends(vertices));
+    return {
+      kind: "extreme",
+      degree,
+      points: dedupePoints(points.map((point) => point.map(roundLevel))),
+      excluded: 0,
+      pseudo: false
+    };
+  }
+
+  const base = options.kind === "centroid" ? simplexCentroid(q) : simplexLattice(q, degree);
+  const corners = Array.from({ length: q }, (_, i) => Array.from({ length: q }, (_, j) => (i === j ? 1 : 0)));
+  const simplex = options.augment ? [...base, overallCentroid(corners), ...axialBlends(corners)] : base;
+  const span = 1 - lowerSum;
+  const points: number[][] = [];
+  let excluded = 0;
+  for (const z of dedupePoints(simplex)) {
+    const x = z.map((value, idx) => components[idx].lower + span * value);
+    if (x.some((value, idx) => value > components[idx].upper + MIXTURE_TOLERANCE)) {
+      excluded += 1;
+      continue;
+    }
+    points.push(x.map(roundLevel));
+  }
+  if (!points.length) return null;
+  return { kind: options.kind, degree, points, excluded, pseudo: lowerSum > MIXTURE_TOLERANCE };
+}
+
+export function buildMixtureDesign(
+  components: Array<MixtureComponent & { paramDefId: number }>,
+  seed: number,
+  options: { kind: MixtureKind; degree: number; augment: boolean }
+): { runs: DesignRun[]; plan: MixturePlan | null } {
+  const plan = mixturePlan(components, options);
+  if (!plan) return { runs: [], plan: null };
+  const runs = seededShuffle(plan.points, seed).map((point) => {
+    const values: Record<number, number> = {};
+    components.forEach((component, idx) => {
+      values[component.paramDefId] = point[idx];
+    });
+    return { values, coded: { ...values } };
+  });
+  return { runs, plan };
+}
+
+/**
+ * Split-plot run order: runs sharing the hard-to-change settings form whole plots, large groups are
+ * cut into whole plots of at most maxSize runs (earlier replicates first, so each plot holds a full
+ * set where possible), whole plots are run in random order and runs are randomized within each plot.
+ * Without maxSize each replicate of a setting is its own whole plot, so replicated designs leave
+ * error df for testing the hard-to-change factors.
+ */
+export function arrangeSplitPlot<T extends { values: Record<number, number>; replicate: number }>(
+  runs: T[],
+  hardIds: number[],
+  seed: number,
+  maxSize: number | null
+): Array<T & { wholePlot: number }> {
+  const groups = new Map<string, T[]>();
+  for (const run of runs) {
+    const key = JSON.stringify(hardIds.map((id) => run.values[id] ?? null));
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(run);
+  }
+  const plots: T[][] = [];
+  Array.from(groups.values()).forEach((group, groupIdx) => {
+    const ordered = seededShuffle(group, seed + groupIdx + 1)
+      .map((run, idx) => ({ run, idx }))
+      .sort((a, b) => a.run.replicate - b.run.replicate || a.idx - b.idx)
+      .map((entry) => entry.run);
+    if (!maxSize || maxSize <= 0) {
+      const byReplicate = new Map<number, T[]>();
+      ordered.forEach((run) => byReplicate.set(run.replicate, [...(byReplicate.get(run.replicate) ?? []), run]));
+      plots.push(...byReplicate.values());
+      return;
+    }
+    const plotCount = Math.ceil(ordered.length / maxSize);
+    for (let plot = 0; plot < plotCount; plot += 1) {
+      const start = Math.round((plot * ordered.length) / plotCount);
+      const end = Math.round(((plot + 1) * ordered.length) / plotCount);
+      plots.push(ordered.slice(start, end));
+    }
   });
+  return seededShuffle(plots, seed).flatMap((plot, plotIdx) =>
+    seededShuffle(plot, seed + 7919 * (plotIdx + 1)).map((run) => ({ ...run, wholePlot: plotIdx + 1 }))
+  );
 }
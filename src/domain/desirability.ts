@@ -0,0 +1,98 @@
+import { mulberry32 } from "../lib/rng.js";
+
+export type GoalKind = "minimize" | "maximize" | "target";
+
+export type ResponseGoal = {
+  goal: GoalKind;
+  // maximize uses lower..target, minimize target..upper, target all three.
+  lower: number;
+  target: number;
+  upper: number;
+  // Relative weight of the response in the overall desirability (1 to 5).
+  importance: number;
+};
+
+/**
+ * Derringer–Suich desirability of one predicted response with linear ramps: 1 at the target (or
+ * beyond it in the goal's direction), 0 outside the acceptable limit, linear in between.
+ */
+export function individualDesirability(value: number, goal: ResponseGoal): number {
+  if (!Number.isFinite(value)) return 0;
+  const ramp = (from: number, to: number) => {
+    if (to === from) return value === to ? 1 : 0;
+    return Math.min(Math.max((value - from) / (to - from), 0), 1);
+  };
+  if (goal.goal === "maximize") return value >= goal.target ? 1 : ramp(goal.lower, goal.target);
+  if (goal.goal === "minimize") return value <= goal.target ? 1 : ramp(goal.upper, goal.target);
+  if (value < goal.lower || value > goal.upper) return 0;
+  return value <= goal.target ? ramp(goal.lower, goal.target) : ramp(goal.upper, goal.target);
+}
+
+// Importance-weighted geometric mean; zero as soon as any response is unacceptable.
+export function overallDesirability(values: number[], importances: number[]): number {
+  if (!values.length) return 0;
+  let weighted = 0;
+  let total = 0;
+  for (let i = 0; i < values.length; i += 1) {
+    if (values[i] <= 0) return 0;
+    weighted += importances[i] * Math.log(values[i]);
+    total += importances[i];
+  }
+  return total > 0 ? Math.exp(weighted / total) : 0;
+}
+
+// A search dimension: a numeric factor between its bounds, or a categorical factor's level index.
+export type SearchDimension = { kind: "range"; min: number; max: number } | { kind: "levels"; count: number };
+
+/**
+ * Maximizes score over the box: the best of a seeded random sample seeds a pattern search that
+ * moves one factor at a time (every level for categorical factors) and halves the step when no
+ * move helps. Deterministic for a given seed.
+ */
+export function maximizeOverBox(
+  score: (point: number[]) => number,
+  dimensions: SearchDimension[],
+  seed: number,
+  samples = 1000
+): { point: number[]; value: number } {
+  const rng = mulberry32(seed);
+  const randomPoint = () =>
+    dimensions.map((dim) => (dim.kind === "range" ? dim.min + rng() * (dim.max - dim.min) : Math.floor(rng() * dim.count)));
+  const candidates = [
+    dimensions.map((dim) => (dim.kind === "range" ? (dim.min + dim.max) / 2 : 0)),
+    ...Array.from({ length: samples }, randomPoint)
+  ]
+    .map((point) => ({ point, value: score(point) }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, 5);
+
+  let best = candidates[0];
+  for (const start of candidates) {
+    let current = { point: start.point.slice(), value: start.value };
+    let step = 0.25;
+    while (step > 1e-4) {
+      let moved = false;
+      dimensions.forEach((dim, idx) => {
+        const options =
+          dim.kind === "range"
+            ? [-1, 1].map((sign) =>
+                Math.min(Math.max(current.point[idx] + sign * step * (dim.max - dim.min), dim.min), dim.max)
+              )
+            : Array.from({ length: dim.count }, (_, level) => level);
+        options.forEach((option) => {
+          if (option === current.point[idx]) return;
+          const point = current.point.slice();
+          point[idx] = option;
+          const value = score(point);
+          if (value > current.value + 1e-12) {
+            current = { point, value };
+            moved = true;
+          }
+        });
+      });
+      if (!moved) step /= 2;
+    }
+    if (current.value > best.value) best = current;
+  }
+  return best;
+}
@@ -0,0 +1,132 @@
+import { mulberry32 } from "../lib/rng.js";
+import { crossProduct, dot, inverse, matVec } from "./matrix.js";
+import { buildModelTerms, modelRow } from "./models.js";
+import type { ModelKind, ModelTerm } from "./models.js";
+import { tTestPower } from "./stats.js";
+
+export type DesignEvaluation = {
+  runs: number;
+  model: ModelKind;
+  // Every model term except the intercept, in the order of the per-term arrays below.
+  terms: string[];
+  estimable: boolean;
+  dfError: number;
+  correlations: Array<Array<number | null>>;
+  vif: Array<number | null>;
+  relativeSe: Array<number | null>;
+  power: Array<number | null>;
+  alias: { omitted: string[]; rows: Array<{ term: string; aliases: Array<{ term: string; weight: number }> }> } | null;
+  fds: Array<{ fraction: number; variance: number }>;
+  averageVariance: number | null;
+};
+
+// Terms left out of each model that the alias matrix checks against.
+const NEXT_MODEL: Record<ModelKind, ModelKind | null> = {
+  main: "interactions",
+  interactions: "quadratic",
+  quadratic: null
+};
+
+function correlation(a: number[], b: number[]): number | null {
+  const n = a.length;
+  const meanA = a.reduce((acc, value) => acc + value, 0) / n;
+  const meanB = b.reduce((acc, value) => acc + value, 0) / n;
+  let sab = 0;
+  let saa = 0;
+  let sbb = 0;
+  for (let i = 0; i < n; i += 1) {
+    sab += (a[i] - meanA) * (b[i] - meanB);
+    saa += (a[i] - meanA) ** 2;
+    sbb += (b[i] - meanB) ** 2;
+  }
+  if (saa < 1e-12 || sbb < 1e-12) return null;
+  return sab / Math.sqrt(saa * sbb);
+}
+
+/**
+ * Evaluates planned runs (coded to -1..1) for an assumed model before anything is molded: term
+ * correlations, VIFs, standard errors relative to sigma, power to detect a low-to-high change of
+ * effectSize sigma in any term (coefficient effectSize / 2), the alias matrix against the terms the
+ * next larger model would add, and the fraction-of-design-space curve of the relative prediction
+ * variance over the coded cube.
+ */
+export function evaluateDesign(
+  rows: number[][],
+  labels: string[],
+  model: ModelKind,
+  options: { effectSize: number; alpha: number; seed: number }
+): DesignEvaluation {
+  const terms = buildModelTerms(labels, model);
+  const x = rows.map((row) => modelRow(terms, row));
+  const n = rows.length;
+  const p = terms.length;
+  const columns = terms.map((_, idx) => x.map((row) => row[idx]));
+  const correlations = columns.slice(1).map((a) => columns.slice(1).map((b) => correlation(a, b)));
+  const inv = n > 0 && n >= p ? inverse(crossProduct(x)) : null;
+  const dfError = Math.max(n - p, 0);
+
+  const vif = columns.slice(1).map((column, idx) => {
+    if (!inv) return null;
+    const meanValue = column.reduce((acc, value) => acc + value, 0) / n;
+    const spread = column.reduce((acc, value) => acc + (value - meanValue) ** 2, 0);
+    return spread > 1e-12 ? inv[idx + 1][idx + 1] * spread : null;
+  });
+  const relativeSe = terms.slice(1).map((_, idx) => (inv ? Math.sqrt(Math.max(inv[idx + 1][idx + 1], 0)) : null));
+  const power = relativeSe.map((se) =>
+    se && dfError > 0 ? tTestPower(options.effectSize / 2 / se, dfError, options.alpha) : null
+  );
+
+  let alias: DesignEvaluation["alias"] = null;
+  const next = NEXT_MODEL[model];
+  if (inv && next) {
+    const omitted: ModelTerm[] = buildModelTerms(labels, next).filter(
+      (term) => !terms.some((modelTerm) => modelTerm.label === term.label)
+    );
+    const x2 = rows.map((row) => modelRow(omitted, row));
+    // A = (X1'X1)^-1 X1'X2: how much of each omitted term leaks into each model coefficient.
+    const x1tx2 = terms.map((_, i) => omitted.map((__, j) => x.reduce((acc, row, r) => acc + row[i] * x2[r][j], 0)));
+    const matrix = inv.map((row) => omitted.map((_, j) => dot(row, x1tx2.map((entry) => entry[j]))));
+    alias = {
+      omitted: omitted.map((term) => term.label),
+      rows: terms.map((term, i) => ({
+        term: term.label,
+        aliases: omitted
+          .map((omittedTerm, j) => ({ term: omittedTerm.label, weight: matrix[i][j] }))
+          .filter((entry) => Math.abs(entry.weight) > 1e-6)
+      }))
+    };
+  }
+
+  let fds: DesignEvaluation["fds"] = [];
+  let averageVariance: number | null = null;
+  if (inv && labels.length) {
+    const rng = mulberry32(options.seed);
+    const variances = Array.from({ length: 2000 }, () => {
+      const f = modelRow(
+        terms,
+        labels.map(() => rng() * 2 - 1)
+      );
+      return dot(f, matVec(inv, f));
+    }).sort((a, b) => a - b);
+    averageVariance = variances.reduce((acc, value) => acc + value, 0) / variances.length;
+    fds = Array.from({ length: 21 }, (_, idx) => ({
+      fraction: idx / 20,
+      variance: variances[Math.min(Math.round((idx / 20) * (variances.length - 1)), variances.length - 1)]
+    }));
+  }
+
+  return {
+    runs: n,
+    model,
+    terms: terms.slice(1).map((term) => term.label),
+    estimable: inv != null,
+    dfError,
+    correlations,
+    vif,
+    relativeSe,
+    power,
+    alias,
+    fds,
+    averageVariance
+  };
+}
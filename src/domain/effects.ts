@@ -0,0 +1,146 @@
+import { crossProduct, inverse, matVec } from "./matrix.js";
+import { fitLeastSquares } from "./regression.js";
+import { normalQuantile, tCritical, tTestPValue } from "./stats.js";
+
+export type EffectEstimate = {
+  label: string;
+  // Interactions whose column equals this one (up to sign); the estimate is their sum.
+  aliases: string[];
+  // Change in the response from the low (-1) to the high (+1) setting.
+  effect: number;
+  standardized: number;
+  p: number;
+  active: boolean;
+};
+
+export type EffectsScreening = {
+  // Lenth's pseudo standard error for unreplicated runs, the model's residual error when settings repeat.
+  method: "lenth" | "residual";
+  // Standard error of one effect (PSE for Lenth).
+  scale: number;
+  df: number;
+  // Margin of error on the standardized scale; Lenth also gives the simultaneous margin.
+  critical: number;
+  simultaneous: number | null;
+  effects: EffectEstimate[];
+  // Two-factor interactions correlated with, but not equal to, an estimated column.
+  partial: string[];
+  halfNormal: Array<{ label: string; absEffect: number; quantile: number }>;
+};
+
+// Lenth (1989): s0 = 1.5 median |c|, PSE = 1.5 median of the |c| below 2.5 s0.
+export function lenthPse(effects: number[]): number {
+  const median = (values: number[]) => {
+    if (!values.length) return NaN;
+    const sorted = values.slice().sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  };
+  const abs = effects.map((value) => Math.abs(value));
+  const s0 = 1.5 * median(abs);
+  return 1.5 * median(abs.filter((value) => value < 2.5 * s0));
+}
+
+function centeredCorrelation(a: number[], b: number[]): number {
+  const meanA = a.reduce((acc, value) => acc + value, 0) / a.length;
+  const meanB = b.reduce((acc, value) => acc + value, 0) / b.length;
+  let ab = 0;
+  let aa = 0;
+  let bb = 0;
+  a.forEach((value, idx) => {
+    ab += (value - meanA) * (b[idx] - meanB);
+    aa += (value - meanA) ** 2;
+    bb += (b[idx] - meanB) ** 2;
+  });
+  return aa > 0 && bb > 0 ? ab / Math.sqrt(aa * bb) : 0;
+}
+
+/**
+ * Main effects and two-factor interactions of a screening design on coded (-1/+1) factors. An
+ * interaction enters only when its column is orthogonal to everything estimated so far; one that
+ * repeats a column is reported as its alias, one that is merely correlated is listed as partial.
+ * Effects are twice the least-squares coefficients. Runs with repeated settings give a residual
+ * error to test against; otherwise the effects are standardized by Lenth's PSE with m/3 df.
+ */
+export function screeningEffects(
+  coded: number[][],
+  y: number[],
+  labels: string[],
+  alpha = 0.05
+): EffectsScreening | null {
+  const n = y.length;
+  const k = labels.length;
+  if (!k || n < 3) return null;
+  const columns: Array<{ label: string; aliases: string[]; values: number[] }> = [];
+  const partial: string[] = [];
+  for (let i = 0; i < k; i += 1) {
+    const values = coded.map((row) => row[i]);
+    if (values.some((value) => value !== values[0])) columns.push({ label: labels[i], aliases: [], values });
+  }
+  const means = labels.map((_, i) => coded.reduce((acc, row) => acc + row[i], 0) / n);
+  for (let i = 0; i < k; i += 1) {
+    for (let j = i + 1; j < k; j += 1) {
+      const label = `${labels[i]}*${labels[j]}`;
+      // Products of centered columns, so uneven level spacing does not tie the interaction to its mains.
+      const values = coded.map((row) => (row[i] - means[i]) * (row[j] - means[j]));
+      if (values.every((value) => value === values[0])) continue;
+      const correlations = columns.map((column) => centeredCorrelation(column.values, values));
+      const repeated = correlations.findIndex((r) => Math.abs(r) > 1 - 1e-9);
+      if (repeated >= 0) {
+        columns[repeated].aliases.push(label);
+      } else if (correlations.every((r) => Math.abs(r) < 1e-9)) {
+        columns.push({ label, aliases: [], values });
+      } else {
+        partial.push(label);
+      }
+    }
+  }
+  const x = coded.map((_, row) => [1, ...columns.map((column) => column.values[row])]);
+  // Saturated designs have no residual df, so the coefficients come from the normal equations directly.
+  const inv = n >= x[0].length ? inverse(crossProduct(x)) : null;
+  if (!inv || !columns.length) return null;
+  const xty = x[0].map((_, j) => x.reduce((acc, row, i) => acc + row[j] * y[i], 0));
+  const estimates = matVec(inv, xty)
+    .slice(1)
+    .map((coef) => 2 * coef);
+
+  const settings = new Set(coded.map((row) => row.join("|")));
+  const fit = settings.size < n ? fitLeastSquares(x, y) : null;
+  let method: EffectsScreening["method"];
+  let standardized: number[];
+  let scale: number;
+  let df: number;
+  if (fit) {
+    method = "residual";
+    standardized = fit.tValues.slice(1);
+    const ses = fit.standardErrors.slice(1).map((se) => 2 * se);
+    scale = ses.slice().sort((a, b) => a - b)[Math.floor(ses.length / 2)];
+    df = fit.dfResidual;
+  } else {
+    if (estimates.length < 3) return null;
+    method = "lenth";
+    scale = lenthPse(estimates);
+    if (!(scale > 0)) return null;
+    standardized = estimates.map((effect) => effect / scale);
+    df = estimates.length / 3;
+  }
+  const critical = tCritical(alpha, df);
+  const simultaneous =
+    method === "lenth" ? tCritical(1 - Math.pow(1 - alpha, 1 / estimates.length), df) : null;
+  const effects = columns
+    .map((column, idx) => ({
+      label: column.label,
+      aliases: column.aliases,
+      effect: estimates[idx],
+      standardized: standardized[idx],
+      p: tTestPValue(standardized[idx], df),
+      active: Math.abs(standardized[idx]) > critical
+    }))
+    .sort((a, b) => Math.abs(b.standardized) - Math.abs(a.standardized));
+  const m = effects.length;
+  const halfNormal = effects
+    .map((entry) => ({ label: entry.label, absEffect: Math.abs(entry.effect) }))
+    .sort((a, b) => a.absEffect - b.absEffect)
+    .map((entry, idx) => ({ ...entry, quantile: normalQuantile(0.5 + (0.5 * (idx + 0.5)) / m) }));
+  return { method, scale, df, critical, simultaneous, effects, partial, halfNormal };
+}
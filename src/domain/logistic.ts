@@ -0,0 +1,109 @@
+import { dot, inverse, logDeterminant, matVec } from "./matrix.js";
+import type { Matrix } from "./matrix.js";
+import { zTestPValue } from "./stats.js";
+
+export type LogisticFit = {
+  n: number;
+  events: number;
+  coefficients: number[];
+  standardErrors: number[];
+  zValues: number[];
+  pValues: number[];
+  // -2 log-likelihood of the fit and of the intercept-only model (ordinary, not penalized).
+  deviance: number;
+  nullDeviance: number;
+  iterations: number;
+  // (X'WX)^-1 at the estimate, for prediction intervals on the logit scale.
+  covariance: Matrix;
+};
+
+export function logistic(eta: number): number {
+  return eta >= 0 ? 1 / (1 + Math.exp(-eta)) : Math.exp(eta) / (1 + Math.exp(eta));
+}
+
+function information(x: Matrix, weights: number[]): Matrix {
+  const p = x[0].length;
+  const out = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  x.forEach((row, idx) => {
+    for (let i = 0; i < p; i += 1) {
+      for (let j = i; j < p; j += 1) out[i][j] += weights[idx] * row[i] * row[j];
+    }
+  });
+  for (let i = 0; i < p; i += 1) {
+    for (let j = 0; j < i; j += 1) out[i][j] = out[j][i];
+  }
+  return out;
+}
+
+function logLikelihood(y: number[], probabilities: number[]): number {
+  return y.reduce((acc, value, idx) => {
+    const prob = Math.min(Math.max(probabilities[idx], 1e-15), 1 - 1e-15);
+    return acc + (value ? Math.log(prob) : Math.log(1 - prob));
+  }, 0);
+}
+
+/**
+ * Binary logistic regression (y is 0/1, include a column of ones in x) by Firth's penalized
+ * likelihood: Newton steps on the score with the Jeffreys-prior correction h (1/2 - p), halved
+ * until the penalized log-likelihood improves. Unlike plain maximum likelihood the estimates stay
+ * finite when a factor separates good from defective runs, which small DOEs hit often. Wald tests
+ * use (X'WX)^-1. Null without both outcomes or when the model matrix is singular.
+ */
+export function fitLogistic(x: Matrix, y: number[]): LogisticFit | null {
+  const n = y.length;
+  const p = x[0]?.length ?? 0;
+  const events = y.filter((value) => value === 1).length;
+  if (!p || n <= p || events === 0 || events === n) return null;
+
+  const evaluate = (beta: number[]) => {
+    const probabilities = x.map((row) => logistic(dot(row, beta)));
+    const weights = probabilities.map((prob) => Math.max(prob * (1 - prob), 1e-12));
+    const info = information(x, weights);
+    const penalized = logLikelihood(y, probabilities) + 0.5 * logDeterminant(info);
+    return { probabilities, weights, info, penalized };
+  };
+  let beta = new Array<number>(p).fill(0);
+  let state = evaluate(beta);
+  let iterations = 0;
+  for (; iterations < 100; iterations += 1) {
+    const inv = inverse(state.info);
+    if (!inv) return null;
+    const score = new Array<number>(p).fill(0);
+    x.forEach((row, idx) => {
+      const prob = state.probabilities[idx];
+      const hat = state.weights[idx] * dot(row, matVec(inv, row));
+      const residual = y[idx] - prob + hat * (0.5 - prob);
+      for (let j = 0; j < p; j += 1) score[j] += row[j] * residual;
+    });
+    const delta = matVec(inv, score);
+    let stepSize = 1;
+    let next = beta.map((value, idx) => value + delta[idx]);
+    let nextState = evaluate(next);
+    while (!(nextState.penalized >= state.penalized - 1e-12) && stepSize > 1e-4) {
+      stepSize /= 2;
+      next = beta.map((value, idx) => value + stepSize * delta[idx]);
+      nextState = evaluate(next);
+    }
+    beta = next;
+    state = nextState;
+    if (Math.max(...delta.map((value) => Math.abs(value * stepSize))) < 1e-8) break;
+  }
+
+  const covariance = inverse(state.info);
+  if (!covariance) return null;
+  const standardErrors = covariance.map((row, idx) => Math.sqrt(Math.max(row[idx], 0)));
+  const zValues = beta.map((coef, idx) => (standardErrors[idx] > 0 ? coef / standardErrors[idx] : NaN));
+  const rate = events / n;
+  return {
+    n,
+    events,
+    coefficients: beta,
+    standardErrors,
+    zValues,
+    pValues: zValues.map(zTestPValue),
+    deviance: -2 * logLikelihood(y, state.probabilities),
+    nullDeviance: -2 * (events * Math.log(rate) + (n - events) * Math.log(1 - rate)),
+    iterations,
+    covariance
+  };
+}
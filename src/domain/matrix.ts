@@ -0,0 +1,96 @@
+export type Matrix = number[][];
+
+export function identity(size: number): Matrix {
+  return Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)));
+}
+
+export function transpose(a: Matrix): Matrix {
+  if (!a.length) return [];
+  return a[0].map((_, col) => a.map((row) => row[col]));
+}
+
+export function multiply(a: Matrix, b: Matrix): Matrix {
+  const cols = b[0]?.length ?? 0;
+  return a.map((row) => {
+    const out = new Array<number>(cols).fill(0);
+    row.forEach((value, k) => {
+      if (value === 0) return;
+      const bRow = b[k];
+      for (let j = 0; j < cols; j += 1) out[j] += value * bRow[j];
+    });
+    return out;
+  });
+}
+
+export function matVec(a: Matrix, v: number[]): number[] {
+  return a.map((row) => dot(row, v));
+}
+
+export function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) sum += a[i] * b[i];
+  return sum;
+}
+
+// X'X without materialising the transpose.
+export function crossProduct(x: Matrix): Matrix {
+  const p = x[0]?.length ?? 0;
+  const out = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  for (const row of x) {
+    for (let i = 0; i < p; i += 1) {
+      const ri = row[i];
+      if (ri === 0) continue;
+      for (let j = i; j < p; j += 1) out[i][j] += ri * row[j];
+    }
+  }
+  for (let i = 0; i < p; i += 1) {
+    for (let j = 0; j < i; j += 1) out[i][j] = out[j][i];
+  }
+  return out;
+}
+
+// Gauss–Jordan with partial pivoting; null when the matrix is (numerically) singular.
+export function inverse(a: Matrix): Matrix | null {
+  const n = a.length;
+  const scale = Math.max(1, ...a.map((row) => Math.max(...row.map(Math.abs))));
+  const work = a.map((row, i) => [...row, ...identity(n)[i]]);
+  for (let col = 0; col < n; col += 1) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row += 1) {
+      if (Math.abs(work[row][col]) > Math.abs(work[pivot][col])) pivot = row;
+    }
+    if (Math.abs(work[pivot][col]) < 1e-10 * scale) return null;
+    [work[col], work[pivot]] = [work[pivot], work[col]];
+    const div = work[col][col];
+    for (let j = 0; j < 2 * n; j += 1) work[col][j] /= div;
+    for (let row = 0; row < n; row += 1) {
+      if (row === col) continue;
+      const factor = work[row][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j += 1) work[row][j] -= factor * work[col][j];
+    }
+  }
+  return work.map((row) => row.slice(n));
+}
+
+// log|det(A)| via LU; -Infinity when singular.
+export function logDeterminant(a: Matrix): number {
+  const n = a.length;
+  const work = a.map((row) => row.slice());
+  let logDet = 0;
+  for (let col = 0; col < n; col += 1) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row += 1) {
+      if (Math.abs(work[row][col]) > Math.abs(work[pivot][col])) pivot = row;
+    }
+    if (Math.abs(work[pivot][col]) < 1e-12) return Number.NEGATIVE_INFINITY;
+    [work[col], work[pivot]] = [work[pivot], work[col]];
+    logDet += Math.log(Math.abs(work[col][col]));
+    for (let row = col + 1; row < n; row += 1) {
+      const factor = work[row][col] / work[col][col];
+      if (factor === 0) continue;
+      for (let j = col; j < n; j += 1) work[row][j] -= factor * work[col][j];
+    }
+  }
+  return logDet;
+}
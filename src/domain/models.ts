@@ -0,0 +1,97 @@
+export type ModelKind = "main" | "interactions" | "quadratic";
+export type ScheffeOrder = "linear" | "quadratic" | "special_cubic";
+
+export type ModelTerm = {
+  label: string;
+  powers: number[];
+  // Categorical factors enter as 0/1 indicators of one level (level 0 is the reference), multiplied in.
+  indicators?: Array<{ factor: number; level: number }>;
+};
+
+function productTerm(a: ModelTerm, b: ModelTerm): ModelTerm {
+  const indicators = [...(a.indicators ?? []), ...(b.indicators ?? [])];
+  return {
+    label: `${a.label}*${b.label}`,
+    powers: a.powers.map((power, idx) => power + b.powers[idx]),
+    ...(indicators.length ? { indicators } : {})
+  };
+}
+
+/**
+ * Polynomial model terms. A factor with level names is categorical: its main effect is one
+ * indicator column per level after the first, it interacts column by column and has no square.
+ */
+export function buildModelTerms(labels: string[], kind: ModelKind, levels: Array<string[] | null> = []): ModelTerm[] {
+  const zeros = () => labels.map(() => 0);
+  const columns: ModelTerm[][] = labels.map((label, idx) => {
+    const names = levels[idx];
+    if (names) {
+      return names.slice(1).map((name, level) => ({
+        label: `${label}[${name}]`,
+        powers: zeros(),
+        indicators: [{ factor: idx, level: level + 1 }]
+      }));
+    }
+    const powers = zeros();
+    powers[idx] = 1;
+    return [{ label, powers }];
+  });
+  const terms: ModelTerm[] = [{ label: "Intercept", powers: zeros() }, ...columns.flat()];
+  if (kind === "interactions" || kind === "quadratic") {
+    for (let i = 0; i < labels.length; i += 1) {
+      for (let j = i + 1; j < labels.length; j += 1) {
+        columns[i].forEach((a) => columns[j].forEach((b) => terms.push(productTerm(a, b))));
+      }
+    }
+  }
+  if (kind === "quadratic") {
+    labels.forEach((label, idx) => {
+      if (levels[idx]) return;
+      const powers = zeros();
+      powers[idx] = 2;
+      terms.push({ label: `${label}^2`, powers });
+    });
+  }
+  return terms;
+}
+
+// Scheffé mixture polynomials: no intercept and no squares, since the proportions sum to one.
+export function buildScheffeTerms(labels: string[], order: ScheffeOrder): ModelTerm[] {
+  const zeros = () => labels.map(() => 0);
+  const terms: ModelTerm[] = labels.map((label, idx) => {
+    const powers = zeros();
+    powers[idx] = 1;
+    return { label, powers };
+  });
+  if (order === "linear") return terms;
+  for (let i = 0; i < labels.length; i += 1) {
+    for (let j = i + 1; j < labels.length; j += 1) {
+      const powers = zeros();
+      powers[i] = 1;
+      powers[j] = 1;
+      terms.push({ label: `${labels[i]}*${labels[j]}`, powers });
+    }
+  }
+  if (order === "special_cubic") {
+    for (let i = 0; i < labels.length; i += 1) {
+      for (let j = i + 1; j < labels.length; j += 1) {
+        for (let l = j + 1; l < labels.length; l += 1) {
+          const powers = zeros();
+          powers[i] = 1;
+          powers[j] = 1;
+          powers[l] = 1;
+          terms.push({ label: `${labels[i]}*${labels[j]}*${labels[l]}`, powers });
+        }
+      }
+    }
+  }
+  return terms;
+}
+
+export function modelRow(terms: ModelTerm[], coded: number[]): number[] {
+  return terms.map((term) => {
+    const value = term.powers.reduce((acc, power, idx) => (power === 0 ? acc : acc * Math.pow(coded[idx], power)), 1);
+    if (!term.indicators) return value;
+    return term.indicators.every((entry) => Math.round(coded[entry.factor]) === entry.level) ? value : 0;
+  });
+}
@@ -0,0 +1,217 @@
+import { mulberry32 } from "../lib/rng.js";
+import { crossProduct, dot, identity, inverse, logDeterminant, matVec } from "./matrix.js";
+import type { Matrix } from "./matrix.js";
+import { modelRow } from "./models.js";
+import type { ModelTerm } from "./models.js";
+
+export type OptimalCriterion = "D" | "I";
+
+// E[f(x) f(x)'] for x uniform on the coded cube [-1, 1]^k (and uniform over the levelCounts[idx]
+// levels of a categorical factor); drives the I-criterion.
+export function momentMatrix(terms: ModelTerm[], levelCounts: number[] = []): Matrix {
+  const moment = (power: number) => (power % 2 === 1 ? 0 : 1 / (power + 1));
+  const indicatorMoment = (a: ModelTerm, b: ModelTerm) => {
+    const levelOf = (term: ModelTerm, factor: number) => term.indicators?.find((entry) => entry.factor === factor)?.level;
+    const factors = new Set([...(a.indicators ?? []), ...(b.indicators ?? [])].map((entry) => entry.factor));
+    return Array.from(factors).reduce((acc, factor) => {
+      const levelA = levelOf(a, factor);
+      const levelB = levelOf(b, factor);
+      if (levelA != null && levelB != null && levelA !== levelB) return 0;
+      return acc / Math.max(levelCounts[factor] ?? 1, 1);
+    }, 1);
+  };
+  return terms.map((a) =>
+    terms.map(
+      (b) => a.powers.reduce((acc, power, idx) => acc * moment(power + b.powers[idx]), 1) * indicatorMoment(a, b)
+    )
+  );
+}
+
+function traceProduct(a: Matrix, b: Matrix): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    for (let j = 0; j < a.length; j += 1) sum += a[i][j] * b[j][i];
+  }
+  return sum;
+}
+
+// Points used for the maximum prediction variance: the full level grid when small, otherwise a sample.
+function evaluationPoints(levels: number[][], seed: number): number[][] {
+  const gridSize = levels.reduce((acc, set) => acc * set.length, 1);
+  if (gridSize <= 4096) {
+    return levels.reduce<number[][]>(
+      (acc, set) => acc.flatMap((prefix) => set.map((level) => [...prefix, level])),
+      [[]]
+    );
+  }
+  const rng = mulberry32(seed);
+  return Array.from({ length: 4096 }, () => levels.map((set) => set[Math.floor(rng() * set.length)]));
+}
+
+export type DesignEfficiency = {
+  dEfficiency: number;
+  gEfficiency: number;
+  averageVariance: number;
+  maxVariance: number;
+};
+
+// D/G efficiencies in percent (JMP convention for coded ±1 factors); zero when X'X is singular.
+export function designEfficiency(
+  rows: number[][],
+  terms: ModelTerm[],
+  levels: number[][],
+  seed = 1
+): DesignEfficiency {
+  const n = rows.length;
+  const p = terms.length;
+  const x = rows.map((row) => modelRow(terms, row));
+  const info = crossProduct(x);
+  const inv = n >= p ? inverse(info) : null;
+  if (!inv) {
+    return { dEfficiency: 0, gEfficiency: 0, averageVariance: Number.POSITIVE_INFINITY, maxVariance: Number.POSITIVE_INFINITY };
+  }
+  const dEfficiency = (100 * Math.exp(logDeterminant(info) / p)) / n;
+  const points = [...evaluationPoints(levels, seed), ...rows];
+  const maxVariance = Math.max(
+    ...points.map((point) => {
+      const f = modelRow(terms, point);
+      return dot(f, matVec(inv, f));
+    })
+  );
+  const gEfficiency = 100 * Math.sqrt(p / n) / Math.sqrt(maxVariance);
+  return {
+    dEfficiency,
+    gEfficiency: Math.min(gEfficiency, 100),
+    averageVariance: traceProduct(inv, momentMatrix(terms, levels.map((set) => set.length))),
+    maxVariance
+  };
+}
+
+export type OptimalSearch = {
+  levels: number[][];
+  terms: ModelTerm[];
+  runs: number;
+  forced: number[][];
+  criterion: OptimalCriterion;
+  seed: number;
+  // Constrained regions: rows the exchange may never produce.
+  feasible?: (row: number[]) => boolean;
+};
+
+export type OptimalResult = {
+  rows: number[][];
+  forcedCount: number;
+  efficiency: DesignEfficiency;
+};
+
+const RIDGE = 1e-6;
+
+function score(rows: number[][], terms: ModelTerm[], criterion: OptimalCriterion, moments: Matrix): number {
+  const info = crossProduct(rows.map((row) => modelRow(terms, row)));
+  if (criterion === "D") return logDeterminant(info);
+  const inv = inverse(info);
+  return inv ? -traceProduct(inv, moments) : Number.NEGATIVE_INFINITY;
+}
+
+function ridgeInverse(rows: number[][], terms: ModelTerm[]): Matrix {
+  const info = crossProduct(rows.map((row) => modelRow(terms, row)));
+  info.forEach((row, idx) => {
+    row[idx] += RIDGE;
+  });
+  return inverse(info) ?? identity(terms.length);
+}
+
+// A - (A u)(A u)' / (sign + u'A u): Sherman–Morrison for adding (sign = 1) or removing (sign = -1) a row.
+function rankOneUpdate(a: Matrix, u: number[], sign: 1 | -1): Matrix | null {
+  const au = matVec(a, u);
+  const denom = sign + dot(u, au);
+  if (Math.abs(denom) < 1e-12) return null;
+  return a.map((row, i) => row.map((value, j) => value - (au[i] * au[j]) / denom));
+}
+
+/**
+ * Coordinate exchange (Meyer & Nachtsheim): starting from random designs, each coordinate of each
+ * free run is swapped for the candidate level that most improves the criterion until no swap helps.
+ * Forced runs are part of the information matrix but never changed.
+ */
+export function coordinateExchange(search: OptimalSearch): OptimalResult | null {
+  const { levels, terms, forced, criterion } = search;
+  const feasible = search.feasible ?? (() => true);
+  const p = terms.length;
+  if (search.runs < p || search.runs < forced.length) return null;
+  const free = search.runs - forced.length;
+  const moments = momentMatrix(terms, levels.map((set) => set.length));
+  const evaluationCost = Math.max(1, free * levels.reduce((acc, set) => acc + set.length, 0) * p * p);
+  const starts = Math.max(1, Math.min(10, Math.floor(2e7 / evaluationCost)));
+
+  let best: number[][] | null = null;
+  let bestScore = Number.NEGATIVE_INFINITY;
+  for (let start = 0; start < starts; start += 1) {
+    const rng = mulberry32(search.seed + start * 7919);
+    const randomRow = () => {
+      for (let attempt = 0; attempt < 500; attempt += 1) {
+        const row = levels.map((set) => set[Math.floor(rng() * set.length)]);
+        if (feasible(row)) return row;
+      }
+      return null;
+    };
+    const freeRows = Array.from({ length: free }, randomRow);
+    if (freeRows.some((row) => row == null)) return null;
+    const rows = [...forced.map((row) => row.slice()), ...(freeRows as number[][])];
+    for (let pass = 0; pass < 25; pass += 1) {
+      let improved = false;
+      let inv = ridgeInverse(rows, terms);
+      for (let i = forced.length; i < rows.length; i += 1) {
+        for (let j = 0; j < levels.length; j += 1) {
+          const current = rows[i][j];
+          const fx = modelRow(terms, rows[i]);
+          const removed = rankOneUpdate(inv, fx, -1);
+          if (!removed) continue;
+          const baseValue = criterion === "I" ? -traceProduct(inv, moments) : 0;
+          const removedVariance = dot(fx, matVec(removed, fx));
+          let bestLevel = current;
+          let bestGain = 1e-9;
+          let bestRow: number[] | null = null;
+          for (const level of levels[j]) {
+            if (level === current) continue;
+            rows[i][j] = level;
+            if (!feasible(rows[i])) continue;
+            const fy = modelRow(terms, rows[i]);
+            // D: log of the determinant ratio; I: reduction of the average prediction variance.
+            let gain: number;
+            if (criterion === "D") {
+              gain = Math.log(Math.max((1 + dot(fy, matVec(removed, fy))) / (1 + removedVariance), 1e-300));
+            } else {
+              const added = rankOneUpdate(removed, fy, 1);
+              if (!added) continue;
+              gain = -traceProduct(added, moments) - baseValue;
+            }
+            if (gain > bestGain) {
+              bestGain = gain;
+              bestLevel = level;
+              bestRow = fy;
+            }
+          }
+          const updated = bestRow ? rankOneUpdate(removed, bestRow, 1) : null;
+          rows[i][j] = updated ? bestLevel : current;
+          if (updated) {
+            inv = updated;
+            improved = true;
+          }
+        }
+      }
+      if (!improved) break;
+    }
+    const value = score(rows, terms, criterion, moments);
+    if (value > bestScore) {
+      bestScore = value;
+      best = rows;
+    }
+  }
+  if (!best || !Number.isFinite(bestScore)) return null;
+  return {
+    rows: best,
+    forcedCount: forced.length,
+    efficiency: designEfficiency(best, terms, levels, search.seed)
+  };
+}
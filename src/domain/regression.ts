@@ -0,0 +1,338 @@
+import { crossProduct, dot, inverse, logDeterminant, matVec } from "./matrix.js";
+import type { Matrix } from "./matrix.js";
+import { fTestPValue, tTestPValue } from "./stats.js";
+
+export type LeastSquaresFit = {
+  n: number;
+  p: number;
+  coefficients: number[];
+  standardErrors: number[];
+  tValues: number[];
+  pValues: number[];
+  fitted: number[];
+  residuals: number[];
+  sse: number;
+  dfResidual: number;
+  rmse: number;
+  r2: number;
+  adjR2: number;
+  // (X'X)^-1, kept for prediction variances.
+  covarianceUnscaled: Matrix;
+};
+
+/**
+ * Ordinary least squares on an explicit model matrix (include a column of ones for an intercept).
+ * R² is always measured against the mean of y, which is also right for Scheffé models whose
+ * linear terms span the intercept. Null when X'X is singular or there are no residual degrees of freedom.
+ */
+export function fitLeastSquares(x: Matrix, y: number[]): LeastSquaresFit | null {
+  const n = y.length;
+  const p = x[0]?.length ?? 0;
+  if (!p || n <= p) return null;
+  const inv = inverse(crossProduct(x));
+  if (!inv) return null;
+  const xty = new Array<number>(p).fill(0);
+  x.forEach((row, i) => {
+    for (let j = 0; j < p; j += 1) xty[j] += row[j] * y[i];
+  });
+  const coefficients = matVec(inv, xty);
+  const fitted = x.map((row) => dot(row, coefficients));
+  const residuals = y.map((value, i) => value - fitted[i]);
+  const sse = dot(residuals, residuals);
+  const dfResidual = n - p;
+  const mse = sse / dfResidual;
+  const yMean = y.reduce((acc, value) => acc + value, 0) / n;
+  const sst = y.reduce((acc, value) => acc + (value - yMean) ** 2, 0);
+  const standardErrors = inv.map((row, idx) => Math.sqrt(Math.max(row[idx], 0) * mse));
+  const tValues = coefficients.map((coef, idx) => (standardErrors[idx] > 0 ? coef / standardErrors[idx] : NaN));
+  const pValues = tValues.map((t) => tTestPValue(t, dfResidual));
+  return {
+    n,
+    p,
+    coefficients,
+    standardErrors,
+    tValues,
+    pValues,
+    fitted,
+    residuals,
+    sse,
+    dfResidual,
+    rmse: Math.sqrt(mse),
+    r2: sst > 0 ? 1 - sse / sst : NaN,
+    adjR2: sst > 0 && n > 1 ? 1 - mse / (sst / (n - 1)) : NaN,
+    covarianceUnscaled: inv
+  };
+}
+
+export type AnovaSource = { source: string; df: number; ss: number; ms: number; f: number; p: number };
+
+export type AnovaTable = {
+  // Partial (adjusted) sums of squares: each term is dropped from the full model in turn.
+  terms: AnovaSource[];
+  model: AnovaSource;
+  residual: { df: number; ss: number; ms: number };
+  // Residual split into lack of fit and pure error; null without replicated settings or spare model df.
+  lackOfFit: AnovaSource | null;
+  pureError: { df: number; ss: number; ms: number } | null;
+  total: { df: number; ss: number };
+  r2: number;
+  adjR2: number;
+  predR2: number;
+  press: number;
+  rmse: number;
+};
+
+function anovaSource(source: string, df: number, ss: number, errorMs: number, errorDf: number): AnovaSource {
+  const ms = df > 0 ? ss / df : NaN;
+  const f = errorMs > 0 ? ms / errorMs : NaN;
+  return { source, df, ss, ms, f, p: fTestPValue(f, df, errorDf) };
+}
+
+/**
+ * ANOVA of a least-squares fit with an intercept in column 0. termColumns groups the other columns
+ * into terms (a categorical factor spans its dummy columns). Runs sharing a group key are replicates
+ * of one setting and supply the pure error for the lack-of-fit test. Predicted R² uses PRESS.
+ * Null when the full model cannot be fitted.
+ */
+export function anovaTable(
+  x: Matrix,
+  y: number[],
+  termColumns: Array<{ label: string; columns: number[] }>,
+  groups: string[]
+): AnovaTable | null {
+  const fit = fitLeastSquares(x, y);
+  if (!fit) return null;
+  const { n, p, sse, dfResidual } = fit;
+  const mse = sse / dfResidual;
+  const yMean = y.reduce((acc, value) => acc + value, 0) / n;
+  const sst = y.reduce((acc, value) => acc + (value - yMean) ** 2, 0);
+
+  const terms = termColumns.map((term) => {
+    const dropped = new Set(term.columns);
+    const reduced = fitLeastSquares(
+      x.map((row) => row.filter((_, idx) => !dropped.has(idx))),
+      y
+    );
+    const ss = reduced ? Math.max(reduced.sse - sse, 0) : NaN;
+    return anovaSource(term.label, term.columns.length, ss, mse, dfResidual);
+  });
+
+  const byGroup = new Map<string, number[]>();
+  groups.forEach((group, idx) => {
+    if (!byGroup.has(group)) byGroup.set(group, []);
+    byGroup.get(group)!.push(y[idx]);
+  });
+  let pureSs = 0;
+  let pureDf = 0;
+  byGroup.forEach((values) => {
+    const groupMean = values.reduce((acc, value) => acc + value, 0) / values.length;
+    pureSs += values.reduce((acc, value) => acc + (value - groupMean) ** 2, 0);
+    pureDf += values.length - 1;
+  });
+  const lofDf = dfResidual - pureDf;
+  const pureMs = pureDf > 0 ? pureSs / pureDf : NaN;
+  const hasLackOfFit = pureDf > 0 && lofDf > 0;
+
+  const press = fit.residuals.reduce((acc, residual, idx) => {
+    const leverage = dot(x[idx], matVec(fit.covarianceUnscaled, x[idx]));
+    return acc + (residual / (1 - leverage)) ** 2;
+  }, 0);
+
+  return {
+    terms,
+    model: anovaSource("Model", p - 1, sst - sse, mse, dfResidual),
+    residual: { df: dfResidual, ss: sse, ms: mse },
+    lackOfFit: hasLackOfFit ? anovaSource("Lack of fit", lofDf, Math.max(sse - pureSs, 0), pureMs, pureDf) : null,
+    pureError: pureDf > 0 ? { df: pureDf, ss: pureSs, ms: pureMs } : null,
+    total: { df: n - 1, ss: sst },
+    r2: fit.r2,
+    adjR2: fit.adjR2,
+    predR2: sst > 0 && Number.isFinite(press) ? 1 - press / sst : NaN,
+    press,
+    rmse: fit.rmse
+  };
+}
+
+export type ResidualDiagnostic = {
+  fitted: number;
+  residual: number;
+  // Internally studentized: e / (s * sqrt(1 - h)).
+  studentized: number;
+  // Externally studentized (deleted): the same with s from the fit without this run.
+  deleted: number;
+  leverage: number;
+  cooksDistance: number;
+};
+
+/**
+ * Per-run residual diagnostics of a least-squares fit. Runs with leverage 1 are fitted exactly and
+ * get NaN for the studentized residuals and Cook's distance.
+ */
+export function residualDiagnostics(x: Matrix, fit: LeastSquaresFit): ResidualDiagnostic[] {
+  const { p, dfResidual } = fit;
+  const mse = fit.sse / dfResidual;
+  return fit.residuals.map((residual, idx) => {
+    const leverage = dot(x[idx], matVec(fit.covarianceUnscaled, x[idx]));
+    const studentized = leverage < 1 - 1e-9 && mse > 0 ? residual / Math.sqrt(mse * (1 - leverage)) : NaN;
+    const deletedDf = dfResidual - 1;
+    const deleted =
+      deletedDf > 0 && Number.isFinite(studentized)
+        ? studentized * Math.sqrt(deletedDf / Math.max(dfResidual - studentized * studentized, 1e-12))
+        : NaN;
+    return {
+      fitted: fit.fitted[idx],
+      residual,
+      studentized,
+      deleted,
+      leverage,
+      cooksDistance: Number.isFinite(studentized) ? (studentized * studentized * leverage) / (p * (1 - leverage)) : NaN
+    };
+  });
+}
+
+export type SplitPlotFit = {
+  n: number;
+  p: number;
+  wholePlots: number;
+  coefficients: number[];
+  standardErrors: number[];
+  df: number[];
+  tValues: number[];
+  // Null where the term's stratum has no error df left, so it cannot be tested.
+  pValues: Array<number | null>;
+  // Variance components: between whole plots and within (sub-plot) error.
+  wholePlotVariance: number;
+  residualVariance: number;
+  logLikelihood: number;
+};
+
+type GroupSums = { size: number; xtx: Matrix; xt1: number[]; xty: number[]; sumY: number; yty: number };
+
+function groupSums(x: Matrix, y: number[], groups: number[]): GroupSums[] {
+  const p = x[0].length;
+  const byGroup = new Map<number, number[]>();
+  groups.forEach((group, idx) => {
+    if (!byGroup.has(group)) byGroup.set(group, []);
+    byGroup.get(group)!.push(idx);
+  });
+  return Array.from(byGroup.values()).map((rows) => {
+    const xg = rows.map((idx) => x[idx]);
+    const xt1 = new Array<number>(p).fill(0);
+    const xty = new Array<number>(p).fill(0);
+    rows.forEach((idx) => {
+      for (let j = 0; j < p; j += 1) {
+        xt1[j] += x[idx][j];
+        xty[j] += x[idx][j] * y[idx];
+      }
+    });
+    return {
+      size: rows.length,
+      xtx: crossProduct(xg),
+      xt1,
+      xty,
+      sumY: rows.reduce((acc, idx) => acc + y[idx], 0),
+      yty: rows.reduce((acc, idx) => acc + y[idx] * y[idx], 0)
+    };
+  });
+}
+
+// X'V^-1 X, X'V^-1 y, y'V^-1 y and log|V| for V = I + gamma * ZZ' (compound symmetry within whole plots).
+function weightedSums(sums: GroupSums[], gamma: number, p: number) {
+  const xtvx = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  const xtvy = new Array<number>(p).fill(0);
+  let ytvy = 0;
+  let logDetV = 0;
+  for (const group of sums) {
+    const shrink = gamma / (1 + gamma * group.size);
+    logDetV += Math.log(1 + gamma * group.size);
+    for (let i = 0; i < p; i += 1) {
+      xtvy[i] += group.xty[i] - shrink * group.xt1[i] * group.sumY;
+      for (let j = 0; j < p; j += 1) xtvx[i][j] += group.xtx[i][j] - shrink * group.xt1[i] * group.xt1[j];
+    }
+    ytvy += group.yty - shrink * group.sumY * group.sumY;
+  }
+  return { xtvx, xtvy, ytvy, logDetV };
+}
+
+function restrictedLogLikelihood(sums: GroupSums[], gamma: number, n: number, p: number) {
+  const { xtvx, xtvy, ytvy, logDetV } = weightedSums(sums, gamma, p);
+  const inv = inverse(xtvx);
+  if (!inv) return null;
+  const beta = matVec(inv, xtvy);
+  const rss = ytvy - dot(beta, xtvy);
+  if (rss <= 0) return null;
+  const value = -0.5 * (logDetV + logDeterminant(xtvx) + (n - p) * Math.log(rss));
+  return { value, beta, inv, rss };
+}
+
+/**
+ * REML fit of y = X b + whole-plot effect + error, with the whole-plot/residual variance ratio found
+ * by golden-section search on its log. Denominator degrees of freedom follow containment: terms
+ * flagged in wholePlotTerms are tested against the whole plots, the rest against the sub-plot error;
+ * a stratum with no df left (e.g. one whole plot per hard-to-change setting) gets df 0 and no p-value.
+ * Null when X is rank deficient or there are too few whole plots.
+ */
+export function fitSplitPlot(
+  x: Matrix,
+  y: number[],
+  groups: number[],
+  wholePlotTerms: boolean[]
+): SplitPlotFit | null {
+  const n = y.length;
+  const p = x[0]?.length ?? 0;
+  const sums = n ? groupSums(x, y, groups) : [];
+  const wholePlots = sums.length;
+  if (!p || n <= p || wholePlots < 2) return null;
+
+  const at = (logGamma: number) => restrictedLogLikelihood(sums, Math.exp(logGamma), n, p);
+  let lo = -12;
+  let hi = 8;
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = hi - ratio * (hi - lo);
+  let b = lo + ratio * (hi - lo);
+  let fa = at(a)?.value ?? Number.NEGATIVE_INFINITY;
+  let fb = at(b)?.value ?? Number.NEGATIVE_INFINITY;
+  for (let iteration = 0; iteration < 80; iteration += 1) {
+    if (fa > fb) {
+      hi = b;
+      b = a;
+      fb = fa;
+      a = hi - ratio * (hi - lo);
+      fa = at(a)?.value ?? Number.NEGATIVE_INFINITY;
+    } else {
+      lo = a;
+      a = b;
+      fa = fb;
+      b = lo + ratio * (hi - lo);
+      fb = at(b)?.value ?? Number.NEGATIVE_INFINITY;
+    }
+  }
+  // The boundary (no whole-plot variance) is a valid REML estimate too.
+  const interior = at((lo + hi) / 2);
+  const boundary = restrictedLogLikelihood(sums, 0, n, p);
+  const useBoundary = boundary && (!interior || boundary.value >= interior.value);
+  const best = useBoundary ? boundary : interior;
+  if (!best) return null;
+  const gamma = useBoundary ? 0 : Math.exp((lo + hi) / 2);
+
+  const residualVariance = best.rss / (n - p);
+  const wholeTermCount = wholePlotTerms.filter(Boolean).length;
+  const wholeDf = Math.max(0, wholePlots - wholeTermCount);
+  const subDf = Math.max(0, n - wholePlots - (p - wholeTermCount));
+  const standardErrors = best.inv.map((row, idx) => Math.sqrt(Math.max(row[idx], 0) * residualVariance));
+  const df = wholePlotTerms.map((whole) => (whole ? wholeDf : subDf));
+  const tValues = best.beta.map((coef, idx) => (standardErrors[idx] > 0 ? coef / standardErrors[idx] : NaN));
+  return {
+    n,
+    p,
+    wholePlots,
+    coefficients: best.beta,
+    standardErrors,
+    df,
+    tValues,
+    pValues: tValues.map((t, idx) => (df[idx] > 0 ? tTestPValue(t, df[idx]) : null)),
+    wholePlotVariance: gamma * residualVariance,
+    residualVariance,
+    logLikelihood: best.value
+  };
+}
@@ -0,0 +1,219 @@
+import { dot } from "./matrix.js";
+import type { Matrix } from "./matrix.js";
+import type { ModelTerm } from "./models.js";
+import { fitLeastSquares } from "./regression.js";
+import { fTestPValue } from "./stats.js";
+
+export type TermSelection = "none" | "backward" | "forward" | "stepwise";
+
+// One model effect: a continuous term, or every indicator column of a categorical main effect or interaction.
+export type ModelEffect = {
+  label: string;
+  columns: number[];
+  powers: number[];
+  factors: number[];
+};
+
+export type SelectionStep = { action: "added" | "removed"; effect: string; p: number };
+
+// Groups the non-intercept model columns into effects, in model order.
+export function modelEffects(terms: ModelTerm[], labels: string[]): ModelEffect[] {
+  const effects: ModelEffect[] = [];
+  terms.forEach((term, column) => {
+    const factors = term.powers
+      .map((power, idx) => (power > 0 || term.indicators?.some((entry) => entry.factor === idx) ? idx : -1))
+      .filter((idx) => idx >= 0);
+    if (!factors.length) return;
+    const existing = effects.find(
+      (effect) =>
+        effect.powers.every((power, idx) => power === term.powers[idx]) &&
+        effect.factors.length === factors.length &&
+        effect.factors.every((factor, idx) => factor === factors[idx])
+    );
+    if (existing) {
+      existing.columns.push(column);
+      return;
+    }
+    effects.push({
+      label: factors
+        .map((idx) => (term.powers[idx] > 1 ? `${labels[idx]}^${term.powers[idx]}` : labels[idx]))
+        .join("*"),
+      columns: [column],
+      powers: term.powers.slice(),
+      factors
+    });
+  });
+  return effects;
+}
+
+// a is contained in b (A in A*B, A in A^2): hierarchy keeps a while b is in the model.
+function containedIn(a: ModelEffect, b: ModelEffect): boolean {
+  if (a === b) return false;
+  return (
+    a.factors.every((factor) => b.factors.includes(factor)) &&
+    a.powers.every((power, idx) => power <= b.powers[idx])
+  );
+}
+
+// Columns of x that are linearly independent of the columns kept before them (Gram–Schmidt in
+// column order), so of two aliased terms the one listed first is kept.
+export function independentColumns(x: Matrix): number[] {
+  const p = x[0]?.length ?? 0;
+  const basis: number[][] = [];
+  const kept: number[] = [];
+  for (let j = 0; j < p; j += 1) {
+    const column = x.map((row) => row[j]);
+    const norm = Math.sqrt(dot(column, column));
+    if (norm < 1e-12) continue;
+    const residual = column.slice();
+    basis.forEach((unit) => {
+      const projection = dot(residual, unit);
+      for (let i = 0; i < residual.length; i += 1) residual[i] -= projection * unit[i];
+    });
+    const residualNorm = Math.sqrt(dot(residual, residual));
+    if (residualNorm < 1e-8 * norm) continue;
+    basis.push(residual.map((value) => value / residualNorm));
+    kept.push(j);
+  }
+  return kept;
+}
+
+function residualFit(x: Matrix, y: number[], columns: number[]) {
+  return fitLeastSquares(
+    x.map((row) => columns.map((column) => row[column])),
+    y
+  );
+}
+
+/**
+ * Term reduction with hierarchy enforced: an effect only enters once every effect it contains is in
+ * the model, and only leaves when no remaining effect contains it. Each decision uses the partial
+ * F-test of the effect at level alpha. Backward starts from the full model and drops the least
+ * significant removable effect; forward starts from the intercept and adds the most significant
+ * candidate; stepwise is forward with a backward check after every addition. Column 0 is the intercept.
+ */
+export function selectEffects(
+  x: Matrix,
+  y: number[],
+  effects: ModelEffect[],
+  method: TermSelection,
+  alpha: number
+): { kept: boolean[]; steps: SelectionStep[] } {
+  const kept = effects.map(() => method === "none" || method === "backward");
+  const steps: SelectionStep[] = [];
+  if (method === "none") return { kept, steps };
+  const fits = new Map<string, ReturnType<typeof residualFit>>();
+  const fitOf = (flags: boolean[]) => {
+    const key = flags.map((flag) => (flag ? 1 : 0)).join("");
+    if (!fits.has(key)) {
+      fits.set(key, residualFit(x, y, [0, ...effects.flatMap((effect, idx) => (flags[idx] ? effect.columns : []))]));
+    }
+    return fits.get(key)!;
+  };
+  // p-value of the effect at idx in the larger of the two models (with it).
+  const partialP = (flags: boolean[], idx: number) => {
+    const withEffect = flags.slice();
+    withEffect[idx] = true;
+    const without = flags.slice();
+    without[idx] = false;
+    const full = fitOf(withEffect);
+    const reduced = fitOf(without);
+    if (!full || !reduced) return NaN;
+    const df = effects[idx].columns.length;
+    const mse = full.sse / full.dfResidual;
+    return fTestPValue(Math.max(reduced.sse - full.sse, 0) / df / mse, df, full.dfResidual);
+  };
+  const removeWeakest = () => {
+    let worst = -1;
+    let worstP = alpha;
+    effects.forEach((effect, idx) => {
+      if (!kept[idx] || effects.some((other, o) => kept[o] && containedIn(effect, other))) return;
+      const p = partialP(kept, idx);
+      if (Number.isFinite(p) && p > worstP) {
+        worstP = p;
+        worst = idx;
+      }
+    });
+    if (worst < 0) return false;
+    kept[worst] = false;
+    steps.push({ action: "removed", effect: effects[worst].label, p: worstP });
+    return true;
+  };
+  const addStrongest = () => {
+    let best = -1;
+    let bestP = alpha;
+    effects.forEach((effect, idx) => {
+      if (kept[idx] || effects.some((other, o) => !kept[o] && containedIn(other, effect))) return;
+      const p = partialP(kept, idx);
+      if (Number.isFinite(p) && p < bestP) {
+        bestP = p;
+        best = idx;
+      }
+    });
+    if (best < 0) return false;
+    kept[best] = true;
+    steps.push({ action: "added", effect: effects[best].label, p: bestP });
+    return true;
+  };
+
+  if (method === "backward") {
+    while (removeWeakest());
+    return { kept, steps };
+  }
+  // Capped so stepwise cannot cycle between two models whose p-values straddle alpha.
+  for (let iteration = 0; iteration < 4 * effects.length + 4; iteration += 1) {
+    if (!addStrongest()) break;
+    if (method === "stepwise") while (removeWeakest());
+  }
+  return { kept, steps };
+}
+
+/**
+ * Coefficients in original units from coefficients on coded factors x = (u - center) / half.
+ * Each coded monomial is expanded binomially and collected on the matching term; indicators pass
+ * through. Null when the model is not hierarchical, since a lower-order monomial then has no term.
+ */
+export function uncodedCoefficients(
+  terms: ModelTerm[],
+  coefficients: number[],
+  scales: Array<{ center: number; half: number } | null>
+): number[] | null {
+  const key = (powers: number[], term: ModelTerm) =>
+    `${powers.join(",")}|${(term.indicators ?? []).map((entry) => `${entry.factor}:${entry.level}`).join(",")}`;
+  const totals = new Map<string, number>();
+  const binomial = (n: number, k: number) => {
+    let value = 1;
+    for (let i = 1; i <= k; i += 1) value = (value * (n - k + i)) / i;
+    return value;
+  };
+  terms.forEach((term, idx) => {
+    // Expand prod_j ((u_j - c_j) / h_j)^p_j into monomials in u.
+    let expansion: Array<{ powers: number[]; weight: number }> = [
+      { powers: term.powers.map(() => 0), weight: coefficients[idx] }
+    ];
+    term.powers.forEach((power, factor) => {
+      if (power === 0) return;
+      const scale = scales[factor] ?? { center: 0, half: 1 };
+      const next: typeof expansion = [];
+      expansion.forEach((entry) => {
+        for (let k = 0; k <= power; k += 1) {
+          const powers = entry.powers.slice();
+          powers[factor] = k;
+          const weight =
+            (entry.weight * binomial(power, k) * Math.pow(-scale.center, power - k)) / Math.pow(scale.half, power);
+          next.push({ powers, weight });
+        }
+      });
+      expansion = next;
+    });
+    expansion.forEach((entry) => {
+      const entryKey = key(entry.powers, term);
+      totals.set(entryKey, (totals.get(entryKey) ?? 0) + entry.weight);
+    });
+  });
+  const termKeys = new Set(terms.map((term) => key(term.powers, term)));
+  for (const [entryKey, weight] of totals) {
+    if (!termKeys.has(entryKey) && Math.abs(weight) > 1e-9) return null;
+  }
+  return terms.map((term) => totals.get(key(term.powers, term)) ?? 0);
+}
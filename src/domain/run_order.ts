@@ -0,0 +1,101 @@
+import { seededShuffle } from "../lib/rng.js";
+
+// Minutes to settle between two consecutive runs: changed factors settle in parallel, so the slowest one counts.
+export function changeoverMinutes(
+  from: Record<number, number>,
+  to: Record<number, number>,
+  costs: Record<number, number>
+): number {
+  let minutes = 0;
+  for (const [id, cost] of Object.entries(costs)) {
+    const key = Number(id);
+    if (cost > minutes && from[key] !== to[key]) minutes = cost;
+  }
+  return minutes;
+}
+
+function pathCost<T extends { values: Record<number, number> }>(path: T[], costs: Record<number, number>): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i += 1) total += changeoverMinutes(path[i - 1].values, path[i].values, costs);
+  return total;
+}
+
+/**
+ * Restricted randomization: starts from a seeded shuffle, chains runs by nearest neighbour in
+ * changeover time and improves the chain with 2-opt moves. Ties keep the shuffled order, so runs
+ * that differ only in factors without a changeover time stay in random order.
+ */
+export function optimizeRunOrder<T extends { values: Record<number, number> }>(
+  runs: T[],
+  costs: Record<number, number>,
+  seed: number
+): T[] {
+  const shuffled = seededShuffle(runs, seed);
+  if (shuffled.length < 3 || !Object.values(costs).some((cost) => cost > 0)) return shuffled;
+
+  const remaining = shuffled.slice(1);
+  const path = [shuffled[0]];
+  while (remaining.length) {
+    const current = path[path.length - 1].values;
+    let best = 0;
+    let bestCost = Number.POSITIVE_INFINITY;
+    remaining.forEach((run, idx) => {
+      const cost = changeoverMinutes(current, run.values, costs);
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = idx;
+      }
+    });
+    path.push(remaining.splice(best, 1)[0]);
+  }
+
+  const edge = (a: number, b: number) => changeoverMinutes(path[a].values, path[b].values, costs);
+  for (let pass = 0; pass < 20; pass += 1) {
+    let improved = false;
+    for (let i = 0; i < path.length - 1; i += 1) {
+      for (let j = i + 1; j < path.length; j += 1) {
+        // Reversing path[i..j] replaces the edges into i and out of j; the path is open at both ends.
+        const before = (i > 0 ? edge(i - 1, i) : 0) + (j < path.length - 1 ? edge(j, j + 1) : 0);
+        const after = (i > 0 ? edge(i - 1, j) : 0) + (j < path.length - 1 ? edge(i, j + 1) : 0);
+        if (after < before - 1e-9) {
+          const segment = path.slice(i, j + 1).reverse();
+          path.splice(i, segment.length, ...segment);
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return pathCost(path, costs) <= pathCost(shuffled, costs) ? path : shuffled;
+}
+
+export type RunSchedule = {
+  // Per run, in run order: start in minutes from the first run, the changeover before it and the changed factors.
+  entries: Array<{ start: number; changeover: number; changed: number[] }>;
+  totalMinutes: number;
+  changeoverMinutes: number;
+};
+
+export function buildSchedule(
+  runs: Array<Record<number, number>>,
+  costs: Record<number, number>,
+  runMinutes: number
+): RunSchedule {
+  let clock = 0;
+  let changeoverTotal = 0;
+  const entries = runs.map((values, idx) => {
+    const previous = idx > 0 ? runs[idx - 1] : null;
+    const changeover = previous ? changeoverMinutes(previous, values, costs) : 0;
+    const changed = previous
+      ? Object.keys(costs)
+          .map(Number)
+          .filter((id) => previous[id] !== values[id])
+      : [];
+    clock += changeover;
+    changeoverTotal += changeover;
+    const entry = { start: clock, changeover, changed };
+    clock += runMinutes;
+    return entry;
+  });
+  return { entries, totalMinutes: clock, changeoverMinutes: changeoverTotal };
+}
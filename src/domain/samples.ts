@@ -0,0 +1,29 @@
+export type SampleAggregation = "mean" | "median" | "range" | "sd";
+
+export const SAMPLE_AGGREGATIONS: SampleAggregation[] = ["mean", "median", "range", "sd"];
+
+export const MAX_SAMPLES_PER_RUN = 20;
+
+/**
+ * Collapses the parts measured on one run into the single value the analysis uses. Missing samples are
+ * ignored; the sample SD (n - 1) needs at least two values, the others one.
+ */
+export function aggregateSamples(values: Array<number | null>, method: SampleAggregation): number | null {
+  const present = values.filter((value): value is number => value != null && Number.isFinite(value));
+  if (!present.length) return null;
+  const n = present.length;
+  const mean = present.reduce((acc, value) => acc + value, 0) / n;
+  switch (method) {
+    case "median": {
+      const sorted = [...present].sort((a, b) => a - b);
+      const mid = Math.floor(n / 2);
+      return n % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+    case "range":
+      return Math.max(...present) - Math.min(...present);
+    case "sd":
+      return n < 2 ? null : Math.sqrt(present.reduce((acc, value) => acc + (value - mean) ** 2, 0) / (n - 1));
+    default:
+      return mean;
+  }
+}
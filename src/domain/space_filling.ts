@@ -0,0 +1,183 @@
+import { mulberry32 } from "../lib/rng.js";
+
+export type SpaceFillingMethod = "lhs" | "sobol" | "halton";
+
+// Joe & Kuo (new-joe-kuo-6.21201) primitive polynomials and initial direction numbers for dimensions 2..21.
+const SOBOL_DIRECTIONS: Array<{ s: number; a: number; m: number[] }> = [
+  { s: 1, a: 0, m: [1] },
+  { s: 2, a: 1, m: [1, 3] },
+  { s: 3, a: 1, m: [1, 3, 1] },
+  { s: 3, a: 2, m: [1, 1, 1] },
+  { s: 4, a: 1, m: [1, 1, 3, 3] },
+  { s: 4, a: 4, m: [1, 3, 5, 13] },
+  { s: 5, a: 2, m: [1, 1, 5, 5, 17] },
+  { s: 5, a: 4, m: [1, 1, 5, 5, 5] },
+  { s: 5, a: 7, m: [1, 1, 7, 11, 19] },
+  { s: 5, a: 11, m: [1, 1, 5, 1, 1] },
+  { s: 5, a: 13, m: [1, 1, 1, 3, 11] },
+  { s: 5, a: 14, m: [1, 3, 5, 5, 31] },
+  { s: 6, a: 1, m: [1, 3, 3, 9, 7, 49] },
+  { s: 6, a: 13, m: [1, 1, 1, 15, 21, 21] },
+  { s: 6, a: 16, m: [1, 3, 1, 13, 27, 49] },
+  { s: 6, a: 19, m: [1, 1, 1, 15, 7, 5] },
+  { s: 6, a: 22, m: [1, 3, 1, 15, 13, 25] },
+  { s: 6, a: 25, m: [1, 1, 5, 5, 19, 61] },
+  { s: 7, a: 1, m: [1, 3, 7, 11, 23, 15, 103] },
+  { s: 7, a: 4, m: [1, 3, 7, 13, 13, 15, 69] }
+];
+
+export const MAX_SPACE_FILLING_FACTORS = SOBOL_DIRECTIONS.length + 1;
+
+const BITS = 32;
+
+function sobolDirectionNumbers(dimension: number): number[] {
+  const v = new Array<number>(BITS + 1).fill(0);
+  if (dimension === 0) {
+    for (let i = 1; i <= BITS; i += 1) v[i] = 2 ** (BITS - i);
+    return v;
+  }
+  const { s, a, m } = SOBOL_DIRECTIONS[dimension - 1];
+  for (let i = 1; i <= Math.min(s, BITS); i += 1) v[i] = m[i - 1] * 2 ** (BITS - i);
+  for (let i = s + 1; i <= BITS; i += 1) {
+    let value = (v[i - s] ^ (v[i - s] >>> s)) >>> 0;
+    for (let j = 1; j < s; j += 1) {
+      if ((a >>> (s - 1 - j)) & 1) value = (value ^ v[i - j]) >>> 0;
+    }
+    v[i] = value;
+  }
+  return v;
+}
+
+/**
+ * Sobol points in [0, 1)^d (Gray-code order, starting at the origin) with a seeded random digital
+ * shift per dimension. The shift keeps the net structure, so the first 2^m points stay stratified.
+ */
+export function sobolPoints(n: number, dimensions: number, seed: number): number[][] {
+  if (dimensions > MAX_SPACE_FILLING_FACTORS) return [];
+  const rng = mulberry32(seed);
+  const directions = Array.from({ length: dimensions }, (_, dim) => sobolDirectionNumbers(dim));
+  const shifts = Array.from({ length: dimensions }, () => Math.floor(rng() * 2 ** BITS) >>> 0);
+  const state = new Array<number>(dimensions).fill(0);
+  const points: number[][] = [];
+  for (let index = 0; index < n; index += 1) {
+    if (index > 0) {
+      // Flip the direction number of the lowest zero bit of index - 1.
+      let c = 1;
+      let value = index - 1;
+      while (value & 1) {
+        value >>>= 1;
+        c += 1;
+      }
+      for (let dim = 0; dim < dimensions; dim += 1) state[dim] = (state[dim] ^ directions[dim][c]) >>> 0;
+    }
+    points.push(state.map((value, dim) => ((value ^ shifts[dim]) >>> 0) / 2 ** BITS));
+  }
+  return points;
+}
+
+function firstPrimes(count: number): number[] {
+  const primes: number[] = [];
+  for (let candidate = 2; primes.length < count; candidate += 1) {
+    if (primes.every((prime) => candidate % prime !== 0)) primes.push(candidate);
+  }
+  return primes;
+}
+
+function radicalInverse(index: number, base: number): number {
+  let result = 0;
+  let fraction = 1 / base;
+  let value = index;
+  while (value > 0) {
+    result += (value % base) * fraction;
+    value = Math.floor(value / base);
+    fraction /= base;
+  }
+  return result;
+}
+
+// Halton points (prime bases, index from 1) with a seeded Cranley–Patterson rotation per dimension.
+export function haltonPoints(n: number, dimensions: number, seed: number): number[][] {
+  const rng = mulberry32(seed);
+  const bases = firstPrimes(dimensions);
+  const shifts = bases.map(() => rng());
+  return Array.from({ length: n }, (_, idx) =>
+    bases.map((base, dim) => {
+      const value = radicalInverse(idx + 1, base) + shifts[dim];
+      return value >= 1 ? value - 1 : value;
+    })
+  );
+}
+
+// Morris–Mitchell phi_p: a smooth stand-in for the minimum pairwise distance (lower is better).
+function phiP(points: number[][], p = 15): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i += 1) {
+    for (let j = i + 1; j < points.length; j += 1) {
+      let dist = 0;
+      for (let dim = 0; dim < points[i].length; dim += 1) dist += (points[i][dim] - points[j][dim]) ** 2;
+      sum += Math.max(Math.sqrt(dist), 1e-12) ** -p;
+    }
+  }
+  return sum ** (1 / p);
+}
+
+export function minimumDistance(points: number[][]): number {
+  let best = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < points.length; i += 1) {
+    for (let j = i + 1; j < points.length; j += 1) {
+      let dist = 0;
+      for (let dim = 0; dim < points[i].length; dim += 1) dist += (points[i][dim] - points[j][dim]) ** 2;
+      best = Math.min(best, Math.sqrt(dist));
+    }
+  }
+  return best;
+}
+
+/**
+ * Maximin Latin hypercube: one point per stratum in every dimension (points at stratum centres), chosen
+ * by the best of several random starts followed by a within-column swap search on phi_p.
+ */
+export function maximinLatinHypercube(n: number, dimensions: number, seed: number): number[][] {
+  if (n < 1 || dimensions < 1) return [];
+  const rng = mulberry32(seed);
+  const randomDesign = () => {
+    const columns = Array.from({ length: dimensions }, () => {
+      const perm = Array.from({ length: n }, (_, idx) => idx);
+      for (let i = n - 1; i > 0; i -= 1) {
+        const j = Math.floor(rng() * (i + 1));
+        [perm[i], perm[j]] = [perm[j], perm[i]];
+      }
+      return perm;
+    });
+    return Array.from({ length: n }, (_, row) => columns.map((column) => (column[row] + 0.5) / n));
+  };
+  // Keep the search around a few tens of millions of distance terms.
+  const evaluationCost = Math.max(1, n * n * dimensions);
+  const starts = Math.max(1, Math.min(10, Math.floor(5e6 / evaluationCost)));
+  const swaps = n < 3 ? 0 : Math.min(2000, Math.floor(3e7 / evaluationCost));
+
+  let best = randomDesign();
+  let bestScore = phiP(best);
+  for (let start = 1; start < starts; start += 1) {
+    const candidate = randomDesign();
+    const value = phiP(candidate);
+    if (value < bestScore) {
+      best = candidate;
+      bestScore = value;
+    }
+  }
+  for (let iteration = 0; iteration < swaps; iteration += 1) {
+    const dim = Math.floor(rng() * dimensions);
+    const a = Math.floor(rng() * n);
+    const b = Math.floor(rng() * n);
+    if (a === b) continue;
+    [best[a][dim], best[b][dim]] = [best[b][dim], best[a][dim]];
+    const value = phiP(best);
+    if (value < bestScore) {
+      bestScore = value;
+    } else {
+      [best[a][dim], best[b][dim]] = [best[b][dim], best[a][dim]];
+    }
+  }
+  return best;
+}
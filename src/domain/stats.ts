@@ -15,5 +15,73 @@ export function linearRegression(y: number[], x: number[][]) {
     return { coefficients: [], r2: NaN };
   }
   const model = jStat.models.ols(y, x);
-  return { coefficients: model.coef, r2: model.r2 };
+  return { coefficients: model.coef, r2: model.R2 };
+}
+
+export type SignalToNoiseType = "smaller" | "larger" | "nominal";
+
+// Taguchi S/N ratios in dB; NaN when undefined (non-positive values for larger-the-better, n < 2 or zero SD for nominal).
+export function signalToNoise(values: number[], type: SignalToNoiseType): number {
+  if (!values.length) return NaN;
+  if (type === "smaller") {
+    return -10 * Math.log10(values.reduce((acc, value) => acc + value * value, 0) / values.length);
+  }
+  if (type === "larger") {
+    if (values.some((value) => !(value > 0))) return NaN;
+    return -10 * Math.log10(values.reduce((acc, value) => acc + 1 / (value * value), 0) / values.length);
+  }
+  const spread = sd(values);
+  if (!Number.isFinite(spread) || spread === 0) return NaN;
+  return 10 * Math.log10(Math.pow(mean(values), 2) / Math.pow(spread, 2));
+}
+
+export function tTestPValue(t: number, df: number): number {
+  if (!Number.isFinite(t) || df <= 0) return NaN;
+  return 2 * (1 - jStat.studentt.cdf(Math.abs(t), df));
+}
+
+// Two-sided critical value of the t distribution (e.g. 0.05 gives the 97.5% quantile).
+export function tCritical(alpha: number, df: number): number {
+  if (df <= 0) return NaN;
+  return jStat.studentt.inv(1 - alpha / 2, df);
+}
+
+// Upper-tail p-value of an F statistic.
+export function fTestPValue(f: number, df1: number, df2: number): number {
+  if (!Number.isFinite(f) || f < 0 || df1 <= 0 || df2 <= 0) return NaN;
+  return 1 - jStat.centralF.cdf(f, df1, df2);
+}
+
+// Power of the two-sided t test at level alpha when the true coefficient is ncp standard errors from zero.
+export function tTestPower(ncp: number, df: number, alpha = 0.05): number {
+  if (!Number.isFinite(ncp) || df <= 0) return NaN;
+  // The series in jStat underflows for large non-centrality; power is 1 to many digits there.
+  if (Math.abs(ncp) > 30) return 1;
+  const critical = jStat.studentt.inv(1 - alpha / 2, df);
+  const power = 1 - jStat.noncentralt.cdf(critical, df, ncp) + jStat.noncentralt.cdf(-critical, df, ncp);
+  return Math.min(Math.max(power, 0), 1);
+}
+
+// Quantile of the standard normal distribution.
+export function normalQuantile(p: number): number {
+  if (!(p > 0 && p < 1)) return NaN;
+  return jStat.normal.inv(p, 0, 1);
+}
+
+// Two-sided p-value of a standard normal (Wald) statistic.
+export function zTestPValue(z: number): number {
+  if (!Number.isFinite(z)) return NaN;
+  return 2 * (1 - jStat.normal.cdf(Math.abs(z), 0, 1));
+}
+
+// Upper critical value of the chi-square distribution (e.g. 0.05 gives the 95% quantile).
+export function chiSquareCritical(alpha: number, df: number): number {
+  if (df <= 0) return NaN;
+  return jStat.chisquare.inv(1 - alpha, df);
+}
+
+// Upper-tail p-value of a chi-square statistic.
+export function chiSquarePValue(x: number, df: number): number {
+  if (!Number.isFinite(x) || x < 0 || df <= 0) return NaN;
+  return 1 - jStat.chisquare.cdf(x, df);
 }
@@ -0,0 +1,108 @@
+import { crossProduct, dot, inverse, matVec } from "./matrix.js";
+import { chiSquareCritical } from "./stats.js";
+
+export type TransformKind = "none" | "log" | "sqrt" | "reciprocal" | "logit" | "boxcox";
+
+export const TRANSFORM_KINDS: TransformKind[] = ["none", "log", "sqrt", "reciprocal", "logit", "boxcox"];
+
+export type ResponseTransform = {
+  kind: TransformKind;
+  // Box-Cox power; null estimates it from the data. Ignored by the other kinds.
+  lambda: number | null;
+};
+
+export const NO_TRANSFORM: ResponseTransform = { kind: "none", lambda: null };
+
+// Why the values cannot be transformed (log and Box-Cox need y > 0, logit a percentage strictly inside 0–100).
+export function transformIssue(kind: TransformKind, values: number[]): string | null {
+  if ((kind === "log" || kind === "boxcox") && values.some((value) => value <= 0)) {
+    return "needs all values above zero";
+  }
+  if (kind === "sqrt" && values.some((value) => value < 0)) return "needs no negative values";
+  if (kind === "reciprocal" && values.some((value) => value === 0)) return "needs no zero values";
+  if (kind === "logit" && values.some((value) => value <= 0 || value >= 100)) {
+    return "needs percentages strictly between 0 and 100";
+  }
+  return null;
+}
+
+export function applyTransform(kind: TransformKind, lambda: number, value: number): number {
+  switch (kind) {
+    case "log":
+      return Math.log(value);
+    case "sqrt":
+      return Math.sqrt(value);
+    case "reciprocal":
+      return 1 / value;
+    case "logit":
+      return Math.log(value / (100 - value));
+    case "boxcox":
+      return lambda === 0 ? Math.log(value) : (Math.pow(value, lambda) - 1) / lambda;
+    default:
+      return value;
+  }
+}
+
+// Inverse of applyTransform; model predictions below the square root's or Box-Cox's range map to its edge.
+export function inverseTransform(kind: TransformKind, lambda: number, value: number): number {
+  switch (kind) {
+    case "log":
+      return Math.exp(value);
+    case "sqrt":
+      return Math.max(value, 0) ** 2;
+    case "reciprocal":
+      return 1 / value;
+    case "logit":
+      return 100 / (1 + Math.exp(-value));
+    case "boxcox":
+      return lambda === 0 ? Math.exp(value) : Math.max(lambda * value + 1, 0) ** (1 / lambda);
+    default:
+      return value;
+  }
+}
+
+export type BoxCoxEstimate = {
+  lambda: number;
+  // 95% confidence interval from the profile likelihood.
+  lower: number;
+  upper: number;
+  // Simplest standard power inside the interval (1 = no transform, 0 = log), null when none is.
+  suggested: number | null;
+  curve: Array<{ lambda: number; logLikelihood: number }>;
+};
+
+const BOX_COX_STEPS = 400;
+const BOX_COX_RANGE = 2;
+
+/**
+ * Box-Cox power for regressing y on the columns of x: maximizes the profile log-likelihood
+ * -n/2 ln(SSE/n) of the geometric-mean-scaled transform over λ in [-2, 2] (step 0.01). The interval
+ * holds the λ within half the 95% chi-square quantile of the maximum. Needs y > 0 and residual df.
+ */
+export function boxCoxLambda(x: number[][], y: number[], alpha = 0.05): BoxCoxEstimate | null {
+  const n = y.length;
+  if (!n || n <= (x[0]?.length ?? 0) || y.some((value) => !(value > 0))) return null;
+  const inv = inverse(crossProduct(x));
+  if (!inv) return null;
+  const logMean = y.reduce((acc, value) => acc + Math.log(value), 0) / n;
+  const geometricMean = Math.exp(logMean);
+  const curve = Array.from({ length: BOX_COX_STEPS + 1 }, (_, step) => {
+    const lambda = Number((-BOX_COX_RANGE + (2 * BOX_COX_RANGE * step) / BOX_COX_STEPS).toFixed(2));
+    const z = y.map((value) =>
+      lambda === 0
+        ? geometricMean * Math.log(value)
+        : (Math.pow(value, lambda) - 1) / (lambda * Math.pow(geometricMean, lambda - 1))
+    );
+    const xtz = x[0].map((_, j) => x.reduce((acc, row, i) => acc + row[j] * z[i], 0));
+    const sse = Math.max(dot(z, z) - dot(xtz, matVec(inv, xtz)), 0);
+    return { lambda, logLikelihood: (-n / 2) * Math.log(sse / n) };
+  }).filter((point) => Number.isFinite(point.logLikelihood));
+  if (!curve.length) return null;
+  const best = curve.reduce((top, point) => (point.logLikelihood > top.logLikelihood ? point : top));
+  const cutoff = best.logLikelihood - chiSquareCritical(alpha, 1) / 2;
+  const inside = curve.filter((point) => point.logLikelihood >= cutoff).map((point) => point.lambda);
+  const lower = Math.min(...inside);
+  const upper = Math.max(...inside);
+  const suggested = [1, 0, 0.5, -1, -0.5, 2, -2].find((power) => power >= lower && power <= upper) ?? null;
+  return { lambda: best.lambda, lower, upper, suggested, curve };
+}
@@ -1,4 +1,5 @@
 import type { Db } from "../db.js";
+import type { SampleAggregation } from "../domain/samples.js";
 
 export type AnalysisField = {
   id: number;
@@ -12,6 +13,9 @@ export type AnalysisField = {
   allowed_values_json: string | null;
   is_standard: number;
   is_active: number;
+  // Parts measured per run; above 1 the run value is the aggregate of analysis_run_samples.
+  sample_count: number;
+  sample_aggregation: SampleAggregation;
 };
 
 export type AnalysisRunValue = {
@@ -22,6 +26,14 @@ export type AnalysisRunValue = {
   value_tags_json: string | null;
 };
 
+export type AnalysisRunSample = {
+  run_id: number;
+  field_id: number;
+  sample_index: number;
+  cavity: number | null;
+  value_real: number | null;
+};
+
 export function listStandardAnalysisFields(db: Db): AnalysisField[] {
   return db
     .prepare(
@@ -65,7 +77,10 @@ export function findExperimentAnalysisFieldByCode(
     .get(doeId, code) as AnalysisField | undefined;
 }
 
-export function insertAnalysisField(db: Db, field: Omit<AnalysisField, "id">) {
+export function insertAnalysisField(
+  db: Db,
+  field: Omit<AnalysisField, "id" | "sample_count" | "sample_aggregation">
+) {
   return db
     .prepare(
       `INSERT INTO analysis_fields
@@ -116,6 +131,19 @@ export function updateAnalysisField(
   );
 }
 
+export function updateAnalysisFieldSampling(
+  db: Db,
+  id: number,
+  sampleCount: number,
+  sampleAggregation: SampleAggregation
+) {
+  db.prepare("UPDATE analysis_fields SET sample_count = ?, sample_aggregation = ? WHERE id = ?").run(
+    sampleCount,
+    sampleAggregation,
+    id
+  );
+}
+
 export function listAnalysisRunValuesByRunId(db: Db, runId: number): AnalysisRunValue[] {
   return db
     .prepare("SELECT * FROM analysis_run_values WHERE run_id = ?")
@@ -182,3 +210,39 @@ export function upsertAnalysisRunValue(
        value_tags_json = excluded.value_tags_json`
   ).run(runId, fieldId, valueReal, valueText, valueTagsJson);
 }
+
+export function listAnalysisRunSamplesByRunIds(db: Db, runIds: number[]): AnalysisRunSample[] {
+  return db
+    .prepare(
+      `SELECT * FROM analysis_run_samples
+       WHERE run_id IN (${runIds.map(() => "?").join(",") || "NULL"})
+       ORDER BY run_id, field_id, sample_index`
+    )
+    .all(...runIds) as AnalysisRunSample[];
+}
+
+export function listAnalysisRunSamplesByField(db: Db, fieldId: number): AnalysisRunSample[] {
+  return db
+    .prepare("SELECT * FROM analysis_run_samples WHERE field_id = ? ORDER BY run_id, sample_index")
+    .all(fieldId) as AnalysisRunSample[];
+}
+
+export function replaceAnalysisRunSamples(
+  db: Db,
+  runId: number,
+  fieldId: number,
+  samples: Array<{ sample_index: number; cavity: number | null; value_real: number | null }>
+) {
+  const del = db.prepare("DELETE FROM analysis_run_samples WHERE run_id = ? AND field_id = ?");
+  const insert = db.prepare(
+    `INSERT INTO analysis_run_samples (run_id, field_id, sample_index, cavity, value_real)
+     VALUES (?, ?, ?, ?, ?)`
+  );
+  const tx = db.transaction(() => {
+    del.run(runId, fieldId);
+    for (const sample of samples) {
+      insert.run(runId, fieldId, sample.sample_index, sample.cavity, sample.value_real);
+    }
+  });
+  tx();
+}
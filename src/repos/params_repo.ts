@@ -25,6 +25,7 @@ export type ParamConfig = {
   range_max_real: number | null;
   list_json: string | null;
   level_count: number | null;
+  factor_role: "CONTROL" | "NOISE" | "HARD";
 };
 
 export function listParamDefinitions(db: Db, experimentId: number): ParamDefinition[] {
@@ -86,12 +87,17 @@ export function getParamConfig(
     .get(experimentId, doeId, paramDefId) as ParamConfig | undefined;
 }
 
-export function upsertParamConfig(db: Db, config: Omit<ParamConfig, "id">) {
+// factor_role is optional so callers that do not deal with noise factors keep the stored role.
+export function upsertParamConfig(
+  db: Db,
+  config: Omit<ParamConfig, "id" | "factor_role"> & { factor_role?: ParamConfig["factor_role"] }
+) {
   const existing = getParamConfig(db, config.experiment_id, config.doe_id ?? 0, config.param_def_id);
   if (existing) {
     db.prepare(
       `UPDATE param_configs
-       SET active = ?, mode = ?, fixed_value_real = ?, range_min_real = ?, range_max_real = ?, list_json = ?, level_count = ?
+       SET active = ?, mode = ?, fixed_value_real = ?, range_min_real = ?, range_max_real = ?, list_json = ?, level_count = ?,
+           factor_role = ?
        WHERE id = ?`
     ).run(
       config.active,
@@ -101,13 +107,14 @@ export function upsertParamConfig(db: Db, config: Omit<ParamConfig, "id">) {
       config.range_max_real,
       config.list_json,
       config.level_count,
+      config.factor_role ?? existing.factor_role,
       existing.id
     );
   } else {
     db.prepare(
       `INSERT INTO param_configs
-       (experiment_id, doe_id, param_def_id, active, mode, fixed_value_real, range_min_real, range_max_real, list_json, level_count)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+       (experiment_id, doe_id, param_def_id, active, mode, fixed_value_real, range_min_real, range_max_real, list_json, level_count, factor_role)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     ).run(
       config.experiment_id,
       config.doe_id,
@@ -118,7 +125,8 @@ export function upsertParamConfig(db: Db, config: Omit<ParamConfig, "id">) {
       config.range_min_real,
       config.range_max_real,
       config.list_json,
-      config.level_count
+      config.level_count,
+      config.factor_role ?? "CONTROL"
     );
   }
 }
@@ -9,8 +9,12 @@ export type Run = {
   recipe_id: number | null;
   replicate_key: string | null;
   replicate_index: number | null;
+  whole_plot: number | null;
+  block: number | null;
   done: number;
   exclude_from_analysis: number;
+  // Why the run was excluded; cleared when it is included again.
+  exclude_reason: string | null;
   created_at: string;
 };
 
@@ -40,17 +44,69 @@ export function deleteRunsForExperiment(db: Db, doeId: number) {
   tx();
 }
 
+export function deletePendingRuns(db: Db, doeId: number) {
+  const delValues = db.prepare(
+    "DELETE FROM run_values WHERE run_id IN (SELECT id FROM runs WHERE doe_id = ? AND done = 0)"
+  );
+  const delRuns = db.prepare("DELETE FROM runs WHERE doe_id = ? AND done = 0");
+  const tx = db.transaction(() => {
+    delValues.run(doeId);
+    delRuns.run(doeId);
+  });
+  tx();
+}
+
+export function deleteRuns(db: Db, runIds: number[]) {
+  const delValues = db.prepare("DELETE FROM run_values WHERE run_id = ?");
+  const delRun = db.prepare("DELETE FROM runs WHERE id = ?");
+  const tx = db.transaction(() => {
+    for (const runId of runIds) {
+      delValues.run(runId);
+      delRun.run(runId);
+    }
+  });
+  tx();
+}
+
+// Runs of a DOE with at least one measured output or analysis value entered.
+export function listRunIdsWithResults(db: Db, doeId: number): number[] {
+  const rows = db
+    .prepare(
+      `SELECT r.id FROM runs r
+       WHERE r.doe_id = ?
+         AND (
+           EXISTS (
+             SELECT 1 FROM run_values rv
+             JOIN param_definitions p ON p.id = rv.param_def_id
+             WHERE rv.run_id = r.id AND p.field_kind = 'OUTPUT'
+               AND (rv.value_real IS NOT NULL OR rv.value_text IS NOT NULL OR COALESCE(rv.value_tags_json, '[]') <> '[]')
+           )
+           OR EXISTS (
+             SELECT 1 FROM analysis_run_values av
+             WHERE av.run_id = r.id
+               AND (av.value_real IS NOT NULL OR av.value_text IS NOT NULL OR COALESCE(av.value_tags_json, '[]') <> '[]')
+           )
+         )`
+    )
+    .all(doeId) as Array<{ id: number }>;
+  return rows.map((row) => row.id);
+}
+
+export function updateRunRecipe(db: Db, runId: number, recipeId: number | null) {
+  db.prepare("UPDATE runs SET recipe_id = ? WHERE id = ?").run(recipeId, runId);
+}
+
 export function insertRuns(
   db: Db,
   experimentId: number,
   doeId: number,
-  runs: Array<Omit<Run, "id" | "created_at">>,
+  runs: Array<Omit<Run, "id" | "created_at" | "exclude_reason">>,
   values: Array<RunValue>
 ) {
   const insertRun = db.prepare(
     `INSERT INTO runs
-     (experiment_id, doe_id, run_order, run_code, recipe_id, replicate_key, replicate_index, done, exclude_from_analysis, created_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+     (experiment_id, doe_id, run_order, run_code, recipe_id, replicate_key, replicate_index, whole_plot, block, done, exclude_from_analysis, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   );
   const insertValue = db.prepare(
     "INSERT INTO run_values (run_id, param_def_id, value_real, value_text, value_tags_json) VALUES (?, ?, ?, ?, ?)"
@@ -66,6 +122,8 @@ export function insertRuns(
         run.recipe_id,
         run.replicate_key,
         run.replicate_index,
+        run.whole_plot ?? null,
+        run.block ?? null,
         run.done,
         run.exclude_from_analysis,
         now
@@ -129,11 +187,13 @@ export function updateRunStatus(
   done: number,
   excludeFromAnalysis: number
 ) {
-  db.prepare("UPDATE runs SET done = ?, exclude_from_analysis = ? WHERE id = ?").run(
-    done,
-    excludeFromAnalysis,
-    runId
-  );
+  db.prepare(
+    "UPDATE runs SET done = ?, exclude_from_analysis = ?, exclude_reason = CASE WHEN ? = 1 THEN exclude_reason END WHERE id = ?"
+  ).run(done, excludeFromAnalysis, excludeFromAnalysis, runId);
+}
+
+export function excludeRunFromAnalysis(db: Db, runId: number, reason: string) {
+  db.prepare("UPDATE runs SET exclude_from_analysis = 1, exclude_reason = ? WHERE id = ?").run(reason, runId);
 }
 
 export function getNextPrevRunIds(db: Db, doeId: number, runOrder: number) {
@@ -1,11 +1,49 @@
 import express from "express";
 import type { Db } from "../db.js";
 import {
+  augmentDesign,
   createDoeWithDefaults,
   createExperimentWithDefaults,
   createCustomParam,
-  generateRuns
+  designConstraints,
+  evaluatePlannedDesign,
+  generateRuns,
+  previewConstrainedRuns,
+  previewRegeneration,
+  readDesignOptions,
+  readResponseGoals,
+  readResponseSpecs,
+  readResponseTransforms,
+  reaggregateFieldSamples,
+  runSchedule,
+  syncMixtureFactors
 } from "../services/experiments_service.js";
+import type {
+  DesignOptions,
+  ResponseGoalSetting,
+  ResponseSpecSetting,
+  ResponseTransformSetting
+} from "../services/experiments_service.js";
+import {
+  ccdPlan,
+  defaultOptimalRuns,
+  designCoding,
+  defaultSpaceFillingRuns,
+  dsdPlan,
+  fractionalPlan,
+  MAX_DSD_FACTORS,
+  MAX_FRACTIONAL_FACTORS,
+  plackettBurmanRuns,
+  MAX_MIXTURE_COMPONENTS,
+  mixturePlan,
+  taguchiPlan
+} from "../domain/designs.js";
+import type { FactorConfig } from "../domain/designs.js";
+import { buildModelTerms } from "../domain/models.js";
+import type { ModelKind } from "../domain/models.js";
+import { MAX_SPACE_FILLING_FACTORS } from "../domain/space_filling.js";
+import { MAX_SAMPLES_PER_RUN, SAMPLE_AGGREGATIONS } from "../domain/samples.js";
+import type { SampleAggregation } from "../domain/samples.js";
 import { ensureQualificationDefaults, getQualificationSteps } from "../services/qualification_service.js";
 import { listRecipes, getRecipeComponents } from "../repos/recipes_repo.js";
 import {
@@ -35,25 +73,44 @@ import {
   upsertParamConfig,
   updateAllowedValues
 } from "../repos/params_repo.js";
+import type { ParamConfig, ParamDefinition } from "../repos/params_repo.js";
 import {
   findExperimentAnalysisFieldByCode,
   insertAnalysisField,
   listActiveAnalysisFields,
   listExperimentAnalysisFields,
+  listAnalysisRunSamplesByRunIds,
   listAnalysisRunValuesByRunIds,
   listStandardAnalysisFields,
   listTagValuesForExperimentField,
   updateAnalysisField,
-  updateAnalysisFieldActive
+  updateAnalysisFieldActive,
+  updateAnalysisFieldSampling
 } from "../repos/analysis_repo.js";
-import { listRuns } from "../repos/runs_repo.js";
+import { excludeRunFromAnalysis, getRun, listRuns } from "../repos/runs_repo.js";
 import {
   loadRuns,
   filterRuns,
   summarizeByFactorAnalysis,
+  summarizeByLevelAnalysis,
+  summarizeSignalToNoise,
   summarizeHeatmapAnalysis,
-  buildRegressionAnalysis
+  buildMixtureModel,
+  buildSplitPlotAnalysis,
+  buildRegressionAnalysis,
+  buildResponseSurface,
+  buildDesirabilityOptimization,
+  buildEffectsScreening,
+  buildLogisticModel,
+  buildContourPlot,
+  predictResponseSurface,
+  replicateModelInput,
+  summarizeReplicates
 } from "../services/analysis_service.js";
+import type { BinaryResponse, ReplicateMode, SurfaceFactor, SurfaceOptions } from "../services/analysis_service.js";
+import type { TermSelection } from "../domain/rsm.js";
+import { NO_TRANSFORM, TRANSFORM_KINDS } from "../domain/transforms.js";
+import type { ResponseTransform, TransformKind } from "../domain/transforms.js";
 import { sd } from "../domain/stats.js";
 import { toCsv } from "../lib/csv.js";
 import {
@@ -377,7 +434,8 @@ export function createExperimentsRouter(db: Db) {
         range_min_real: cfg.range_min_real,
         range_max_real: cfg.range_max_real,
         list_json: cfg.list_json,
-        level_count: cfg.level_count
+        level_count: cfg.level_count,
+        factor_role: cfg.factor_role
       });
     }
     const fields = listExperimentAnalysisFields(db, doeId);
@@ -510,12 +568,14 @@ export function createExperimentsRouter(db: Db) {
         ? designMeta.non_randomized_param_id
         : null;
     const runs = listRuns(db, doeId);
+    const hasBlocks = runs.some((run) => (run.block ?? 1) > 1);
     const runRows = loadRuns(db, doeId);
     const qualSummaries = listQualSummaries(db, experimentId);
     const activeInputParams = inputParams.filter((param) => {
       const cfg = configs.find((c) => c.param_def_id === param.id);
       return cfg?.active === 1;
     });
+    const factorLevels = activeFactorLevels(activeInputParams, configs);
     const activeAnalysisFields = listActiveAnalysisFields(db, doeId);
     const outputNumericParams = activeAnalysisFields.filter((field) => field.field_type === "number");
     const tagOutputFields = activeAnalysisFields.filter((field) => field.field_type === "tag");
@@ -543,7 +603,41 @@ export function createExperimentsRouter(db: Db) {
       };
     });
 
-    const runPreview = buildRunPreview(doe, inputParams, configs, linkedRecipes);
+    const designOptions = readDesignOptions(designMeta);
+    const constrained = previewConstrainedRuns(db, experimentId, doeId);
+    const runPreview = buildRunPreview(
+      doe,
+      inputParams,
+      configs,
+      linkedRecipes,
+      designOptions,
+      constrained
+    );
+    const regenerationBlocker = generationBlocker(doe, runPreview, constrained, designOptions);
+    const evalModelRaw = String(req.query.eval_model || "");
+    const evalModel: ModelKind =
+      evalModelRaw === "main" || evalModelRaw === "interactions" || evalModelRaw === "quadratic"
+        ? evalModelRaw
+        : doe.design_type === "CCD" || doe.design_type === "BBD"
+          ? "quadratic"
+          : doe.design_type === "OPTIMAL"
+            ? designOptions.optimal_model
+            : "main";
+    const evalEffectRaw = parseNumber(String(req.query.eval_effect ?? ""));
+    const evalEffect = Number.isFinite(evalEffectRaw) && evalEffectRaw > 0 ? evalEffectRaw : 2;
+    const designEvaluation =
+      tab === "design" && req.query.evaluate === "1" && !regenerationBlocker
+        ? {
+            model: evalModel,
+            effectSize: evalEffect,
+            result: evaluatePlannedDesign(db, experimentId, doeId, { model: evalModel, effectSize: evalEffect, alpha: 0.05 })
+          }
+        : null;
+    const schedule = tab === "design" && runs.length > 0 ? runSchedule(db, experimentId, doeId) : null;
+    const regenerationPreview =
+      tab === "design" && req.query.regenerate === "preview" && runs.length > 0 && !regenerationBlocker
+        ? previewRegeneration(db, experimentId, doeId)
+        : null;
 
     let analysis = null;
     if (tab === "analysis") {
@@ -616,9 +710,11 @@ export function createExperimentsRouter(db: Db) {
         });
       }
 
-      const summary = outputParamId && xParamId
-        ? summarizeByFactorAnalysis(filtered, analysisValueMap, outputParamId, xParamId)
-        : [];
+      const summary = !outputParamId || !xParamId
+        ? []
+        : factorLevels.has(xParamId)
+          ? summarizeByLevelAnalysis(filtered, analysisValueMap, outputParamId, xParamId, factorLevels.get(xParamId))
+          : summarizeByFactorAnalysis(filtered, analysisValueMap, outputParamId, xParamId);
       const overallValues = filtered
         .map((run) => analysisValueMap.get(`${run.id}:${outputParamId}`)?.value_real)
         .filter((value) => value != null) as number[];
@@ -647,9 +743,220 @@ export function createExperimentsRouter(db: Db) {
           z: analysisValueMap.get(`${run.id}:${outputParamId}`)?.value_real
         }))
         .filter((point) => point.x != null && point.y != null && point.z != null);
+      const blockTerm = hasBlocks && req.query.block_term === "1";
+      const replicateMode = replicateModeFromQuery(req.query);
+      const replicateSummary = outputParamId ? summarizeReplicates(filtered, analysisValueMap, outputParamId) : null;
+      // The single-response models fit each run, or one row per design point in the aggregated modes.
+      const modelInput =
+        replicateSummary && replicateMode !== "runs"
+          ? replicateModelInput(filtered, replicateSummary, outputParamId, replicateMode)
+          : { runs: filtered, analysisValueMap };
+      const modelTransform = replicateMode === "log_sd" ? NO_TRANSFORM : responseTransformFor(designMeta, outputParamId);
       const regression = outputParamId
-        ? buildRegressionAnalysis(filtered, analysisValueMap, outputParamId, activeInputParams.slice(0, 3))
-        : { coefficients: [], r2: NaN };
+        ? buildRegressionAnalysis(
+            modelInput.runs,
+            modelInput.analysisValueMap,
+            outputParamId,
+            modelFactorParams(activeInputParams, configs),
+            blockTerm,
+            factorLevels,
+            modelTransform
+          )
+        : { coefficients: [], r2: NaN, terms: [], anova: null, blockEffects: [], levelEffects: [] };
+      const snTypeRaw = String(req.query.sn_type || "");
+      const snType = snTypeRaw === "smaller" || snTypeRaw === "larger" ? snTypeRaw : "nominal";
+      const taguchiMeta = designMeta.taguchi as { control_ids?: number[] } | null | undefined;
+      const controlIds =
+        taguchiMeta?.control_ids ??
+        configs
+          .filter((config) => config.active === 1 && config.factor_role !== "NOISE")
+          .map((config) => config.param_def_id);
+      const signalToNoise =
+        doe.design_type === "TAGUCHI" && outputParamId
+          ? summarizeSignalToNoise(
+              // Categorical control factors are grouped by level index; the view shows the level names.
+              filtered.map((run) => {
+                const values = { ...run.values };
+                factorLevels.forEach((levels, id) => {
+                  const level = levels.indexOf(run.texts[id]);
+                  if (level >= 0) values[id] = level;
+                });
+                return { ...run, values };
+              }),
+              analysisValueMap,
+              outputParamId,
+              controlIds,
+              snType
+            )
+          : null;
+      const mixtureOrderRaw = String(req.query.mixture_model || "");
+      const mixtureOrder =
+        mixtureOrderRaw === "linear" || mixtureOrderRaw === "special_cubic" ? mixtureOrderRaw : "quadratic";
+      const mixtureMeta = designMeta.mixture as
+        | { components?: Array<{ name: string; param_def_id: number }> }
+        | null
+        | undefined;
+      const mixtureModel =
+        doe.design_type === "MIXTURE" && outputParamId && mixtureMeta?.components?.length
+          ? buildMixtureModel(
+              filtered,
+              analysisValueMap,
+              outputParamId,
+              mixtureMeta.components.map((component) => ({
+                paramId: component.param_def_id,
+                label: component.name
+              })),
+              mixtureOrder
+            )
+          : null;
+      const splitPlotMeta = designMeta.split_plot_layout as { hard_ids?: number[] } | null | undefined;
+      const splitPlotModel =
+        splitPlotMeta?.hard_ids?.length && outputParamId
+          ? buildSplitPlotAnalysis(
+              filtered,
+              analysisValueMap,
+              outputParamId,
+              activeInputParams
+                .filter(
+                  (param) =>
+                    param.field_type !== "text" &&
+                    configs.find((config) => config.param_def_id === param.id)?.mode !== "FIXED"
+                )
+                .map((param) => ({
+                  paramId: param.id,
+                  label: param.label,
+                  hard: splitPlotMeta.hard_ids!.includes(param.id)
+                }))
+            )
+          : null;
+      const surfaceOptions = surfaceOptionsFromQuery(req.query, doe.design_type);
+      const surfaceFactors = surfaceFactorsFor(activeInputParams, configs, factorLevels, designMeta);
+      const surfaceModel =
+        doe.design_type !== "MIXTURE" && outputParamId
+          ? buildResponseSurface(
+              modelInput.runs,
+              modelInput.analysisValueMap,
+              outputParamId,
+              surfaceFactors,
+              surfaceOptions,
+              modelTransform
+            )
+          : null;
+      const effectsScreening =
+        ["SCREEN", "FFA", "PB"].includes(doe.design_type) && outputParamId
+          ? buildEffectsScreening(
+              modelInput.runs,
+              modelInput.analysisValueMap,
+              outputParamId,
+              surfaceFactors,
+              modelTransform
+            )
+          : null;
+      // Pass/fail outcomes: boolean fields either way round, tag fields per tag or any tag.
+      const logitOptions = [
+        ...booleanOutputFields.flatMap((field) => [
+          { value: `bool:${field.id}:0`, label: `${field.label}: false` },
+          { value: `bool:${field.id}:1`, label: `${field.label}: true` }
+        ]),
+        ...tagOutputFields.flatMap((field) => [
+          { value: `tag:${field.id}:*`, label: `${field.label}: any` },
+          ...parseAllowed(field).allowedValues.map((tag) => ({ value: `tag:${field.id}:${tag}`, label: `${field.label}: ${tag}` }))
+        ])
+      ];
+      const logitResponseRaw = String(req.query.logit_response || "");
+      const logitMatch = logitOptions.some((option) => option.value === logitResponseRaw)
+        ? logitResponseRaw.match(/^(bool|tag):(\d+):(.+)$/)
+        : null;
+      const logitResponse: BinaryResponse | null = logitMatch
+        ? logitMatch[1] === "bool"
+          ? { kind: "boolean", fieldId: Number(logitMatch[2]), value: Number(logitMatch[3]) }
+          : { kind: "tag", fieldId: Number(logitMatch[2]), tag: logitMatch[3] === "*" ? null : logitMatch[3] }
+        : null;
+      const logitModelRaw = String(req.query.logit_model || "");
+      const logitKind: ModelKind =
+        logitModelRaw === "interactions" || logitModelRaw === "quadratic" ? logitModelRaw : "main";
+      const logitThresholdRaw = parseNumber(String(req.query.logit_threshold ?? ""));
+      const logitThreshold =
+        Number.isFinite(logitThresholdRaw) && logitThresholdRaw > 0 && logitThresholdRaw < 1 ? logitThresholdRaw : 0.1;
+      // Built on the runs before the tag/boolean filters, which would otherwise fix the outcome.
+      const logisticModel =
+        logitResponse && doe.design_type !== "MIXTURE" && surfaceFactors.length
+          ? {
+              response: logitResponseRaw,
+              label: logitOptions.find((option) => option.value === logitResponseRaw)!.label,
+              threshold: logitThreshold,
+              ...buildLogisticModel(baseRuns, analysisValueMap, logitResponse, surfaceFactors, logitKind, [
+                xParamId,
+                yParamId
+              ])
+            }
+          : null;
+      const responseGoals = readResponseGoals(designMeta).filter((goal) =>
+        outputNumericParams.some((field) => field.id === goal.field_id)
+      );
+      const optimization =
+        doe.design_type !== "MIXTURE" && responseGoals.length && surfaceFactors.length
+          ? buildDesirabilityOptimization(
+              filtered,
+              analysisValueMap,
+              responseGoals.map((goal) => ({
+                fieldId: goal.field_id,
+                label: outputNumericParams.find((field) => field.id === goal.field_id)!.label,
+                goal: goal.goal,
+                lower: goal.lower,
+                target: goal.target,
+                upper: goal.upper,
+                importance: goal.importance,
+                transform: responseTransformFor(designMeta, goal.field_id)
+              })),
+              surfaceFactors,
+              surfaceOptions,
+              doe.seed
+            )
+          : null;
+      const responseSpecs = readResponseSpecs(designMeta).filter((spec) =>
+        outputNumericParams.some((field) => field.id === spec.field_id)
+      );
+      // The shown output first, then every other response with spec limits for the overlay.
+      const contourResponses = outputNumericParams
+        .filter((field) => field.id === outputParamId || responseSpecs.some((spec) => spec.field_id === field.id))
+        .sort((a, b) => Number(b.id === outputParamId) - Number(a.id === outputParamId))
+        .map((field) => {
+          const spec = responseSpecs.find((entry) => entry.field_id === field.id);
+          return {
+            fieldId: field.id,
+            label: field.label,
+            lower: spec?.lower ?? null,
+            upper: spec?.upper ?? null,
+            transform: responseTransformFor(designMeta, field.id)
+          };
+        });
+      const contourHeld = new Map<number, number | string>();
+      surfaceFactors.forEach((factor) => {
+        const raw = req.query[`hold_${factor.paramId}`];
+        if (raw === undefined || String(raw) === "") return;
+        if (factor.levels) {
+          if (factor.levels.includes(String(raw))) contourHeld.set(factor.paramId, String(raw));
+        } else if (Number.isFinite(parseNumber(String(raw)))) {
+          contourHeld.set(factor.paramId, parseNumber(String(raw)));
+        }
+      });
+      const contourPlot =
+        doe.design_type !== "MIXTURE" && outputParamId && contourResponses.length
+          ? buildContourPlot(
+              filtered,
+              analysisValueMap,
+              contourResponses,
+              surfaceFactors,
+              surfaceOptions,
+              [xParamId, yParamId],
+              contourHeld
+            )
+          : null;
+      // Current analysis settings, re-sent by the contour form alongside the held values.
+      const analysisQuery = Object.entries(req.query)
+        .filter(([key]) => key !== "tab" && key !== "error" && !key.startsWith("hold_"))
+        .flatMap(([key, value]) => (Array.isArray(value) ? value : [value]).map((entry) => [key, String(entry)]));
 
       analysis = {
         outputParamId,
@@ -667,7 +974,27 @@ export function createExperimentsRouter(db: Db) {
         heatmap,
         scatter,
         scatter3d,
-        regression
+        regression,
+        replicateMode,
+        replicateSummary,
+        snType,
+        signalToNoise,
+        mixtureOrder,
+        mixtureModel,
+        splitPlotModel,
+        surfaceModel,
+        outputTransform: responseTransformFor(designMeta, outputParamId),
+        effectsScreening,
+        logitOptions,
+        logitKind,
+        logitThreshold,
+        logisticModel,
+        responseGoals,
+        optimization,
+        responseSpecs,
+        contourPlot,
+        analysisQuery,
+        blockTerm
       };
     }
 
@@ -681,6 +1008,7 @@ export function createExperimentsRouter(db: Db) {
       params,
       inputParams,
       activeInputParams,
+      modelFactorCount: modelFactorParams(activeInputParams, configs).length,
       outputNumericParams,
       tagOutputFields,
       booleanOutputFields,
@@ -692,6 +1020,18 @@ export function createExperimentsRouter(db: Db) {
       tab,
       analysis,
       runPreview,
+      designOptions,
+      regenerationPreview,
+      designEvaluation,
+      schedule,
+      hasBlocks,
+      factorLevels,
+      constraintErrors: designConstraints(designOptions, inputParams).errors,
+      mixtureBaseComponents:
+        doe.design_type === "MIXTURE" && designOptions.mixture_base_recipe_id
+          ? getRecipeComponents(db, designOptions.mixture_base_recipe_id)
+          : [],
+      designMeta,
       errorMessage,
       nonRandomizedParamId,
       qualSummaries
@@ -816,6 +1156,7 @@ export function createExperimentsRouter(db: Db) {
     const labelMap = new Map(inputParams.map((param) => [param.id, param.label]));
     const updates: Array<{
       experiment_id: number;
+      doe_id: number;
       param_def_id: number;
       active: number;
       mode: "FIXED" | "RANGE" | "LIST";
@@ -824,6 +1165,7 @@ export function createExperimentsRouter(db: Db) {
       range_max_real: number | null;
       list_json: string | null;
       level_count: number | null;
+      factor_role: "CONTROL" | "NOISE" | "HARD";
     }> = [];
     const errors: string[] = [];
 
@@ -840,8 +1182,29 @@ export function createExperimentsRouter(db: Db) {
         .map((val) => parseFloat(val))
         .filter((val) => Number.isFinite(val));
       const levelCount = Number(req.body[`${prefix}_levels`] || config?.level_count || 2);
-      const fixed = mode === "FIXED" ? values[0] : NaN;
-      const list = mode === "LIST" ? values : [];
+      // Text inputs are categorical: their values are comma-separated level names.
+      const categorical = param.field_type === "text";
+      const levelNames = Array.from(
+        new Set(
+          valuesRaw
+            .split(/[,;]/)
+            .map((val) => val.trim())
+            .filter(Boolean)
+        )
+      );
+      const fixed = mode === "FIXED" && !categorical ? values[0] : NaN;
+      const list: Array<number | string> = categorical
+        ? mode === "FIXED"
+          ? levelNames.slice(0, 1)
+          : levelNames
+        : mode === "LIST"
+          ? values
+          : [];
+      const roleRaw = req.body[`${prefix}_role`];
+      const role: "CONTROL" | "NOISE" | "HARD" =
+        roleRaw === "NOISE" || roleRaw === "CONTROL" || roleRaw === "HARD"
+          ? roleRaw
+          : config?.factor_role ?? "CONTROL";
 
       if (
         mode === "RANGE" &&
@@ -852,7 +1215,21 @@ export function createExperimentsRouter(db: Db) {
         rangeMax = values[1];
       }
 
-      if (doe.design_type === "BBD" && active === 1) {
+      if (categorical && active === 1) {
+        const name = labelMap.get(param.id) || "Factor";
+        if (mode === "RANGE") {
+          errors.push(`"${name}" is categorical: list its levels (LIST) or fix one (FIXED).`);
+        } else if (mode === "LIST" && list.length < 2) {
+          errors.push(`"${name}" needs at least 2 levels.`);
+        } else if (
+          mode === "LIST" &&
+          (doe.design_type === "BBD" || doe.design_type === "CCD" || doe.design_type === "DSD")
+        ) {
+          errors.push(`${doe.design_type}: categorical factor "${name}" has no center or axial levels; use FFA, SCREEN or OPTIMAL.`);
+        }
+      }
+
+      if (doe.design_type === "BBD" && active === 1 && !categorical) {
         if (mode === "FIXED") {
           errors.push(
             `BBD: "${labelMap.get(param.id) || "Factor"}" must be RANGE or LIST (3 levels).`
@@ -872,6 +1249,37 @@ export function createExperimentsRouter(db: Db) {
         }
       }
 
+      if (doe.design_type === "CCD" && active === 1 && !categorical) {
+        if (mode === "FIXED") {
+          errors.push(
+            `CCD: "${labelMap.get(param.id) || "Factor"}" must be RANGE or LIST (min and max).`
+          );
+        }
+        if (mode === "RANGE" && (!Number.isFinite(rangeMin) || !Number.isFinite(rangeMax))) {
+          errors.push(
+            `CCD: "${labelMap.get(param.id) || "Factor"}" needs min and max.`
+          );
+        }
+        if (mode === "LIST" && list.length < 2) {
+          errors.push(
+            `CCD: "${labelMap.get(param.id) || "Factor"}" needs at least 2 values.`
+          );
+        }
+      }
+
+      if (doe.design_type === "TAGUCHI" && active === 1) {
+        const levels = mode === "LIST" ? list.length : mode === "RANGE" ? (levelCount === 3 ? 3 : 2) : 1;
+        if (mode === "FIXED" || (mode === "RANGE" && (!Number.isFinite(rangeMin) || !Number.isFinite(rangeMax)))) {
+          errors.push(
+            `TAGUCHI: "${labelMap.get(param.id) || "Factor"}" needs min and max or a LIST of 2-3 values.`
+          );
+        } else if (role === "CONTROL" && (levels < 2 || levels > 3)) {
+          errors.push(
+            `TAGUCHI: control factor "${labelMap.get(param.id) || "Factor"}" needs 2 or 3 levels.`
+          );
+        }
+      }
+
       if (active === 1) {
         updates.push({
           experiment_id: experimentId,
@@ -888,7 +1296,8 @@ export function createExperimentsRouter(db: Db) {
               ? 3
               : mode === "RANGE"
                 ? levelCount
-                : null
+                : null,
+          factor_role: role
         });
       }
     }
@@ -1084,6 +1493,30 @@ export function createExperimentsRouter(db: Db) {
     res.redirect(`/experiments/${experimentId}/doe/${doeId}?tab=analysis`);
   });
 
+  router.post("/experiments/:id/doe/:doeId/analysis-fields/sampling", (req, res) => {
+    if (!hasRole(req, ["admin", "manager", "engineer"])) {
+      return res.status(403).send("Forbidden");
+    }
+    const experimentId = Number(req.params.id);
+    const doeId = Number(req.params.doeId);
+    const numericFields = listActiveAnalysisFields(db, doeId).filter((field) => field.field_type === "number");
+    for (const field of numericFields) {
+      const countRaw = req.body[`sample_count_${field.id}`];
+      if (countRaw === undefined) continue;
+      const count = Math.round(Number(countRaw));
+      const sampleCount = Number.isFinite(count) ? Math.min(Math.max(count, 1), MAX_SAMPLES_PER_RUN) : 1;
+      const aggregationRaw = String(req.body[`sample_aggregation_${field.id}`] || "");
+      const sampleAggregation = SAMPLE_AGGREGATIONS.includes(aggregationRaw as SampleAggregation)
+        ? (aggregationRaw as SampleAggregation)
+        : "mean";
+      updateAnalysisFieldSampling(db, field.id, sampleCount, sampleAggregation);
+      if (sampleAggregation !== field.sample_aggregation) {
+        reaggregateFieldSamples(db, { ...field, sample_count: sampleCount, sample_aggregation: sampleAggregation });
+      }
+    }
+    res.redirect(`/experiments/${experimentId}/doe/${doeId}?tab=analysis`);
+  });
+
   router.post("/experiments/:id/doe/:doeId/analysis-fields/new", (req, res) => {
     if (!hasRole(req, ["admin", "manager", "engineer"])) {
       return res.status(403).send("Forbidden");
@@ -1160,6 +1593,372 @@ export function createExperimentsRouter(db: Db) {
     res.redirect(`/experiments/${experimentId}/doe/${doeId}?tab=analysis`);
   });
 
+  router.get("/experiments/:id/doe/:doeId/run-preview", (req, res) => {
+    const experimentId = Number(req.params.id);
+    const doeId = Number(req.params.doeId);
+    const doe = getDoeStudy(db, doeId);
+    if (!doe || doe.experiment_id !== experimentId) {
+      return res.status(404).json({ error: "DOE not found." });
+    }
+    const inputParams = listParamDefinitionsByKind(db, experimentId, "INPUT");
+    const configs = listParamConfigs(db, experimentId, doeId);
+    const recipeIds = getExperimentRecipes(db, experimentId);
+    const designOptions = readDesignOptions(parseDesignMetadata(getDesignMetadata(db, experimentId, doeId)));
+    res.json(
+      buildRunPreview(
+        doe,
+        inputParams,
+        configs,
+        recipeIds,
+        designOptions,
+        previewConstrainedRuns(db, experimentId, doeId)
+      )
+    );
+  });
+
+  router.post("/experiments/:id/doe/:doeId/design-options", (req, res) => {
+    if (!hasRole(req, ["admin", "manager", "engineer"])) {
+      return res.status(403).send("Forbidden");
+    }
+    const experimentId = Number(req.params.id);
+    const doeId = Number(req.params.doeId);
+    const doe = getDoeStudy(db, doeId);
+    if (!doe || doe.experiment_id !== experimentId) return res.status(404).send("DOE not found");
+    const wantsJson =
+      req.get("X-Requested-With") === "XMLHttpRequest" || req.accepts("json") === "json";
+    const designMeta = parseDesignMetadata(getDesignMetadata(db, experimentId, doeId));
+    const next: Record<string, unknown> = { ...designMeta };
+    if (req.body.resolution !== undefined) {
+      next.resolution = Number(req.body.resolution);
+    }
+    if (req.body.fold_over !== undefined) {
+      next.fold_over = checkboxChecked(req.body.fold_over);
+    }
+    if (req.body.ccd_variant !== undefined) {
+      next.ccd_variant = String(req.body.ccd_variant);
+    }
+    if (req.body.ccd_alpha !== undefined) {
+      next.ccd_alpha = String(req.body.ccd_alpha);
+    }
+    if (req.body.ccd_axial_reps !== undefined) {
+      next.ccd_axial_reps = Number(req.body.ccd_axial_reps);
+    }
+    if (req.body.pb_runs !== undefined) {
+      next.pb_runs = Number(req.body.pb_runs);
+    }
+    if (req.body.taguchi_array !== undefined) {
+      next.taguchi_array = String(req.body.taguchi_array);
+    }
+    if (req.body.constraint_text !== undefined) {
+      next.constraint_text = String(req.body.constraint_text);
+    }
+    if (req.body.split_plot !== undefined) {
+      next.split_plot = checkboxChecked(req.body.split_plot);
+    }
+    if (req.body.split_plot_size !== undefined) {
+      const plotSize = parseNumber(req.body.split_plot_size);
+      next.split_plot_size = Number.isFinite(plotSize) ? plotSize : null;
+    }
+    if (req.body.run_order !== undefined) {
+      next.run_order = String(req.body.run_order);
+    }
+    if (req.body.run_minutes !== undefined) {
+      const runMinutes = parseNumber(req.body.run_minutes);
+      next.run_minutes = Number.isFinite(runMinutes) ? runMinutes : null;
+    }
+    if (req.body.changeover_form !== undefined) {
+      // Blank or zero clears a factor's changeover time.
+      const changeover: Record<number, number> = {};
+      Object.entries(req.body as Record<string, unknown>).forEach(([key, value]) => {
+        const match = /^changeover_(\d+)$/.exec(key);
+        const minutes = match ? parseNumber(String(value ?? "")) : Number.NaN;
+        if (match && Number.isFinite(minutes) && minutes > 0) changeover[Number(match[1])] = minutes;
+      });
+      next.changeover_minutes = changeover;
+    }
+    if (req.body.sim_method !== undefined) {
+      next.sim_method = String(req.body.sim_method);
+    }
+    if (req.body.sim_runs !== undefined) {
+      const runCount = parseNumber(req.body.sim_runs);
+      next.sim_runs = Number.isFinite(runCount) ? runCount : null;
+    }
+    let baseRecipeChanged = false;
+    if (req.body.mixture_base_recipe_id !== undefined) {
+      const recipeId = parseNumber(req.body.mixture_base_recipe_id);
+      const nextRecipeId = Number.isFinite(recipeId) ? recipeId : null;
+      baseRecipeChanged = nextRecipeId !== readDesignOptions(designMeta).mixture_base_recipe_id;
+      if (baseRecipeChanged) next.mixture_components = [];
+      next.mixture_base_recipe_id = nextRecipeId;
+    }
+    if (req.body.mixture_kind !== undefined) {
+      next.mixture_kind = String(req.body.mixture_kind);
+    }
+    if (req.body.mixture_degree !== undefined) {
+      next.mixture_degree = Number(req.body.mixture_degree);
+    }
+    if (req.body.mixture_augment !== undefined) {
+      next.mixture_augment = checkboxChecked(req.body.mixture_augment);
+    }
+    if (req.body.mixture_components_form !== undefined && !baseRecipeChanged) {
+      // Bounds are entered in percent of the varied components' combined phr.
+      const baseRecipeId = readDesignOptions(next).mixture_base_recipe_id;
+      const baseComponents = baseRecipeId ? getRecipeComponents(db, baseRecipeId) : [];
+      next.mixture_components = baseComponents
+        .map((component, idx) => ({
+          name: component.component_name,
+          vary: checkboxChecked(req.body[`mixture_vary_${idx}`]),
+          lower: parseNumber(req.body[`mixture_lower_${idx}`]) / 100,
+          upper: parseNumber(req.body[`mixture_upper_${idx}`]) / 100
+        }))
+        .filter((component) => component.vary)
+        .map(({ name, lower, upper }) => ({
+          name,
+          lower: Number.isFinite(lower) ? lower : 0,
+          upper: Number.isFinite(upper) ? upper : 1
+        }));
+    }
+    if (req.body.optimal_model !== undefined) {
+      next.optimal_model = String(req.body.optimal_model);
+    }
+    if (req.body.optimal_criterion !== undefined) {
+      next.optimal_criterion = String(req.body.optimal_criterion);
+    }
+    if (req.body.optimal_runs !== undefined) {
+      const budget = parseNumber(req.body.optimal_runs);
+      next.optimal_runs = Number.isFinite(budget) ? budget : null;
+    }
+    if (req.body.optimal_include_done !== undefined) {
+      next.optimal_include_done = checkboxChecked(req.body.optimal_include_done);
+    }
+    if (req.body.optimal_forced !== undefined) {
+      // One run per line, values in the order of the active factor table.
+      const configs = listParamConfigs(db, experimentId, doeId);
+      const activeIds = listParamDefinitionsByKind(db, experimentId, "INPUT")
+        .filter((param) => configs.some((config) => config.param_def_id === param.id && config.active === 1))
+        .map((param) => param.id);
+      next.optimal_forced_runs = String(req.body.optimal_forced)
+        .split(/\r?\n/)
+        .map((line) =>
+          line
+            .split(/[\s,;]+/)
+            .filter(Boolean)
+            .map((val) => parseFloat(val))
+        )
+        .filter((values) => values.length === activeIds.length && values.every((val) => Number.isFinite(val)))
+        .map((values) => Object.fromEntries(activeIds.map((id, idx) => [id, values[idx]])));
+    }
+    const options = readDesignOptions(next);
+    upsertDesignMetadata(db, experimentId, doeId, JSON.stringify({ ...next, ...options }));
+    if (doe.design_type === "MIXTURE") {
+      syncMixtureFactors(db, experimentId, doeId, options.mixture_components);
+    }
+    if (wantsJson) return res.status(204).send();
+    res.redirect(`/experiments/${experimentId}/doe/${doeId}?tab=design`);
+  });
+
+  router.post("/experiments/:id/doe/:doeId/response-goals", (req, res) => {
+    if (!hasRole(req, ["admin", "manager", "engineer"])) {
+      return res.status(403).send("Forbidden");
+    }
+    const experimentId = Number(req.params.id);
+    const doeId = Number(req.params.doeId);
+    const doe = getDoeStudy(db, doeId);
+    if (!doe || doe.experiment_id !== experimentId) return res.status(404).send("DOE not found");
+    // Keep the analysis view's model settings across the redirect.
+    const query = new URLSearchParams({ tab: "analysis" });
+    ["output_param", "rsm_model", "rsm_select", "rsm_alpha"].forEach((key) => {
+      if (req.body[key] !== undefined && String(req.body[key]) !== "") query.set(key, String(req.body[key]));
+    });
+    const numericFields = listActiveAnalysisFields(db, doeId).filter((field) => field.field_type === "number");
+    const goals: ResponseGoalSetting[] = [];
+    for (const field of numericFields) {
+      const goal = String(req.body[`goal_${field.id}`] ?? "");
+      if (goal !== "minimize" && goal !== "maximize" && goal !== "target") continue;
+      const limit = (name: string) => {
+        const value = parseNumber(req.body[`${name}_${field.id}`]);
+        return Number.isFinite(value) ? value : null;
+      };
+      const entry: ResponseGoalSetting = {
+        field_id: field.id,
+        goal,
+        lower: limit("lower"),
+        target: limit("target"),
+        upper: limit("upper"),
+        importance: Math.min(Math.max(Math.round(parseNumber(req.body[`importance_${field.id}`]) || 1), 1), 5)
+      };
+      const ordered = [entry.lower, entry.target, entry.upper].filter((value): value is number => value != null);
+      if (ordered.some((value, idx) => idx > 0 && value < ordered[idx - 1])) {
+        query.set("error", `${field.label}: limits must be in the order lower ≤ target ≤ upper.`);
+        return res.redirect(`/experiments/${experimentId}/doe/${doeId}?${query.toString()}#desirability`);
+      }
+      goals.push(entry);
+    }
+    const designMeta = parseDesignMetadata(getDesignMetadata(db, experimentId, doeId));
+    upsertDesignMetadata(db, experimentId, doeId, JSON.stringify({ ...designMeta, response_goals: goals }));
+    res.redirect(`/experiments/${experimentId}/doe/${doeId}?${query.toString()}#desirability`);
+  });
+
+  router.post("/experiments/:id/doe/:doeId/response-specs", (req, res) => {
+    if (!hasRole(req, ["admin", "manager", "engineer"])) {
+      return res.status(403).send("Forbidden");
+    }
+    const experimentId = Number(req.params.id);
+    const doeId = Number(req.params.doeId);
+    const doe = getDoeStudy(db, doeId);
+    if (!doe || doe.experiment_id !== experimentId) return res.status(404).send("DOE not found");
+    // Keep the analysis view's axes, model settings and held values across the redirect.
+    const query = new URLSearchParams({ tab: "analysis" });
+    const carried = ["output_param", "x_param", "y_param", "recipe_id", "rsm_model", "rsm_select", "rsm_alpha"];
+    Object.keys(req.body)
+      .filter((key) => carried.includes(key) || key.startsWith("hold_"))
+      .forEach((key) => {
+        if (String(req.body[key]) !== "") query.set(key, String(req.body[key]));
+      });
+    const numericFields = listActiveAnalysisFields(db, doeId).filter((field) => field.field_type === "number");
+    const specs: ResponseSpecSetting[] = [];
+    for (const field of numericFields) {
+      const limit = (name: string) => {
+        const value = parseNumber(req.body[`${name}_${field.id}`]);
+        return Number.isFinite(value) ? value : null;
+      };
+      const entry: ResponseSpecSetting = { field_id: field.id, lower: limit("spec_lower"), upper: limit("spec_upper") };
+      if (entry.lower == null && entry.upper == null) continue;
+      if (entry.lower != null && entry.upper != null && entry.lower > entry.upper) {
+        query.set("error", `${field.label}: the lower spec limit is above the upper one.`);
+        return res.redirect(`/experiments/${experimentId}/doe/${doeId}?${query.toString()}#contour`);
+      }
+      specs.push(entry);
+    }
+    const designMeta = parseDesignMetadata(getDesignMetadata(db, experimentId, doeId));
+    upsertDesignMetadata(db, experimentId, doeId, JSON.stringify({ ...designMeta, response_specs: specs }));
+    res.redirect(`/experiments/${experimentId}/doe/${doeId}?${query.toString()}#contour`);
+  });
+
+  router.post("/experiments/:id/doe/:doeId/response-transforms", (req, res) => {
+    if (!hasRole(req, ["admin", "manager", "engineer"])) {
+      return res.status(403).send("Forbidden");
+    }
+    const experimentId = Number(req.params.id);
+    const doeId = Number(req.params.doeId);
+    const doe = getDoeStudy(db, doeId);
+    if (!doe || doe.experiment_id !== experimentId) return res.status(404).send("DOE not found");
+    const query = new URLSearchParams({ tab: "analysis" });
+    const carried = ["output_param", "x_param", "y_param", "recipe_id", "rsm_model", "rsm_select", "rsm_alpha", "replicates"];
+    carried.forEach((key) => {
+      if (req.body[key] !== undefined && String(req.body[key]) !== "") query.set(key, String(req.body[key]));
+    });
+    const fieldId = Number(req.body.field_id);
+    const field = listActiveAnalysisFields(db, doeId).find(
+      (entry) => entry.id === fieldId && entry.field_type === "number"
+    );
+    if (!field) return res.status(400).send("Unknown response");
+    const kind = String(req.body.transform ?? "none") as TransformKind;
+    if (!TRANSFORM_KINDS.includes(kind)) return res.status(400).send("Unknown transform");
+    const lambdaRaw = String(req.body.lambda ?? "").trim();
+    const lambda = parseNumber(lambdaRaw);
+    if (kind === "boxcox" && lambdaRaw !== "" && !(Number.isFinite(lambda) && lambda >= -3 && lambda <= 3)) {
+      query.set("error", `${field.label}: the Box-Cox λ must be between -3 and 3 (blank for the optimal λ).`);
+      return res.redirect(`/experiments/${experimentId}/doe/${doeId}?${query.toString()}#surface`);
+    }
+    const designMeta = parseDesignMetadata(getDesignMetadata(db, experimentId, doeId));
+    const transforms: ResponseTransformSetting[] = [
+      ...readResponseTransforms(designMeta).filter((entry) => entry.field_id !== field.id),
+      ...(kind === "none"
+        ? []
+        : [{ field_id: field.id, kind, lambda: kind === "boxcox" && lambdaRaw !== "" ? lambda : null }])
+    ];
+    upsertDesignMetadata(db, experimentId, doeId, JSON.stringify({ ...designMeta, response_transforms: transforms }));
+    res.redirect(`/experiments/${experimentId}/doe/${doeId}?${query.toString()}#surface`);
+  });
+
+  // Profiler: the surface model at f_<paramId> settings (numbers, or level names for categorical factors).
+  router.get("/experiments/:id/doe/:doeId/predict", (req, res) => {
+    const experimentId = Number(req.params.id);
+    const doeId = Number(req.params.doeId);
+    const doe = getDoeStudy(db, doeId);
+    if (!doe || doe.experiment_id !== experimentId) return res.status(404).json({ error: "DOE not found" });
+    if (doe.design_type === "MIXTURE") {
+      return res.status(400).json({ error: "Mixture studies use the Scheffé model; the profiler covers process factors." });
+    }
+    const outputParamId = Number(req.query.output_param || 0);
+    const output = listActiveAnalysisFields(db, doeId).find(
+      (field) => field.id === outputParamId && field.field_type === "number"
+    );
+    if (!output) return res.status(400).json({ error: "output_param must be an active numeric response." });
+    const configs = listParamConfigs(db, experimentId, doeId);
+    const activeInputParams = listParamDefinitionsByKind(db, experimentId, "INPUT").filter(
+      (param) => configs.find((config) => config.param_def_id === param.id)?.active === 1
+    );
+    const designMeta = parseDesignMetadata(getDesignMetadata(db, experimentId, doeId));
+    const factors = surfaceFactorsFor(activeInputParams, configs, activeFactorLevels(activeInputParams, configs), designMeta);
+    const settings = new Map<number, number | string>();
+    for (const factor of factors) {
+      const raw = req.query[`f_${factor.paramId}`];
+      if (raw === undefined || String(raw) === "") continue;
+      if (factor.levels) {
+        if (!factor.levels.includes(String(raw))) {
+          return res.status(400).json({ error: `${factor.label}: unknown level "${String(raw)}".` });
+        }
+        settings.set(factor.paramId, String(raw));
+      } else {
+        const value = parseNumber(String(raw));
+        if (!Number.isFinite(value)) return res.status(400).json({ error: `${factor.label}: not a number.` });
+        settings.set(factor.paramId, value);
+      }
+    }
+    const recipeId = req.query.recipe_id ? Number(req.query.recipe_id) : null;
+    const allRuns = loadRuns(db, doeId);
+    const analysisValues = listAnalysisRunValuesByRunIds(db, allRuns.map((run) => run.id));
+    const analysisValueMap = new Map(analysisValues.map((row) => [`${row.run_id}:${row.field_id}`, row]));
+    const options = surfaceOptionsFromQuery(req.query, doe.design_type);
+    const replicateMode = replicateModeFromQuery(req.query);
+    const runs = filterRuns(allRuns, { recipeId });
+    const modelInput =
+      replicateMode === "runs"
+        ? { runs, analysisValueMap }
+        : replicateModelInput(runs, summarizeReplicates(runs, analysisValueMap, output.id), output.id, replicateMode);
+    const prediction = predictResponseSurface(
+      modelInput.runs,
+      modelInput.analysisValueMap,
+      output.id,
+      factors,
+      options,
+      settings,
+      replicateMode === "log_sd" ? NO_TRANSFORM : responseTransformFor(designMeta, output.id)
+    );
+    if (!prediction) {
+      return res.status(400).json({ error: "Not enough results to fit the model; pick a smaller model or enter more results." });
+    }
+    res.json({
+      response: { id: output.id, label: output.label, unit: output.unit },
+      model: options,
+      replicates: replicateMode,
+      ...prediction
+    });
+  });
+
+  router.post("/experiments/:id/doe/:doeId/runs/:runId/exclude", (req, res) => {
+    if (!hasRole(req, ["admin", "manager", "engineer"])) {
+      return res.status(403).send("Forbidden");
+    }
+    const experimentId = Number(req.params.id);
+    const doeId = Number(req.params.doeId);
+    const run = getRun(db, Number(req.params.runId));
+    if (!run || run.experiment_id !== experimentId || run.doe_id !== doeId) return res.status(404).send("Run not found");
+    const query = new URLSearchParams({ tab: "analysis" });
+    ["output_param", "rsm_model", "rsm_select", "rsm_alpha"].forEach((key) => {
+      if (req.body[key] !== undefined && String(req.body[key]) !== "") query.set(key, String(req.body[key]));
+    });
+    const reason = String(req.body.reason ?? "").trim().slice(0, 300);
+    if (!reason) {
+      query.set("error", `${run.run_code}: give a reason for excluding the run.`);
+      return res.redirect(`/experiments/${experimentId}/doe/${doeId}?${query.toString()}#diagnostics`);
+    }
+    excludeRunFromAnalysis(db, run.id, reason);
+    res.redirect(`/experiments/${experimentId}/doe/${doeId}?${query.toString()}#diagnostics`);
+  });
+
   router.post("/experiments/:id/doe/:doeId/generate", (req, res) => {
     if (!hasRole(req, ["admin", "manager", "engineer"])) {
       return res.status(403).send("Forbidden");
@@ -1173,16 +1972,68 @@ export function createExperimentsRouter(db: Db) {
     const inputParams = listParamDefinitionsByKind(db, experimentId, "INPUT");
     const configs = listParamConfigs(db, experimentId, doeId);
     const recipeIds = getExperimentRecipes(db, experimentId);
-    const runPreview = buildRunPreview(doe, inputParams, configs, recipeIds);
-    if (doe.design_type === "BBD" && runPreview.k < 3) {
-      const message =
-        runPreview.warning ||
-        `BBD needs at least 3 factors with 3 levels. Currently: ${runPreview.k}.`;
+    const designOptions = readDesignOptions(parseDesignMetadata(getDesignMetadata(db, experimentId, doeId)));
+    const constrained = previewConstrainedRuns(db, experimentId, doeId);
+    const runPreview = buildRunPreview(doe, inputParams, configs, recipeIds, designOptions, constrained);
+    const blocker = generationBlocker(doe, runPreview, constrained, designOptions);
+    if (blocker) {
       return res.redirect(
-        `/experiments/${experimentId}/doe/${doeId}?tab=design&error=${encodeURIComponent(message)}`
+        `/experiments/${experimentId}/doe/${doeId}?tab=design&error=${encodeURIComponent(blocker)}`
+      );
+    }
+    generateRuns(db, experimentId, doeId, req.body.mode === "keep_results" ? "keep_results" : "replace");
+    res.redirect(`/experiments/${experimentId}/doe/${doeId}?tab=runs`);
+  });
+
+  router.post("/experiments/:id/doe/:doeId/augment", (req, res) => {
+    if (!hasRole(req, ["admin", "manager", "engineer"])) {
+      return res.status(403).send("Forbidden");
+    }
+    const experimentId = Number(req.params.id);
+    const doeId = Number(req.params.doeId);
+    const doe = getDoeStudy(db, doeId);
+    if (!doe || doe.experiment_id !== experimentId) return res.status(404).send("DOE not found");
+    const kindRaw = String(req.body.augment_kind || "");
+    const kind = kindRaw === "axial" || kindRaw === "center" ? kindRaw : "fold_over";
+    const foldFactorId = parseNumber(req.body.fold_factor_id);
+    const centerPointsRaw = parseNumber(req.body.augment_center_points);
+    const centerPoints = Number.isFinite(centerPointsRaw) ? centerPointsRaw : 0;
+    const redirectWithError = (message: string) =>
+      res.redirect(`/experiments/${experimentId}/doe/${doeId}?tab=design&error=${encodeURIComponent(message)}`);
+    if (!listRuns(db, doeId).length) {
+      return redirectWithError("Generate the runlist before augmenting it.");
+    }
+    if (!Number.isInteger(centerPoints) || centerPoints < 0 || centerPoints > 20) {
+      return redirectWithError("Center points must be a whole number from 0 to 20.");
+    }
+    if (kind === "center" && centerPoints === 0) {
+      return redirectWithError("Add at least 1 center point.");
+    }
+    if (kind !== "fold_over" || centerPoints > 0) {
+      const categorical = listParamDefinitionsByKind(db, experimentId, "INPUT").find(
+        (param) =>
+          param.field_type === "text" &&
+          listParamConfigs(db, experimentId, doeId).some(
+            (config) => config.param_def_id === param.id && config.active === 1 && config.mode === "LIST"
+          )
+      );
+      if (categorical) {
+        return redirectWithError(`Categorical factor "${categorical.label}" has no center or axial levels; fold over without center points instead.`);
+      }
+    }
+    const added = augmentDesign(db, experimentId, doeId, {
+      kind,
+      foldFactorId: Number.isFinite(foldFactorId) ? foldFactorId : null,
+      alpha: req.body.augment_alpha === "rotatable" ? "rotatable" : "face",
+      centerPoints
+    });
+    if (!added) {
+      return redirectWithError(
+        kind === "fold_over"
+          ? "Nothing to fold over: the design has no two-level factorial points without a mirror image."
+          : "No factors with a min and max to augment."
       );
     }
-    generateRuns(db, experimentId, doeId);
     res.redirect(`/experiments/${experimentId}/doe/${doeId}?tab=runs`);
   });
 
@@ -1203,13 +2054,16 @@ export function createExperimentsRouter(db: Db) {
         const row: Record<string, string | number | null> = {
           run_code: run.run_code,
           run_order: run.run_order,
+          whole_plot: run.whole_plot ?? "",
+          block: run.block ?? "",
           recipe_id: run.recipe_id ?? "",
           done: run.done,
-          exclude_from_analysis: run.exclude_from_analysis
+          exclude_from_analysis: run.exclude_from_analysis,
+          exclude_reason: run.exclude_reason ?? ""
         };
         for (const param of params) {
           if (param.field_kind === "OUTPUT") continue;
-          const value = run.values[param.id];
+          const value = param.field_type === "text" ? run.texts[param.id] : run.values[param.id];
           row[param.code] = value ?? "";
         }
         for (const field of activeAnalysisFields) {
@@ -1246,7 +2100,7 @@ export function createExperimentsRouter(db: Db) {
         };
         for (const param of params) {
           if (param.field_kind === "OUTPUT") continue;
-          const value = run.values[param.id];
+          const value = param.field_type === "text" ? run.texts[param.id] : run.values[param.id];
           row[param.code] = value ?? "";
         }
         for (const field of activeAnalysisFields) {
@@ -1266,12 +2120,157 @@ export function createExperimentsRouter(db: Db) {
       return res.send(csv);
     }
 
+    if (type === "samples") {
+      // Raw per-part measurements, one row per sample, next to the aggregate the analysis used.
+      const fieldMap = new Map(activeAnalysisFields.map((field) => [field.id, field]));
+      const rows = listAnalysisRunSamplesByRunIds(db, runs.map((run) => run.id)).flatMap((sample) => {
+        const field = fieldMap.get(sample.field_id);
+        const run = runs.find((entry) => entry.id === sample.run_id);
+        if (!field || !run) return [];
+        return [
+          {
+            run_code: run.run_code,
+            run_order: run.run_order,
+            field: field.code,
+            sample_index: sample.sample_index,
+            cavity: sample.cavity ?? "",
+            value: sample.value_real ?? "",
+            aggregation: field.sample_aggregation,
+            run_value: analysisValueMap.get(`${run.id}:${field.id}`)?.value_real ?? ""
+          }
+        ];
+      });
+      const csv = toCsv(rows);
+      res.setHeader("Content-Type", "text/csv");
+      return res.send(csv);
+    }
+
+    if (type === "anova") {
+      // Same model as the analysis tab (all active non-fixed factors), one table per numeric output.
+      const configs = listParamConfigs(db, experimentId, doeId);
+      const activeInputParams = params.filter(
+        (param) =>
+          param.field_kind === "INPUT" && configs.find((config) => config.param_def_id === param.id)?.active === 1
+      );
+      const factorLevels = activeFactorLevels(activeInputParams, configs);
+      const usable = filterRuns(runs, {});
+      const rows: Array<Record<string, string | number>> = [];
+      const cell = (value: number | undefined) => (value != null && Number.isFinite(value) ? value : "");
+      for (const field of activeAnalysisFields.filter((entry) => entry.field_type === "number")) {
+        const anova = buildRegressionAnalysis(
+          usable,
+          analysisValueMap,
+          field.id,
+          modelFactorParams(activeInputParams, configs),
+          false,
+          factorLevels
+        ).anova;
+        if (!anova) continue;
+        const push = (source: string, entry: { df: number; ss: number; ms?: number; f?: number; p?: number }) =>
+          rows.push({
+            response: field.code,
+            source,
+            df: entry.df,
+            ss: cell(entry.ss),
+            ms: cell(entry.ms),
+            f: cell(entry.f),
+            p: cell(entry.p)
+          });
+        push("Model", anova.model);
+        anova.terms.forEach((term) => push(term.source, term));
+        push("Residual", anova.residual);
+        if (anova.lackOfFit) push("Lack of fit", anova.lackOfFit);
+        if (anova.pureError) push("Pure error", anova.pureError);
+        push("Total", anova.total);
+        rows.push({ response: field.code, source: "R2", df: "", ss: cell(anova.r2), ms: "", f: "", p: "" });
+        rows.push({ response: field.code, source: "Adj R2", df: "", ss: cell(anova.adjR2), ms: "", f: "", p: "" });
+        rows.push({ response: field.code, source: "Pred R2", df: "", ss: cell(anova.predR2), ms: "", f: "", p: "" });
+      }
+      const csv = toCsv(rows);
+      res.setHeader("Content-Type", "text/csv");
+      return res.send(csv);
+    }
+
     return res.status(400).send("Unknown export type");
   });
 
   return router;
 }
 
+// Response surface settings from the analysis query (rsm_model, rsm_select, rsm_alpha) with per-design defaults.
+function surfaceOptionsFromQuery(query: express.Request["query"], designType: string): SurfaceOptions {
+  const kindRaw = String(query.rsm_model || "");
+  const kind: ModelKind =
+    kindRaw === "main" || kindRaw === "interactions" || kindRaw === "quadratic"
+      ? kindRaw
+      : designType === "BBD" || designType === "CCD" || designType === "DSD"
+        ? "quadratic"
+        : "interactions";
+  const selectRaw = String(query.rsm_select || "");
+  const selection: TermSelection =
+    selectRaw === "backward" || selectRaw === "forward" || selectRaw === "stepwise" ? selectRaw : "none";
+  const alphaRaw = parseNumber(String(query.rsm_alpha ?? ""));
+  return { kind, selection, alpha: alphaRaw > 0 && alphaRaw < 1 ? alphaRaw : 0.1 };
+}
+
+// Factors the surface models use: active, not fixed, categorical ones with two or more levels.
+function surfaceFactorsFor(
+  activeInputParams: ParamDefinition[],
+  configs: ParamConfig[],
+  factorLevels: Map<number, string[]>,
+  designMeta: Record<string, unknown>
+): SurfaceFactor[] {
+  const coding = designCoding(
+    Array.isArray(designMeta.factors) ? (designMeta.factors as FactorConfig[]) : [],
+    Array.isArray(designMeta.codedLevels) ? (designMeta.codedLevels as Array<Record<number, number>>) : []
+  );
+  return activeInputParams
+    .filter((param) => configs.find((config) => config.param_def_id === param.id)?.mode !== "FIXED")
+    .filter((param) => !factorLevels.has(param.id) || factorLevels.get(param.id)!.length >= 2)
+    .map((param) => ({
+      paramId: param.id,
+      label: param.label,
+      levels: factorLevels.get(param.id) ?? null,
+      scale: coding.get(param.id) ?? null
+    }));
+}
+
+function replicateModeFromQuery(query: express.Request["query"]): ReplicateMode {
+  const raw = String(query.replicates || "");
+  return raw === "mean" || raw === "log_sd" ? raw : "runs";
+}
+
+// The saved transform of a response (none when unset); every model of that response fits on this scale.
+function responseTransformFor(designMeta: Record<string, unknown>, fieldId: number): ResponseTransform {
+  const setting = readResponseTransforms(designMeta).find((entry) => entry.field_id === fieldId);
+  return setting ? { kind: setting.kind, lambda: setting.lambda } : NO_TRANSFORM;
+}
+
+// Active factors the linear model fits; a FIXED factor is a constant column and would make X'X singular.
+function modelFactorParams(activeInputParams: ParamDefinition[], configs: ParamConfig[]) {
+  return activeInputParams.filter(
+    (param) => configs.find((config) => config.param_def_id === param.id)?.mode !== "FIXED"
+  );
+}
+
+// Level names of active categorical factors; design values of those factors are indices into them.
+function activeFactorLevels(activeInputParams: ParamDefinition[], configs: ParamConfig[]) {
+  const factorLevels = new Map<number, string[]>();
+  activeInputParams
+    .filter((param) => param.field_type === "text")
+    .forEach((param) => {
+      const config = configs.find((c) => c.param_def_id === param.id);
+      factorLevels.set(param.id, config ? categoricalLevels(config) ?? [] : []);
+    });
+  return factorLevels;
+}
+
+// Checkbox paired with a hidden "0" input: the body holds ["0", "1"] when checked.
+function checkboxChecked(raw: unknown): boolean {
+  const values = Array.isArray(raw) ? raw.map(String) : [String(raw)];
+  return values.includes("1");
+}
+
 function parseNumber(value: string | number | undefined) {
   if (value == null) return NaN;
   const raw = String(value).trim();
@@ -1304,8 +2303,11 @@ function buildRunPreview(
     range_max_real: number | null;
     list_json: string | null;
     level_count: number | null;
+    factor_role?: string;
   }>,
-  recipeIds: number[]
+  recipeIds: number[],
+  options: DesignOptions,
+  constrained: { errors: string[]; kept: number | null; excluded: number } | null = null
 ) {
   const configMap = new Map(configs.map((config) => [config.param_def_id, config]));
   const activeConfigs = inputParams
@@ -1340,7 +2342,20 @@ function buildRunPreview(
   let formula = "";
   let warning = "";
   let k = 0;
-  if (experiment.design_type === "SIM") {
+  if (experiment.design_type === "SIM" && options.sim_method !== "grid") {
+    k = activeConfigs.filter((config) => config.mode !== "FIXED").length;
+    const methodLabel = { lhs: "maximin Latin hypercube", sobol: "Sobol sequence", halton: "Halton sequence" }[
+      options.sim_method
+    ];
+    if (k === 0) {
+      warning = "Space-filling designs need at least 1 RANGE or LIST factor.";
+    } else if (options.sim_method === "sobol" && k > MAX_SPACE_FILLING_FACTORS) {
+      warning = `Sobol sequences support up to ${MAX_SPACE_FILLING_FACTORS} factors. Currently: ${k}.`;
+    } else {
+      baseRuns = options.sim_runs ?? defaultSpaceFillingRuns(k);
+    }
+    formula = `SIM: ${methodLabel}, ${options.sim_runs == null ? "10 × k" : "fixed"} = ${baseRuns} runs (k=${k})`;
+  } else if (experiment.design_type === "SIM") {
     const simLevels = activeConfigs.map((config) => {
       if (config.mode === "LIST") {
         const list = config.list_json ? (JSON.parse(config.list_json) as number[]) : [];
@@ -1351,10 +2366,14 @@ function buildRunPreview(
       }
       return 1;
     });
-    baseRuns = simLevels.length
+    const gridRuns = simLevels.length
       ? simLevels.reduce((acc, val) => acc * Math.max(val, 1), 1)
       : 0;
-    formula = `SIM: product(levels) = ${baseRuns}`;
+    baseRuns = Math.min(gridRuns, experiment.max_runs);
+    formula =
+      gridRuns > baseRuns
+        ? `SIM: product(levels) = ${gridRuns}, capped at ${baseRuns}`
+        : `SIM: product(levels) = ${baseRuns}`;
   } else if (experiment.design_type === "FFA") {
     baseRuns = levelCounts.length
       ? levelCounts.reduce((acc, val) => acc * Math.max(val, 1), 1)
@@ -1367,15 +2386,184 @@ function buildRunPreview(
     if (k < 3) {
       warning = `BBD needs at least 3 factors with 3 levels. Currently: ${k}. Set Levels=3 or use LIST with 3 values.`;
     }
+  } else if (experiment.design_type === "CCD") {
+    k = levelCounts.filter((count) => count >= 2).length;
+    const plan = ccdPlan(k, {
+      variant: options.ccd_variant,
+      alphaMode: options.ccd_alpha,
+      centerPoints: experiment.center_points || 0,
+      axialReplicates: options.ccd_axial_reps
+    });
+    if (plan) {
+      baseRuns = plan.runs;
+      const factorialLabel = plan.fraction.p > 0 ? `2^(${k}-${plan.fraction.p})` : `2^${k}`;
+      const axialLabel = options.ccd_axial_reps > 1 ? `${options.ccd_axial_reps}*2k` : "2k";
+      formula = `CCD (${plan.variant}): ${factorialLabel} + ${axialLabel} + center = ${plan.factorialRuns} + ${plan.axialRuns} + ${plan.centerRuns} = ${baseRuns} (k=${k}, α=${plan.alpha.toFixed(3)})`;
+      if (plan.variant === "CCC") {
+        warning = `CCC axial points sit at ±${plan.alpha.toFixed(3)} half-ranges, outside the RANGE limits. Use CCI to keep every run inside the limits.`;
+      }
+    } else {
+      formula = `CCD: 2^(k-p) + 2k + center (k=${k})`;
+      warning =
+        k < 2
+          ? `CCD needs at least 2 factors with a min and max. Currently: ${k}.`
+          : `CCD supports up to ${MAX_FRACTIONAL_FACTORS} factors. Currently: ${k}.`;
+    }
+  } else if (experiment.design_type === "PB") {
+    k = levelCounts.filter((count) => count >= 2).length;
+    const size = plackettBurmanRuns(k, options.pb_runs);
+    if (size) {
+      baseRuns = size;
+      formula = `PB: ${size} runs, ${size - 1} columns (k=${k}${size - 1 > k ? `, ${size - 1 - k} unused` : ""})`;
+    } else {
+      formula = `PB: 12/20/24 runs (k=${k})`;
+      warning =
+        k < 2
+          ? `Plackett–Burman needs at least 2 factors with a min and max. Currently: ${k}.`
+          : `Plackett–Burman supports up to 23 factors. Currently: ${k}.`;
+    }
+  } else if (experiment.design_type === "OPTIMAL") {
+    const optimalConfigs = activeConfigs.filter((_, idx) => levelCounts[idx] >= 2);
+    k = optimalConfigs.length;
+    const termCount = buildModelTerms(
+      optimalConfigs.map((_, idx) => String(idx)),
+      options.optimal_model,
+      optimalConfigs.map(categoricalLevels)
+    ).length;
+    baseRuns = k > 0 ? options.optimal_runs ?? defaultOptimalRuns(termCount) : 0;
+    const criterionLabel = options.optimal_criterion === "I" ? "I-optimal" : "D-optimal";
+    formula = `OPTIMAL (${criterionLabel}, ${options.optimal_model}): ${baseRuns} runs for ${termCount} model terms (k=${k})`;
+    if (options.optimal_forced_runs.length) {
+      formula += `, ${options.optimal_forced_runs.length} forced`;
+    }
+    if (options.optimal_include_done) {
+      formula += ", completed runs kept";
+    }
+    if (k === 0) {
+      warning = "OPTIMAL needs at least 1 factor with a min and max.";
+    } else if (!options.optimal_include_done && baseRuns < termCount) {
+      warning = `Run budget ${baseRuns} is below the ${termCount} model terms; the model cannot be estimated.`;
+      baseRuns = 0;
+    } else if (options.optimal_forced_runs.length > baseRuns) {
+      warning = `More forced runs (${options.optimal_forced_runs.length}) than the run budget (${baseRuns}).`;
+      baseRuns = 0;
+    }
+  } else if (experiment.design_type === "TAGUCHI") {
+    const controlLevels = levelCounts.filter((_, idx) => activeConfigs[idx].factor_role !== "NOISE");
+    const noiseLevels = levelCounts.filter((_, idx) => activeConfigs[idx].factor_role === "NOISE");
+    k = controlLevels.length;
+    const plan = taguchiPlan(controlLevels, noiseLevels, options.taguchi_array);
+    if (plan) {
+      baseRuns = plan.runs;
+      const outerLabel = plan.outer.name === "FULL" ? "full factorial" : plan.outer.name;
+      formula = noiseLevels.length
+        ? `TAGUCHI: ${plan.inner.name} inner (${plan.inner.runs}) × ${outerLabel} outer (${plan.outer.runs}) = ${baseRuns} (control=${k}, noise=${noiseLevels.length})`
+        : `TAGUCHI: ${plan.inner.name} = ${baseRuns} (control=${k}, no noise factors)`;
+    } else {
+      formula = `TAGUCHI: inner × outer (control=${k}, noise=${noiseLevels.length})`;
+      warning =
+        k === 0
+          ? "TAGUCHI needs at least 1 control factor."
+          : `No ${options.taguchi_array === "auto" ? "orthogonal array" : options.taguchi_array} fits ${k} control factors with 2 or 3 levels.`;
+    }
+  } else if (experiment.design_type === "MIXTURE") {
+    k = options.mixture_components.length;
+    const plan = mixturePlan(options.mixture_components, {
+      kind: options.mixture_kind,
+      degree: options.mixture_degree,
+      augment: options.mixture_augment
+    });
+    const kindLabel = {
+      lattice: `simplex lattice {${k},${options.mixture_degree}}`,
+      centroid: "simplex centroid",
+      extreme: options.mixture_degree >= 2 ? "extreme vertices + edge midpoints" : "extreme vertices"
+    }[options.mixture_kind];
+    if (plan) {
+      baseRuns = plan.points.length;
+      formula = `MIXTURE: ${kindLabel}${options.mixture_augment ? " + check blends" : ""} = ${baseRuns} blends (q=${k})`;
+      if (plan.excluded) {
+        warning = `${plan.excluded} lattice point${plan.excluded > 1 ? "s" : ""} exceed an upper bound and were dropped.`;
+      }
+    } else {
+      formula = `MIXTURE: ${kindLabel} (q=${k})`;
+      warning = !options.mixture_base_recipe_id
+        ? "Pick a base recipe to vary."
+        : k < 2
+          ? `Vary at least 2 recipe components. Currently: ${k}.`
+          : k > MAX_MIXTURE_COMPONENTS
+            ? `Mixture designs support up to ${MAX_MIXTURE_COMPONENTS} components. Currently: ${k}.`
+            : "No feasible blend: lower bounds must sum to at most 100% and upper bounds to at least 100%.";
+    }
+  } else if (experiment.design_type === "DSD") {
+    k = levelCounts.filter((count) => count >= 2).length;
+    const plan = dsdPlan(k);
+    if (plan) {
+      baseRuns = plan.runs;
+      formula = `DSD: 2m+1 = 2*${plan.m}+1 = ${baseRuns} (k=${k}${plan.fakeFactors ? `, ${plan.fakeFactors} fake factor${plan.fakeFactors > 1 ? "s" : ""}` : ""})`;
+    } else {
+      formula = `DSD: 2m+1 (k=${k})`;
+      warning =
+        k < 3
+          ? `Definitive screening needs at least 3 factors with a min and max. Currently: ${k}.`
+          : `Definitive screening supports up to ${MAX_DSD_FACTORS} factors. Currently: ${k}.`;
+    }
   } else {
-    const k = levelCounts.length;
-    const fullCombos = k > 0 ? Math.pow(2, k) : 0;
-    baseRuns = Math.min(experiment.max_runs || fullCombos, fullCombos);
-    formula = `SCREEN: min(max_runs, 2^k) = ${baseRuns} (k=${k})`;
+    k = levelCounts.filter((count) => count >= 2).length;
+    const plan = fractionalPlan(k, options.resolution, options.fold_over);
+    if (plan) {
+      baseRuns = plan.runs;
+      const resolutionLabel = plan.resolution == null ? "full" : `Res ${romanResolution(plan.resolution)}`;
+      const foldLabel = options.fold_over && plan.p > 0 ? " × 2 fold-over" : "";
+      formula = `SCREEN: 2^(k-p) = 2^(${k}-${plan.p})${foldLabel} = ${baseRuns} (${resolutionLabel})`;
+    } else {
+      formula = `SCREEN: 2^(k-p) (k=${k})`;
+      warning =
+        k < 2
+          ? `SCREEN needs at least 2 factors with 2 levels. Currently: ${k}.`
+          : `SCREEN supports up to ${MAX_FRACTIONAL_FACTORS} factors. Currently: ${k}.`;
+    }
+  }
+
+  if (constrained?.errors.length) {
+    warning = `Fix the constraints first: ${constrained.errors.join(" ")}`;
+  } else if (constrained && constrained.kept != null && baseRuns > 0) {
+    formula += ` → ${constrained.kept} within constraints`;
+    baseRuns = constrained.kept;
+    if (constrained.kept === 0) {
+      warning = "Every design point breaks a constraint.";
+    } else if (constrained.excluded > 0) {
+      const note = `${constrained.excluded} design point${constrained.excluded > 1 ? "s" : ""} excluded by constraints; the design is no longer balanced.`;
+      warning = warning ? `${warning} ${note}` : note;
+    }
+  }
+
+  const splitPlotOn =
+    options.split_plot && experiment.design_type !== "TAGUCHI" && experiment.design_type !== "MIXTURE";
+  const hardCount = activeConfigs.filter((config) => config.factor_role === "HARD").length;
+  if (splitPlotOn) {
+    if (hardCount) {
+      formula += `; split-plot on ${hardCount} hard-to-change factor${hardCount > 1 ? "s" : ""}`;
+      if (options.split_plot_size) formula += `, whole plots of at most ${options.split_plot_size} runs`;
+    } else {
+      const note = "Split-plot is on but no active factor is marked hard-to-change; runs will be fully randomized.";
+      warning = warning ? `${warning} ${note}` : note;
+    }
+  }
+
+  if (options.run_order === "changeover" && !(splitPlotOn && hardCount)) {
+    const timed = activeConfigs.filter((config) => options.changeover_minutes[config.param_def_id] != null).length;
+    if (timed) {
+      formula += `; ordered to minimize changeover on ${timed} factor${timed > 1 ? "s" : ""}`;
+    } else {
+      const note = "Changeover ordering is on but no active factor has a changeover time; runs will be fully randomized.";
+      warning = warning ? `${warning} ${note}` : note;
+    }
   }
 
   const recipeMultiplier =
-    experiment.recipe_as_block === 1 && recipeIds.length > 0 ? recipeIds.length : 1;
+    experiment.recipe_as_block === 1 && recipeIds.length > 0 && experiment.design_type !== "MIXTURE"
+      ? recipeIds.length
+      : 1;
   const replicateMultiplier = Math.max(experiment.replicate_count || 1, 1);
   const totalRuns = baseRuns * recipeMultiplier * replicateMultiplier;
 
@@ -1390,6 +2578,38 @@ function buildRunPreview(
   };
 }
 
+// Why the runlist cannot be generated with the current settings, or null when it can.
+function generationBlocker(
+  doe: { design_type: string },
+  runPreview: ReturnType<typeof buildRunPreview>,
+  constrained: ReturnType<typeof previewConstrainedRuns>,
+  designOptions: DesignOptions
+): string | null {
+  if (constrained && (constrained.errors.length || constrained.kept === 0)) {
+    return runPreview.warning;
+  }
+  if (doe.design_type === "BBD" && runPreview.k < 3) {
+    return runPreview.warning || `BBD needs at least 3 factors with 3 levels. Currently: ${runPreview.k}.`;
+  }
+  const plannedDesign =
+    ["SCREEN", "CCD", "PB", "DSD", "OPTIMAL", "TAGUCHI", "MIXTURE"].includes(doe.design_type) ||
+    (doe.design_type === "SIM" && designOptions.sim_method !== "grid");
+  if (plannedDesign && runPreview.baseRuns === 0) {
+    return runPreview.warning;
+  }
+  return null;
+}
+
+// Level names of a categorical (text) factor's config; null for numeric configs.
+function categoricalLevels(config: { list_json: string | null }): string[] | null {
+  const list = config.list_json ? (JSON.parse(config.list_json) as unknown[]) : [];
+  return list.length && list.every((value) => typeof value === "string") ? (list as string[]) : null;
+}
+
+function romanResolution(resolution: number) {
+  return ["", "I", "II", "III", "IV", "V", "VI", "VII", "VIII"][resolution] ?? String(resolution);
+}
+
 function parseDesignMetadata(jsonBlob: string | null): Record<string, unknown> {
   if (!jsonBlob) return {};
   try {
@@ -7,9 +7,13 @@ import { listParamDefinitionsByKind, listParamDefinitions, listParamConfigs } fr
 import { getRecipe, getRecipeComponents } from "../repos/recipes_repo.js";
 import {
   listActiveAnalysisFields,
+  listAnalysisRunSamplesByRunIds,
   listAnalysisRunValuesByRunId,
   upsertAnalysisRunValue
 } from "../repos/analysis_repo.js";
+import type { AnalysisRunSample } from "../repos/analysis_repo.js";
+import { saveRunSamples } from "../services/experiments_service.js";
+import { MAX_SAMPLES_PER_RUN } from "../domain/samples.js";
 
 export function createRunsRouter(db: Db) {
   const router = express.Router();
@@ -28,7 +32,16 @@ export function createRunsRouter(db: Db) {
 
     const doeId = run.doe_id ?? 0;
     const analysisFields = listActiveAnalysisFields(db, doeId);
+    const storedSampleFields = new Set(listAnalysisRunSamplesByRunIds(db, [runId]).map((sample) => sample.field_id));
     for (const field of analysisFields) {
+      if (field.field_type === "number" && field.sample_count > 1) {
+        const samples = samplesFromBody(req.body, field.id);
+        // A run measured before sampling was enabled keeps its single value until samples are entered.
+        if (samples && (samples.length || storedSampleFields.has(field.id))) {
+          saveRunSamples(db, runId, field, samples);
+        }
+        continue;
+      }
       const fieldName = `analysis_${field.id}`;
       if (!Object.prototype.hasOwnProperty.call(req.body, fieldName)) continue;
       const rawValue = (req.body as Record<string, unknown>)[fieldName];
@@ -101,6 +114,10 @@ export function createRunsRouter(db: Db) {
     const analysisFields = listActiveAnalysisFields(db, doeId);
     const analysisValues = listAnalysisRunValuesByRunId(db, run.id);
     const analysisValueMap = new Map(analysisValues.map((row) => [row.field_id, row]));
+    const sampleMap = new Map<number, AnalysisRunSample[]>();
+    listAnalysisRunSamplesByRunIds(db, [run.id]).forEach((sample) => {
+      sampleMap.set(sample.field_id, [...(sampleMap.get(sample.field_id) || []), sample]);
+    });
     const analysisFieldsWithOptions = analysisFields.map((field) => {
       let allowedValues: string[] = [];
       if (field.allowed_values_json) {
@@ -137,6 +154,7 @@ export function createRunsRouter(db: Db) {
         fields
       })),
       analysisValueMap,
+      sampleMap,
       recipe,
       components,
       experimentId,
@@ -152,3 +170,21 @@ export function createRunsRouter(db: Db) {
 
   return router;
 }
+
+// Sample rows posted as sample_<fieldId>_<n> with an optional cavity_<fieldId>_<n>; rows without a value are
+// dropped. Null when the form carried no sample inputs for the field.
+function samplesFromBody(body: Record<string, unknown>, fieldId: number) {
+  const samples: Array<Pick<AnalysisRunSample, "sample_index" | "cavity" | "value_real">> = [];
+  let posted = false;
+  for (let index = 1; index <= MAX_SAMPLES_PER_RUN; index += 1) {
+    const name = `sample_${fieldId}_${index}`;
+    if (!Object.prototype.hasOwnProperty.call(body, name)) continue;
+    posted = true;
+    const raw = String(body[name] ?? "").trim();
+    const value = raw === "" ? NaN : Number(raw);
+    if (!Number.isFinite(value)) continue;
+    const cavity = Number(String(body[`cavity_${fieldId}_${index}`] ?? "").trim() || NaN);
+    samples.push({ sample_index: index, cavity: Number.isInteger(cavity) ? cavity : null, value_real: value });
+  }
+  return posted ? samples : null;
+}
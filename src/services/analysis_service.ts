@@ -1,5 +1,20 @@
 import type { Db } from "../db.js";
-import { mean, sd, linearRegression } from "../domain/stats.js";
+import { mean, sd, linearRegression, normalQuantile, signalToNoise, tCritical, chiSquarePValue } from "../domain/stats.js";
+import type { SignalToNoiseType } from "../domain/stats.js";
+import { buildModelTerms, buildScheffeTerms, modelRow } from "../domain/models.js";
+import type { ModelKind, ScheffeOrder } from "../domain/models.js";
+import { anovaTable, fitLeastSquares, fitSplitPlot, residualDiagnostics } from "../domain/regression.js";
+import type { ResidualDiagnostic } from "../domain/regression.js";
+import { independentColumns, modelEffects, selectEffects, uncodedCoefficients } from "../domain/rsm.js";
+import type { TermSelection } from "../domain/rsm.js";
+import { individualDesirability, maximizeOverBox, overallDesirability } from "../domain/desirability.js";
+import type { GoalKind, ResponseGoal, SearchDimension } from "../domain/desirability.js";
+import { dot, matVec } from "../domain/matrix.js";
+import { screeningEffects } from "../domain/effects.js";
+import { fitLogistic, logistic } from "../domain/logistic.js";
+import { contourLevels, contourSegments } from "../domain/contour.js";
+import { applyTransform, boxCoxLambda, inverseTransform, NO_TRANSFORM, transformIssue } from "../domain/transforms.js";
+import type { ResponseTransform } from "../domain/transforms.js";
 import type { ParamDefinition } from "../repos/params_repo.js";
 
 export type AnalysisValueRow = {
@@ -22,18 +37,24 @@ export type RunRow = {
   run_code: string;
   recipe_id: number | null;
   doe_id: number | null;
+  whole_plot: number | null;
+  block: number | null;
+  replicate_key: string | null;
   exclude_from_analysis: number;
+  exclude_reason: string | null;
   done: number;
   values: Record<number, number | null>;
+  // Level names of categorical (text) inputs.
+  texts: Record<number, string>;
   tags: Record<number, string[]>;
 };
 
 export function loadRuns(db: Db, doeId: number): RunRow[] {
   const rows = db
     .prepare(
-      `SELECT r.id, r.run_order, r.run_code, r.recipe_id, r.exclude_from_analysis, r.done,
-              r.doe_id,
-              rv.param_def_id, rv.value_real, rv.value_tags_json
+      `SELECT r.id, r.run_order, r.run_code, r.recipe_id, r.exclude_from_analysis, r.exclude_reason, r.done,
+              r.doe_id, r.whole_plot, r.block, r.replicate_key,
+              rv.param_def_id, rv.value_real, rv.value_text, rv.value_tags_json
        FROM runs r
        LEFT JOIN run_values rv ON rv.run_id = r.id
        WHERE r.doe_id = ?
@@ -45,10 +66,15 @@ export function loadRuns(db: Db, doeId: number): RunRow[] {
     run_code: string;
     recipe_id: number | null;
     doe_id: number | null;
+    whole_plot: number | null;
+    block: number | null;
+    replicate_key: string | null;
     exclude_from_analysis: number;
+    exclude_reason: string | null;
     done: number;
     param_def_id: number | null;
     value_real: number | null;
+    value_text: string | null;
     value_tags_json: string | null;
   }>;
 
@@ -61,15 +87,21 @@ export function loadRuns(db: Db, doeId: number): RunRow[] {
         run_code: row.run_code,
         recipe_id: row.recipe_id,
         doe_id: row.doe_id,
+        whole_plot: row.whole_plot,
+        block: row.block,
+        replicate_key: row.replicate_key,
         exclude_from_analysis: row.exclude_from_analysis,
+        exclude_reason: row.exclude_reason,
         done: row.done,
         values: {},
+        texts: {},
         tags: {}
       });
     }
     const run = map.get(row.id)!;
     if (row.param_def_id != null) {
       run.values[row.param_def_id] = row.value_real;
+      if (row.value_text != null) run.texts[row.param_def_id] = row.value_text;
       if (row.value_tags_json) {
         run.tags[row.param_def_id] = JSON.parse(row.value_tags_json);
       }
@@ -91,6 +123,80 @@ export function filterRuns(runs: RunRow[], filter: AnalysisFilter, defectParamId
   });
 }
 
+// How the single-response models see replicated runs: each run, or one row per design point
+// carrying the point's mean or ln(SD).
+export type ReplicateMode = "runs" | "mean" | "log_sd";
+
+/**
+ * Replicated design points: runs with a result grouped by replicate key (same settings, and recipe when
+ * recipes are blocks), with the mean, standard deviation and ln(SD) of the response per point. Pure
+ * error pools the spread within points, an estimate of shot-to-shot noise free of model error.
+ */
+export function summarizeReplicates(
+  runs: RunRow[],
+  analysisValueMap: Map<string, AnalysisValueRow>,
+  outputFieldId: number
+) {
+  const groups = new Map<string, RunRow[]>();
+  runs
+    .filter((run) => analysisValueMap.get(`${run.id}:${outputFieldId}`)?.value_real != null)
+    .forEach((run) => {
+      const key = run.replicate_key ?? `run:${run.id}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(run);
+    });
+  const points = Array.from(groups.entries()).map(([key, members]) => {
+    const values = members.map((run) => analysisValueMap.get(`${run.id}:${outputFieldId}`)!.value_real as number);
+    const spread = sd(values);
+    return {
+      key,
+      runId: members[0].id,
+      runCodes: members.map((run) => run.run_code),
+      values: members[0].values,
+      texts: members[0].texts,
+      n: values.length,
+      mean: mean(values),
+      sd: spread,
+      logSd: spread > 0 ? Math.log(spread) : NaN
+    };
+  });
+  const replicated = points.filter((point) => point.n >= 2);
+  const ss = replicated.reduce((acc, point) => acc + (point.n - 1) * point.sd ** 2, 0);
+  const df = replicated.reduce((acc, point) => acc + point.n - 1, 0);
+  return {
+    points,
+    replicated: replicated.length,
+    pureError: df > 0 ? { ss, df, ms: ss / df, sd: Math.sqrt(ss / df) } : null
+  };
+}
+
+// Model input for an aggregated mode: one row per design point (the first run's settings, every run
+// code) with the point's mean or ln(SD) as the response. ln(SD) needs two or more runs with spread.
+export function replicateModelInput(
+  runs: RunRow[],
+  summary: ReturnType<typeof summarizeReplicates>,
+  outputFieldId: number,
+  mode: Exclude<ReplicateMode, "runs">
+) {
+  const points = mode === "log_sd" ? summary.points.filter((point) => Number.isFinite(point.logSd)) : summary.points;
+  const byId = new Map(runs.map((run) => [run.id, run]));
+  return {
+    runs: points.map((point) => ({ ...byId.get(point.runId)!, run_code: point.runCodes.join(", ") })),
+    analysisValueMap: new Map<string, AnalysisValueRow>(
+      points.map((point) => [
+        `${point.runId}:${outputFieldId}`,
+        {
+          run_id: point.runId,
+          field_id: outputFieldId,
+          value_real: mode === "mean" ? point.mean : point.logSd,
+          value_text: null,
+          value_tags_json: null
+        }
+      ])
+    )
+  };
+}
+
 export function summarizeByFactor(
   runs: RunRow[],
   outputParamId: number,
@@ -140,6 +246,36 @@ export function summarizeByFactorAnalysis(
   return summary;
 }
 
+// Output summary per level of a categorical input, in the configured level order (unlisted levels last).
+export function summarizeByLevelAnalysis(
+  runs: RunRow[],
+  analysisValueMap: Map<string, AnalysisValueRow>,
+  outputFieldId: number,
+  factorParamId: number,
+  levelOrder: string[] = []
+) {
+  const groups = new Map<string, number[]>();
+  for (const run of runs) {
+    const level = run.texts[factorParamId];
+    const outputValue = analysisValueMap.get(`${run.id}:${outputFieldId}`)?.value_real;
+    if (level == null || outputValue == null) continue;
+    if (!groups.has(level)) groups.set(level, []);
+    groups.get(level)!.push(outputValue);
+  }
+  const rank = (level: string) => {
+    const idx = levelOrder.indexOf(level);
+    return idx >= 0 ? idx : levelOrder.length;
+  };
+  return Array.from(groups.entries())
+    .map(([factor, values]) => ({
+      factor,
+      mean: mean(values),
+      sd: sd(values),
+      n: values.length
+    }))
+    .sort((a, b) => rank(a.factor) - rank(b.factor) || a.factor.localeCompare(b.factor));
+}
+
 export function summarizeHeatmap(
   runs: RunRow[],
   outputParamId: number,
@@ -217,33 +353,962 @@ export function buildRegression(
   return linearRegression(y, x);
 }
 
+// With blockTerm, runs from augmentation blocks get one indicator column per block after the first
+// (unblocked runs count as block 1), and blockEffects holds each block's shift from block 1.
+// Categorical (text) factors are dummy-coded against their first level (levelOrder, else the first
+// observed); levelEffects gives each level's n, mean and adjusted shift from that reference level.
+// anova tests each factor (and the block term) with pure error from runs sharing a replicate key.
+// The fit is on the transformed response; level means stay in original units.
 export function buildRegressionAnalysis(
   runs: RunRow[],
   analysisValueMap: Map<string, AnalysisValueRow>,
   outputFieldId: number,
-  factors: ParamDefinition[]
+  factors: ParamDefinition[],
+  blockTerm = false,
+  levelOrder: Map<number, string[]> = new Map(),
+  transform: ResponseTransform = NO_TRANSFORM
+) {
+  const usable = runs.filter(
+    (run) =>
+      analysisValueMap.get(`${run.id}:${outputFieldId}`)?.value_real != null &&
+      factors.every((factor) =>
+        factor.field_type === "text" ? run.texts[factor.id] != null : run.values[factor.id] != null
+      )
+  );
+  const y = usable.map((run) => analysisValueMap.get(`${run.id}:${outputFieldId}`)!.value_real as number);
+  const categorical = factors
+    .filter((factor) => factor.field_type === "text")
+    .map((factor) => {
+      const observed = Array.from(new Set(usable.map((run) => run.texts[factor.id])));
+      const order = levelOrder.get(factor.id) ?? [];
+      const levels = [...order.filter((level) => observed.includes(level)), ...observed.filter((level) => !order.includes(level))];
+      return { factor, levels };
+    });
+  const x = usable.map((run) => [
+    1,
+    ...factors.flatMap((factor) => {
+      const entry = categorical.find((item) => item.factor.id === factor.id);
+      if (!entry) return [run.values[factor.id] as number];
+      return entry.levels.slice(1).map((level) => (run.texts[factor.id] === level ? 1 : 0));
+    })
+  ]);
+  const labels = [
+    "Intercept",
+    ...factors.flatMap((factor) => {
+      const entry = categorical.find((item) => item.factor.id === factor.id);
+      return entry ? entry.levels.slice(1).map((level) => `${factor.label}[${level}]`) : [factor.label];
+    })
+  ];
+  const columnCount = labels.length;
+  const blocks = usable.map((run) => run.block ?? 1);
+  const blockLevels = blockTerm ? Array.from(new Set(blocks)).sort((a, b) => a - b).slice(1) : [];
+  if (blockLevels.length) {
+    x.forEach((row, idx) => blockLevels.forEach((level) => row.push(blocks[idx] === level ? 1 : 0)));
+  }
+  const response = transformResponse(y, x, transform);
+  const empty = {
+    coefficients: [],
+    r2: NaN,
+    terms: [],
+    anova: null,
+    blockEffects: [],
+    levelEffects: [],
+    transform: response.transform
+  };
+  const z = response.values;
+  if (!z || y.length < columnCount + blockLevels.length + 1) return empty;
+  const fit = fitLeastSquares(x, z);
+  if (!fit) return empty;
+  const coefficients = fit.coefficients;
+
+  let column = 1;
+  const termColumns: Array<{ label: string; columns: number[] }> = [];
+  const levelEffects: Array<{
+    paramId: number;
+    label: string;
+    levels: Array<{ level: string; n: number; mean: number; effect: number }>;
+  }> = [];
+  for (const factor of factors) {
+    const entry = categorical.find((item) => item.factor.id === factor.id);
+    const width = entry ? entry.levels.length - 1 : 1;
+    termColumns.push({ label: factor.label, columns: Array.from({ length: width }, (_, idx) => column + idx) });
+    if (entry) {
+      const firstColumn = column;
+      levelEffects.push({
+        paramId: factor.id,
+        label: factor.label,
+        levels: entry.levels.map((level, idx) => {
+          const values = y.filter((_, row) => usable[row].texts[factor.id] === level);
+          return {
+            level,
+            n: values.length,
+            mean: mean(values),
+            effect: idx === 0 ? 0 : coefficients[firstColumn + idx - 1]
+          };
+        })
+      });
+    }
+    column += width;
+  }
+  if (blockLevels.length) {
+    termColumns.push({ label: "Block", columns: blockLevels.map((_, idx) => columnCount + idx) });
+  }
+  const groups = usable.map((run, idx) => `${run.replicate_key ?? `run:${run.id}`}|${x[idx].join(",")}`);
+  return {
+    coefficients,
+    r2: fit.r2,
+    terms: [...labels, ...blockLevels.map((level) => `Block ${level}`)].map((label, idx) => ({
+      label,
+      coefficient: coefficients[idx],
+      se: fit.standardErrors[idx],
+      t: fit.tValues[idx],
+      p: fit.pValues[idx]
+    })),
+    anova: anovaTable(x, z, termColumns.filter((term) => term.columns.length > 0), groups),
+    blockEffects: blockLevels.map((level, idx) => ({
+      block: level,
+      effect: coefficients[columnCount + idx]
+    })),
+    levelEffects,
+    transform: response.transform
+  };
+}
+
+export type SurfaceFactor = {
+  paramId: number;
+  label: string;
+  // Level names of a categorical factor (dummy-coded against the first), null for a numeric one.
+  levels: string[] | null;
+  // The design's coding (low/high to -1/+1); null codes over the observed span instead.
+  scale: { center: number; half: number } | null;
+};
+
+export type SurfaceOptions = { kind: ModelKind; selection: TermSelection; alpha: number };
+
+// The response on the model's scale. Box-Cox without a fixed λ takes the likelihood-optimal λ for the
+// model columns x (estimated for any positive response, as a hint); values outside the transform's
+// range leave values null and give the reason.
+function transformResponse(y: number[], x: number[][], transform: ResponseTransform) {
+  const issue = transformIssue(transform.kind, y);
+  const boxCox = boxCoxLambda(x, y);
+  const lambda = transform.kind === "boxcox" ? (transform.lambda ?? boxCox?.lambda ?? 1) : null;
+  return {
+    transform: { kind: transform.kind, lambda, issue, boxCox },
+    values: issue ? null : y.map((value) => applyTransform(transform.kind, lambda ?? 1, value))
+  };
+}
+
+// Coded settings of the runs (categorical factors as level index) and the coding used per factor.
+function codeSurfaceRuns(usable: RunRow[], factors: SurfaceFactor[]) {
+  const scales = factors.map((factor) => {
+    if (factor.levels) return null;
+    if (factor.scale) return { ...factor.scale, source: "design" as const };
+    const values = usable.map((run) => run.values[factor.paramId] as number);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return { center: (min + max) / 2, half: (max - min) / 2 || 1, source: "observed" as const };
+  });
+  const coded = usable.map((run) =>
+    factors.map((factor, idx) =>
+      factor.levels
+        ? factor.levels.indexOf(run.texts[factor.paramId])
+        : ((run.values[factor.paramId] as number) - scales[idx]!.center) / scales[idx]!.half
+    )
+  );
+  return { scales, coded };
+}
+
+// Everything the surface card and the optimizer share: the coding, the selected terms and the fit
+// (on the transformed response; y stays in original units).
+function fitResponseSurface(
+  runs: RunRow[],
+  analysisValueMap: Map<string, AnalysisValueRow>,
+  outputFieldId: number,
+  factors: SurfaceFactor[],
+  options: SurfaceOptions,
+  responseTransform: ResponseTransform = NO_TRANSFORM
+) {
+  const usable = runs.filter(
+    (run) =>
+      analysisValueMap.get(`${run.id}:${outputFieldId}`)?.value_real != null &&
+      factors.every((factor) =>
+        factor.levels ? factor.levels.includes(run.texts[factor.paramId]) : run.values[factor.paramId] != null
+      )
+  );
+  const y = usable.map((run) => analysisValueMap.get(`${run.id}:${outputFieldId}`)!.value_real as number);
+  const { scales, coded } = codeSurfaceRuns(usable, factors);
+  const labels = factors.map((factor) => factor.label);
+  const allTerms = buildModelTerms(labels, options.kind, factors.map((factor) => factor.levels));
+  const allX = coded.map((row) => modelRow(allTerms, row));
+  const estimable = usable.length ? independentColumns(allX) : [];
+  const aliased = allTerms.filter((_, idx) => !estimable.includes(idx)).map((term) => term.label);
+  const terms = estimable.map((idx) => allTerms[idx]);
+  const x = allX.map((row) => estimable.map((idx) => row[idx]));
+  const effects = modelEffects(terms, labels);
+  const { transform, values: z } = transformResponse(y, x, responseTransform);
+  const base = { usable, y, z: z ?? [], transform, scales, coded, aliased };
+  if (!z || estimable[0] !== 0 || y.length <= terms.length) {
+    return { ...base, steps: [], removed: [], model: null };
+  }
+
+  const { kept, steps } = selectEffects(x, z, effects, options.selection, options.alpha);
+  const columns = [0, ...effects.flatMap((effect, idx) => (kept[idx] ? effect.columns : []))].sort((a, b) => a - b);
+  const finalTerms = columns.map((column) => terms[column]);
+  const finalX = x.map((row) => columns.map((column) => row[column]));
+  const fit = fitLeastSquares(finalX, z);
+  const removed = effects.filter((_, idx) => !kept[idx]).map((effect) => effect.label);
+  if (!fit) return { ...base, steps, removed, model: null };
+  const keptEffects = effects.filter((_, idx) => kept[idx]);
+  return {
+    ...base,
+    steps,
+    removed,
+    model: {
+      terms: finalTerms,
+      x: finalX,
+      fit,
+      effects: keptEffects.map((effect) => ({
+        label: effect.label,
+        columns: effect.columns.map((column) => columns.indexOf(column))
+      }))
+    }
+  };
+}
+
+// Blom normal scores of the studentized residuals for the normal probability plot (NaN stays NaN).
+function diagnosticsWithScores(diagnostics: ResidualDiagnostic[]) {
+  const ranked = diagnostics
+    .map((entry, idx) => ({ idx, value: entry.studentized }))
+    .filter((entry) => Number.isFinite(entry.value))
+    .sort((a, b) => a.value - b.value);
+  const scores = new Map(
+    ranked.map((entry, rank) => [entry.idx, normalQuantile((rank + 1 - 0.375) / (ranked.length + 0.25))])
+  );
+  return diagnostics.map((entry, idx) => ({ ...entry, normalScore: scores.get(idx) ?? NaN }));
+}
+
+// Prediction of a fitted surface at a point in original units (categorical factors by level index),
+// with 95% confidence interval for the mean and prediction interval for a single run. Values are
+// back-transformed to the response's units (for a transformed response, the median rather than the mean).
+function predictSurface(surface: ReturnType<typeof fitResponseSurface>, point: number[]) {
+  const { terms, fit } = surface.model!;
+  const coded = point.map((value, idx) => {
+    const scale = surface.scales[idx];
+    return scale ? (value - scale.center) / scale.half : value;
+  });
+  const row = modelRow(terms, coded);
+  const value = dot(row, fit.coefficients);
+  const mse = fit.rmse ** 2;
+  const leverage = dot(row, matVec(fit.covarianceUnscaled, row));
+  const t = tCritical(0.05, fit.dfResidual);
+  const ciHalf = t * Math.sqrt(mse * leverage);
+  const piHalf = t * Math.sqrt(mse * (1 + leverage));
+  const { kind, lambda } = surface.transform;
+  const back = (modelValue: number) => inverseTransform(kind, lambda ?? 1, modelValue);
+  // Decreasing transforms (reciprocal, negative powers) swap the interval ends.
+  const interval = (half: number) => [back(value - half), back(value + half)].sort((a, b) => a - b);
+  return { value: back(value), ci: interval(ciHalf), pi: interval(piHalf) };
+}
+
+/**
+ * Response surface model on coded factors: main effects, two-factor interactions and (for numeric
+ * factors with three or more settings) squares, reduced by hierarchical term selection. Terms the
+ * runs cannot separate from earlier ones are dropped as aliased before selection. Coefficients are
+ * reported on the coded scale and, when the reduced model is hierarchical, in original units. A
+ * response transform applies to everything here (coefficients, ANOVA, residuals).
+ */
+export function buildResponseSurface(
+  runs: RunRow[],
+  analysisValueMap: Map<string, AnalysisValueRow>,
+  outputFieldId: number,
+  factors: SurfaceFactor[],
+  options: SurfaceOptions,
+  transform: ResponseTransform = NO_TRANSFORM
+) {
+  const surface = fitResponseSurface(runs, analysisValueMap, outputFieldId, factors, options, transform);
+  const coding = factors.map((factor, idx) => ({
+    label: factor.label,
+    ...(surface.scales[idx] ?? { center: null, half: null, source: "levels" as const })
+  }));
+  const base = {
+    n: surface.usable.length,
+    kind: options.kind,
+    selection: options.selection,
+    alpha: options.alpha,
+    transform: surface.transform,
+    coding,
+    aliased: surface.aliased,
+    steps: surface.steps,
+    removed: surface.removed
+  };
+  if (!surface.model) return { ...base, fit: null };
+  const { terms, fit, x, effects } = surface.model;
+  const uncoded = uncodedCoefficients(
+    terms,
+    fit.coefficients,
+    surface.scales.map((scale) => (scale ? { center: scale.center, half: scale.half } : null))
+  );
+  const groups = surface.usable.map(
+    (run, idx) => `${run.replicate_key ?? `run:${run.id}`}|${surface.coded[idx].join(",")}`
+  );
+  return {
+    ...base,
+    fit: {
+      terms: terms.map((term, idx) => ({
+        label: term.label,
+        coefficient: fit.coefficients[idx],
+        se: fit.standardErrors[idx],
+        t: fit.tValues[idx],
+        p: fit.pValues[idx],
+        uncoded: uncoded ? uncoded[idx] : null
+      })),
+      anova: anovaTable(x, surface.z, effects, groups),
+      hierarchical: uncoded != null,
+      diagnostics: diagnosticsWithScores(residualDiagnostics(x, fit)).map((entry, idx) => {
+        const run = surface.usable[idx];
+        const flags = {
+          largeResidual: Math.abs(entry.studentized) > 2,
+          outlier: Math.abs(entry.deleted) > 3,
+          highLeverage: entry.leverage > (3 * fit.p) / fit.n,
+          influential: entry.cooksDistance > 1
+        };
+        return {
+          runId: run.id,
+          runCode: run.run_code,
+          runOrder: run.run_order,
+          observed: surface.z[idx],
+          ...entry,
+          ...flags,
+          // Worth excluding only when the run alone pulls the model (after checking the shot for a cause).
+          suggestExclude: flags.outlier || flags.influential
+        };
+      })
+    }
+  };
+}
+
+export type ResponseGoalInput = {
+  fieldId: number;
+  label: string;
+  goal: GoalKind;
+  // Blank limits default to the observed range of the response (target to the better end).
+  lower: number | null;
+  target: number | null;
+  upper: number | null;
+  importance: number;
+  transform: ResponseTransform;
+};
+
+/**
+ * Derringer–Suich optimization over the response surface models of several responses (same model
+ * settings as the surface card). Numeric factors are searched over the range they were run at and
+ * categorical factors over their levels. Returns the settings with the highest overall desirability,
+ * each response's prediction with 95% confidence and prediction intervals, and the goals used.
+ */
+export function buildDesirabilityOptimization(
+  runs: RunRow[],
+  analysisValueMap: Map<string, AnalysisValueRow>,
+  goals: ResponseGoalInput[],
+  factors: SurfaceFactor[],
+  options: SurfaceOptions,
+  seed: number
+) {
+  const models = goals.map((input) => {
+    const surface = fitResponseSurface(runs, analysisValueMap, input.fieldId, factors, options, input.transform);
+    const low = Math.min(...surface.y);
+    const high = Math.max(...surface.y);
+    const goal: ResponseGoal = {
+      goal: input.goal,
+      lower: input.lower ?? low,
+      upper: input.upper ?? high,
+      target: input.target ?? (input.goal === "minimize" ? low : input.goal === "maximize" ? high : (low + high) / 2),
+      importance: input.importance
+    };
+    return { input, goal, surface };
+  });
+  const fitted = models.filter((entry) => entry.surface.model);
+  const dimensions: SearchDimension[] = factors.map((factor) => {
+    if (factor.levels) return { kind: "levels", count: factor.levels.length };
+    const values = runs.map((run) => run.values[factor.paramId]).filter((value): value is number => value != null);
+    return { kind: "range", min: Math.min(...values), max: Math.max(...values) };
+  });
+  const score = (point: number[]) =>
+    overallDesirability(
+      fitted.map((entry) => individualDesirability(predictSurface(entry.surface, point).value, entry.goal)),
+      fitted.map((entry) => entry.goal.importance)
+    );
+  const best =
+    fitted.length && dimensions.every((dim) => dim.kind === "levels" || Number.isFinite(dim.min))
+      ? maximizeOverBox(score, dimensions, seed)
+      : null;
+
+  return {
+    desirability: best ? best.value : null,
+    settings: best
+      ? factors.map((factor, idx) => ({
+          label: factor.label,
+          value: factor.levels ? factor.levels[best.point[idx]] : best.point[idx]
+        }))
+      : [],
+    responses: models.map((entry) => {
+      const base = {
+        fieldId: entry.input.fieldId,
+        label: entry.input.label,
+        ...entry.goal,
+        n: entry.surface.usable.length,
+        transform: entry.surface.transform.kind
+      };
+      if (!best || !entry.surface.model) {
+        return { ...base, predicted: null, ci: null, pi: null, desirability: null };
+      }
+      const { value, ci, pi } = predictSurface(entry.surface, best.point);
+      return { ...base, predicted: value, ci, pi, desirability: individualDesirability(value, entry.goal) };
+    })
+  };
+}
+
+const PROFILE_SLICE_POINTS = 25;
+
+/**
+ * Prediction profiler: the response surface model (same settings as the surface card) evaluated at
+ * the given settings, in original units with categorical factors by level name. Each factor also
+ * gets a slice through the point: the prediction and its confidence band as only that factor moves
+ * over its tested range (or levels). Settings outside the tested range are predicted but flagged.
+ * Predictions of a transformed response are back-transformed to its units.
+ */
+export function predictResponseSurface(
+  runs: RunRow[],
+  analysisValueMap: Map<string, AnalysisValueRow>,
+  outputFieldId: number,
+  factors: SurfaceFactor[],
+  options: SurfaceOptions,
+  settings: Map<number, number | string>,
+  transform: ResponseTransform = NO_TRANSFORM
 ) {
+  const surface = fitResponseSurface(runs, analysisValueMap, outputFieldId, factors, options, transform);
+  if (!surface.model) return null;
+  const ranges = factors.map((factor) => {
+    if (factor.levels) return null;
+    const values = surface.usable.map((run) => run.values[factor.paramId] as number);
+    return { min: Math.min(...values), max: Math.max(...values) };
+  });
+  const point = factors.map((factor, idx) => {
+    const requested = settings.get(factor.paramId);
+    if (factor.levels) {
+      const level = typeof requested === "string" ? factor.levels.indexOf(requested) : -1;
+      return level >= 0 ? level : 0;
+    }
+    const range = ranges[idx]!;
+    return typeof requested === "number" && Number.isFinite(requested) ? requested : (range.min + range.max) / 2;
+  });
+  const slices = factors.map((factor, idx) => {
+    const range = ranges[idx];
+    const positions = range
+      ? Array.from(
+          { length: PROFILE_SLICE_POINTS },
+          (_, step) => range.min + ((range.max - range.min) * step) / (PROFILE_SLICE_POINTS - 1)
+        )
+      : factor.levels!.map((_, level) => level);
+    return {
+      paramId: factor.paramId,
+      points: positions.map((position) => {
+        const moved = point.slice();
+        moved[idx] = position;
+        const prediction = predictSurface(surface, moved);
+        return {
+          x: range ? position : factor.levels![position],
+          predicted: prediction.value,
+          ci: prediction.ci
+        };
+      })
+    };
+  });
+  const prediction = predictSurface(surface, point);
+  return {
+    n: surface.usable.length,
+    transform: { kind: surface.transform.kind, lambda: surface.transform.lambda },
+    settings: factors.map((factor, idx) => {
+      const range = ranges[idx];
+      return {
+        paramId: factor.paramId,
+        label: factor.label,
+        value: factor.levels ? factor.levels[point[idx]] : point[idx],
+        levels: factor.levels,
+        min: range ? range.min : null,
+        max: range ? range.max : null,
+        extrapolated: range ? point[idx] < range.min || point[idx] > range.max : false
+      };
+    }),
+    predicted: prediction.value,
+    ci: prediction.ci,
+    pi: prediction.pi,
+    slices
+  };
+}
+
+export type ContourResponseInput = {
+  fieldId: number;
+  label: string;
+  // Spec limits for the overlay; a response without either is drawn but does not restrict the sweet spot.
+  lower: number | null;
+  upper: number | null;
+  transform: ResponseTransform;
+};
+
+const CONTOUR_GRID = 31;
+
+/**
+ * Contour plots of the response surface models (same settings as the surface card) over the tested
+ * range of two numeric factors, the other factors held at the given settings (default: middle of
+ * their range, first level). The overlay draws each response's spec limits and marks the grid cells
+ * where every response with limits is predicted in spec.
+ */
+export function buildContourPlot(
+  runs: RunRow[],
+  analysisValueMap: Map<string, AnalysisValueRow>,
+  responses: ContourResponseInput[],
+  factors: SurfaceFactor[],
+  options: SurfaceOptions,
+  axes: [number, number],
+  held: Map<number, number | string>
+) {
+  const xIdx = factors.findIndex((factor) => factor.paramId === axes[0]);
+  const yIdx = factors.findIndex((factor) => factor.paramId === axes[1]);
+  if (xIdx < 0 || yIdx < 0 || xIdx === yIdx || factors[xIdx].levels || factors[yIdx].levels) return null;
+  const ranges = factors.map((factor) => {
+    if (factor.levels) return null;
+    const values = runs.map((run) => run.values[factor.paramId]).filter((value): value is number => value != null);
+    return values.length ? { min: Math.min(...values), max: Math.max(...values) } : null;
+  });
+  if (!ranges[xIdx] || !ranges[yIdx]) return null;
+  const point = factors.map((factor, idx) => {
+    const requested = held.get(factor.paramId);
+    if (factor.levels) {
+      const level = typeof requested === "string" ? factor.levels.indexOf(requested) : -1;
+      return level >= 0 ? level : 0;
+    }
+    const range = ranges[idx];
+    if (typeof requested === "number" && Number.isFinite(requested)) return requested;
+    return range ? (range.min + range.max) / 2 : 0;
+  });
+  const axis = (range: { min: number; max: number }) =>
+    Array.from({ length: CONTOUR_GRID }, (_, step) => range.min + ((range.max - range.min) * step) / (CONTOUR_GRID - 1));
+  const xValues = axis(ranges[xIdx]!);
+  const yValues = axis(ranges[yIdx]!);
+
+  const surfaces = responses.map((response) => {
+    const surface = fitResponseSurface(runs, analysisValueMap, response.fieldId, factors, options, response.transform);
+    if (!surface.model) return { response, n: surface.usable.length, grid: null };
+    const grid = xValues.map((xValue) =>
+      yValues.map((yValue) => {
+        const moved = point.slice();
+        moved[xIdx] = xValue;
+        moved[yIdx] = yValue;
+        return predictSurface(surface, moved).value;
+      })
+    );
+    return { response, n: surface.usable.length, grid };
+  });
+  const specified = surfaces.filter(
+    (entry) => entry.grid && (entry.response.lower != null || entry.response.upper != null)
+  );
+  const inSpec = (entry: (typeof surfaces)[number], i: number, j: number) => {
+    const value = entry.grid![i][j];
+    return (
+      (entry.response.lower == null || value >= entry.response.lower) &&
+      (entry.response.upper == null || value <= entry.response.upper)
+    );
+  };
+  const feasible: Array<[number, number]> = [];
+  if (specified.length) {
+    xValues.forEach((_, i) =>
+      yValues.forEach((_, j) => {
+        if (specified.every((entry) => inSpec(entry, i, j))) feasible.push([xValues[i], yValues[j]]);
+      })
+    );
+  }
+
+  return {
+    xLabel: factors[xIdx].label,
+    yLabel: factors[yIdx].label,
+    xValues,
+    yValues,
+    held: factors
+      .map((factor, idx) => ({
+        paramId: factor.paramId,
+        label: factor.label,
+        value: factor.levels ? factor.levels[point[idx]] : point[idx],
+        levels: factor.levels,
+        min: ranges[idx]?.min ?? null,
+        max: ranges[idx]?.max ?? null
+      }))
+      .filter((_, idx) => idx !== xIdx && idx !== yIdx),
+    responses: surfaces.map((entry) => {
+      const base = { ...entry.response, transform: entry.response.transform.kind, n: entry.n };
+      if (!entry.grid) return { ...base, grid: null, min: null, max: null, contours: [], limits: [] };
+      const values = entry.grid.flat();
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      const lines = (level: number) => ({ level, segments: contourSegments(xValues, yValues, entry.grid!, level) });
+      return {
+        ...base,
+        grid: entry.grid,
+        min,
+        max,
+        contours: contourLevels(min, max).map(lines),
+        limits: [entry.response.lower, entry.response.upper].filter((level): level is number => level != null).map(lines)
+      };
+    }),
+    // Null when no response has limits (or a model); otherwise the in-spec cells and their share of the grid.
+    feasible: specified.length ? feasible : null,
+    feasibleShare: specified.length ? feasible.length / (CONTOUR_GRID * CONTOUR_GRID) : null,
+    observed: runs
+      .filter((run) => run.values[axes[0]] != null && run.values[axes[1]] != null)
+      .map((run) => ({ x: run.values[axes[0]] as number, y: run.values[axes[1]] as number, runCode: run.run_code }))
+  };
+}
+
+/**
+ * Effect screening for two-level designs: main effects and two-factor interactions on the coded
+ * factors, standardized by Lenth's PSE (or the residual error when settings repeat). Categorical
+ * factors with more than two levels have no single effect and are skipped.
+ */
+export function buildEffectsScreening(
+  runs: RunRow[],
+  analysisValueMap: Map<string, AnalysisValueRow>,
+  outputFieldId: number,
+  factors: SurfaceFactor[],
+  transform: ResponseTransform = NO_TRANSFORM
+) {
+  const included = factors.filter((factor) => !factor.levels || factor.levels.length === 2);
+  const skipped = factors.filter((factor) => !included.includes(factor)).map((factor) => factor.label);
+  const usable = runs.filter(
+    (run) =>
+      analysisValueMap.get(`${run.id}:${outputFieldId}`)?.value_real != null &&
+      included.every((factor) =>
+        factor.levels ? factor.levels.includes(run.texts[factor.paramId]) : run.values[factor.paramId] != null
+      )
+  );
+  const y = usable.map((run) => analysisValueMap.get(`${run.id}:${outputFieldId}`)!.value_real as number);
+  const scales = included.map((factor) => {
+    if (factor.levels) return null;
+    if (factor.scale) return factor.scale;
+    const values = usable.map((run) => run.values[factor.paramId] as number);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return { center: (min + max) / 2, half: (max - min) / 2 || 1 };
+  });
+  const coded = usable.map((run) =>
+    included.map((factor, idx) =>
+      factor.levels
+        ? factor.levels.indexOf(run.texts[factor.paramId]) * 2 - 1
+        : ((run.values[factor.paramId] as number) - scales[idx]!.center) / scales[idx]!.half
+    )
+  );
+  const response = transformResponse(y, coded.map((row) => [1, ...row]), transform);
+  return {
+    n: usable.length,
+    skipped,
+    transform: response.transform,
+    result: response.values ? screeningEffects(coded, response.values, included.map((factor) => factor.label)) : null
+  };
+}
+
+// A pass/fail outcome: a boolean field equal to a value, or a tag field containing a tag (null: any tag).
+export type BinaryResponse =
+  | { kind: "boolean"; fieldId: number; value: number }
+  | { kind: "tag"; fieldId: number; tag: string | null };
+
+// 1 when the run shows the outcome, 0 when it does not, null when the field was never saved for the run.
+export function binaryOutcome(response: BinaryResponse, row: AnalysisValueRow | undefined): number | null {
+  if (!row) return null;
+  if (response.kind === "boolean") {
+    return row.value_real == null ? null : row.value_real === response.value ? 1 : 0;
+  }
+  let tags: unknown = [];
+  try {
+    tags = row.value_tags_json ? JSON.parse(row.value_tags_json) : [];
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(tags)) return null;
+  return (response.tag == null ? tags.length > 0 : tags.includes(response.tag)) ? 1 : 0;
+}
+
+const PROBABILITY_GRID = 25;
+
+/**
+ * Logistic model of a pass/fail outcome on the coded factors (main effects, interactions or
+ * quadratic), with odds ratios per coded unit and a likelihood-ratio test against the intercept.
+ * When two numeric factors are picked, the predicted probability is mapped over their tested range
+ * with the other factors at their center (categorical factors at their first level).
+ */
+export function buildLogisticModel(
+  runs: RunRow[],
+  analysisValueMap: Map<string, AnalysisValueRow>,
+  response: BinaryResponse,
+  factors: SurfaceFactor[],
+  kind: ModelKind,
+  mapParamIds: [number, number] | null
+) {
+  const outcomes = new Map(
+    runs.map((run) => [run.id, binaryOutcome(response, analysisValueMap.get(`${run.id}:${response.fieldId}`))])
+  );
+  const usable = runs.filter(
+    (run) =>
+      outcomes.get(run.id) != null &&
+      factors.every((factor) =>
+        factor.levels ? factor.levels.includes(run.texts[factor.paramId]) : run.values[factor.paramId] != null
+      )
+  );
+  const y = usable.map((run) => outcomes.get(run.id) as number);
+  const events = y.filter((value) => value === 1).length;
+  const { scales, coded } = codeSurfaceRuns(usable, factors);
+  const allTerms = buildModelTerms(
+    factors.map((factor) => factor.label),
+    kind,
+    factors.map((factor) => factor.levels)
+  );
+  const allX = coded.map((row) => modelRow(allTerms, row));
+  const estimable = usable.length ? independentColumns(allX) : [];
+  const terms = estimable.map((idx) => allTerms[idx]);
+  const aliased = allTerms.filter((_, idx) => !estimable.includes(idx)).map((term) => term.label);
+  const base = { kind, n: usable.length, events, aliased };
+  const fit = estimable[0] === 0 ? fitLogistic(allX.map((row) => estimable.map((idx) => row[idx])), y) : null;
+  if (!fit) return { ...base, fit: null, map: null };
+
+  const lrChiSquare = Math.max(fit.nullDeviance - fit.deviance, 0);
+  const predict = (point: number[]) =>
+    logistic(modelRow(terms, point).reduce((acc, value, idx) => acc + value * fit.coefficients[idx], 0));
+  let map = null;
+  const xIdx = mapParamIds ? factors.findIndex((factor) => factor.paramId === mapParamIds[0]) : -1;
+  const yIdx = mapParamIds ? factors.findIndex((factor) => factor.paramId === mapParamIds[1]) : -1;
+  if (xIdx >= 0 && yIdx >= 0 && xIdx !== yIdx && scales[xIdx] && scales[yIdx]) {
+    const axis = (idx: number) => {
+      const values = usable.map((run) => run.values[factors[idx].paramId] as number);
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      return Array.from({ length: PROBABILITY_GRID }, (_, step) => min + ((max - min) * step) / (PROBABILITY_GRID - 1));
+    };
+    const xValues = axis(xIdx);
+    const yValues = axis(yIdx);
+    const cells: Array<[number, number, number]> = [];
+    xValues.forEach((xValue, i) => {
+      yValues.forEach((yValue, j) => {
+        const point = factors.map(() => 0);
+        point[xIdx] = (xValue - scales[xIdx]!.center) / scales[xIdx]!.half;
+        point[yIdx] = (yValue - scales[yIdx]!.center) / scales[yIdx]!.half;
+        cells.push([i, j, predict(point)]);
+      });
+    });
+    map = {
+      xLabel: factors[xIdx].label,
+      yLabel: factors[yIdx].label,
+      xValues,
+      yValues,
+      cells,
+      held: factors
+        .filter((_, idx) => idx !== xIdx && idx !== yIdx)
+        .map((factor) => {
+          const scale = scales[factors.indexOf(factor)];
+          return { label: factor.label, value: factor.levels ? factor.levels[0] : scale!.center };
+        }),
+      observed: usable.map((run, idx) => ({
+        x: run.values[factors[xIdx].paramId] as number,
+        y: run.values[factors[yIdx].paramId] as number,
+        event: y[idx]
+      }))
+    };
+  }
+
+  return {
+    ...base,
+    fit: {
+      terms: terms.map((term, idx) => ({
+        label: term.label,
+        coefficient: fit.coefficients[idx],
+        se: fit.standardErrors[idx],
+        z: fit.zValues[idx],
+        p: fit.pValues[idx],
+        oddsRatio: idx === 0 ? null : Math.exp(fit.coefficients[idx])
+      })),
+      deviance: fit.deviance,
+      nullDeviance: fit.nullDeviance,
+      lrChiSquare,
+      lrDf: terms.length - 1,
+      lrP: chiSquarePValue(lrChiSquare, terms.length - 1),
+      // Share of deviance explained (McFadden's pseudo R²).
+      pseudoR2: fit.nullDeviance > 0 ? 1 - fit.deviance / fit.nullDeviance : NaN
+    },
+    map
+  };
+}
+
+/**
+ * Taguchi S/N analysis: runs are grouped by their control-factor settings (one group per inner-array
+ * row, spanning the outer-array noise runs and replicates). The response table gives the mean S/N
+ * per control-factor level, with delta (max - min) and rank.
+ */
+export function summarizeSignalToNoise(
+  runs: RunRow[],
+  analysisValueMap: Map<string, AnalysisValueRow>,
+  outputFieldId: number,
+  controlParamIds: number[],
+  type: SignalToNoiseType
+) {
+  const groups = new Map<string, { settings: Record<number, number | null>; values: number[] }>();
+  for (const run of runs) {
+    const output = analysisValueMap.get(`${run.id}:${outputFieldId}`)?.value_real;
+    if (output == null) continue;
+    const settings: Record<number, number | null> = {};
+    controlParamIds.forEach((id) => {
+      settings[id] = run.values[id] ?? null;
+    });
+    const key = JSON.stringify(controlParamIds.map((id) => settings[id]));
+    if (!groups.has(key)) groups.set(key, { settings, values: [] });
+    groups.get(key)!.values.push(output);
+  }
+  const rows = Array.from(groups.values()).map((group) => ({
+    settings: group.settings,
+    n: group.values.length,
+    mean: mean(group.values),
+    sd: sd(group.values),
+    sn: signalToNoise(group.values, type)
+  }));
+  const effects = controlParamIds.map((id) => {
+    const levelMap = new Map<number, { sn: number[]; mean: number[] }>();
+    for (const row of rows) {
+      const level = row.settings[id];
+      if (level == null) continue;
+      if (!levelMap.has(level)) levelMap.set(level, { sn: [], mean: [] });
+      if (Number.isFinite(row.sn)) levelMap.get(level)!.sn.push(row.sn);
+      levelMap.get(level)!.mean.push(row.mean);
+    }
+    const levels = Array.from(levelMap.entries())
+      .map(([level, entry]) => ({ level, sn: mean(entry.sn), mean: mean(entry.mean) }))
+      .sort((a, b) => a.level - b.level);
+    const snValues = levels.map((entry) => entry.sn).filter((value) => Number.isFinite(value));
+    const delta = snValues.length ? Math.max(...snValues) - Math.min(...snValues) : NaN;
+    const best = levels.reduce<(typeof levels)[number] | null>(
+      (acc, entry) => (Number.isFinite(entry.sn) && (!acc || entry.sn > acc.sn) ? entry : acc),
+      null
+    );
+    return { paramId: id, levels, delta, bestLevel: best?.level ?? null, rank: 0 };
+  });
+  [...effects]
+    .filter((effect) => Number.isFinite(effect.delta))
+    .sort((a, b) => b.delta - a.delta)
+    .forEach((effect, idx) => {
+      effect.rank = idx + 1;
+    });
+  return { type, rows, effects };
+}
+
+/**
+ * Scheffé mixture model on the component proportions (no intercept). Null when there are fewer
+ * usable runs than terms or the blends cannot separate the terms.
+ */
+export function buildMixtureModel(
+  runs: RunRow[],
+  analysisValueMap: Map<string, AnalysisValueRow>,
+  outputFieldId: number,
+  components: Array<{ paramId: number; label: string }>,
+  order: ScheffeOrder
+) {
+  const terms = buildScheffeTerms(
+    components.map((component) => component.label),
+    order
+  );
   const y: number[] = [];
   const x: number[][] = [];
   for (const run of runs) {
     const output = analysisValueMap.get(`${run.id}:${outputFieldId}`)?.value_real;
     if (output == null) continue;
-    const row: number[] = [1];
-    let hasMissing = false;
-    for (const factor of factors) {
-      const value = run.values[factor.id];
-      if (value == null) {
-        hasMissing = true;
-        break;
-      }
-      row.push(value);
-    }
-    if (hasMissing) continue;
+    const proportions = components.map((component) => run.values[component.paramId]);
+    if (proportions.some((value) => value == null)) continue;
     y.push(output);
-    x.push(row);
+    x.push(modelRow(terms, proportions as number[]));
   }
-  if (y.length < factors.length + 2) {
-    return { coefficients: [], r2: NaN };
-  }
-  return linearRegression(y, x);
+  const fit = fitLeastSquares(x, y);
+  if (!fit) return { order, n: y.length, termCount: terms.length, fit: null };
+  return {
+    order,
+    n: fit.n,
+    termCount: terms.length,
+    fit: {
+      terms: terms.map((term, idx) => ({
+        label: term.label,
+        coefficient: fit.coefficients[idx],
+        se: fit.standardErrors[idx],
+        t: fit.tValues[idx],
+        p: fit.pValues[idx]
+      })),
+      r2: fit.r2,
+      adjR2: fit.adjR2,
+      rmse: fit.rmse,
+      dfResidual: fit.dfResidual
+    }
+  };
+}
+
+/**
+ * Main-effects model (factors coded to -1..1 over the observed span) fitted twice: by REML with a
+ * random whole-plot effect, and by ordinary least squares for comparison. OLS treats every run as
+ * independent, which overstates the evidence for hard-to-change factors. Null fits mean too few
+ * runs or whole plots for the model.
+ */
+export function buildSplitPlotAnalysis(
+  runs: RunRow[],
+  analysisValueMap: Map<string, AnalysisValueRow>,
+  outputFieldId: number,
+  factors: Array<{ paramId: number; label: string; hard: boolean }>
+) {
+  const usable = runs.filter(
+    (run) =>
+      run.whole_plot != null &&
+      analysisValueMap.get(`${run.id}:${outputFieldId}`)?.value_real != null &&
+      factors.every((factor) => run.values[factor.paramId] != null)
+  );
+  const spans = factors.map((factor) => {
+    const values = usable.map((run) => run.values[factor.paramId] as number);
+    return { min: Math.min(...values), max: Math.max(...values) };
+  });
+  const x = usable.map((run) => [
+    1,
+    ...factors.map((factor, idx) => {
+      const { min, max } = spans[idx];
+      return max > min ? (2 * ((run.values[factor.paramId] as number) - min)) / (max - min) - 1 : 0;
+    })
+  ]);
+  const y = usable.map((run) => analysisValueMap.get(`${run.id}:${outputFieldId}`)!.value_real as number);
+  const groups = usable.map((run) => run.whole_plot as number);
+  const labels = ["Intercept", ...factors.map((factor) => factor.label)];
+  const wholePlotTerms = [true, ...factors.map((factor) => factor.hard)];
+  const reml = usable.length ? fitSplitPlot(x, y, groups, wholePlotTerms) : null;
+  const ols = usable.length ? fitLeastSquares(x, y) : null;
+  return {
+    n: usable.length,
+    wholePlots: new Set(groups).size,
+    fit: reml
+      ? {
+          terms: labels.map((label, idx) => ({
+            label,
+            hard: idx > 0 && factors[idx - 1].hard,
+            coefficient: reml.coefficients[idx],
+            se: reml.standardErrors[idx],
+            df: reml.df[idx],
+            p: reml.pValues[idx],
+            testable: reml.df[idx] > 0,
+            olsP: ols ? ols.pValues[idx] : null
+          })),
+          // Strata left without error df: their terms are estimated but cannot be tested.
+          untestable: [
+            ...(reml.df.some((df, idx) => wholePlotTerms[idx] && df <= 0) ? ["whole plot" as const] : []),
+            ...(reml.df.some((df, idx) => !wholePlotTerms[idx] && df <= 0) ? ["sub-plot" as const] : [])
+          ],
+          wholePlotVariance: reml.wholePlotVariance,
+          residualVariance: reml.residualVariance
+        }
+      : null
+  };
 }
@@ -14,11 +14,74 @@ import {
   listParamConfigs,
   upsertParamConfig
 } from "../repos/params_repo.js";
-import { insertAnalysisField } from "../repos/analysis_repo.js";
-import { deleteRunsForExperiment, insertRuns } from "../repos/runs_repo.js";
+import {
+  insertAnalysisField,
+  listAnalysisRunSamplesByField,
+  replaceAnalysisRunSamples,
+  upsertAnalysisRunValue
+} from "../repos/analysis_repo.js";
+import type { AnalysisField, AnalysisRunSample } from "../repos/analysis_repo.js";
+import {
+  deletePendingRuns,
+  deleteRuns,
+  deleteRunsForExperiment,
+  insertRuns,
+  listRunIdsWithResults,
+  listRunValues,
+  listRuns,
+  updateRunRecipe,
+  upsertRunValue
+} from "../repos/runs_repo.js";
 import type { ParamDefinition, ParamConfig } from "../repos/params_repo.js";
-import { buildBbdDesign, buildFfaDesign, buildScreenDesign, buildSimDesign } from "../domain/designs.js";
+import type { Run, RunValue } from "../repos/runs_repo.js";
+import type { DoeStudy } from "../repos/doe_repo.js";
+import type { RecipeComponent } from "../repos/recipes_repo.js";
+import { createRecipe, deleteRecipe, getRecipeComponents, replaceRecipeComponents } from "../repos/recipes_repo.js";
+import {
+  arrangeSplitPlot,
+  buildAugmentRuns,
+  buildBbdDesign,
+  buildCcdDesign,
+  buildDsdDesign,
+  buildFfaDesign,
+  buildMixtureDesign,
+  buildOptimalDesign,
+  buildPlackettBurmanDesign,
+  buildScreenDesign,
+  buildSimDesign,
+  buildSpaceFillingDesign,
+  buildTaguchiDesign,
+  codeRuns,
+  defaultSpaceFillingRuns,
+  factorLetter,
+  PLACKETT_BURMAN_SIZES,
+  TAGUCHI_ARRAYS
+} from "../domain/designs.js";
+import type {
+  AugmentAlpha,
+  AugmentKind,
+  CcdAlphaMode,
+  CcdVariant,
+  DesignRun,
+  FactorConfig,
+  MixtureComponent,
+  MixtureKind,
+  TaguchiArrayName
+} from "../domain/designs.js";
+import type { ModelKind } from "../domain/models.js";
+import { evaluateDesign } from "../domain/diagnostics.js";
+import { minimumDistance } from "../domain/space_filling.js";
+import { constraintCodes, parseConstraints, violatedConstraint } from "../domain/constraints.js";
+import type { DesignConstraint } from "../domain/constraints.js";
+import type { SpaceFillingMethod } from "../domain/space_filling.js";
+import type { OptimalCriterion } from "../domain/optimal.js";
+import type { GoalKind } from "../domain/desirability.js";
+import { aggregateSamples } from "../domain/samples.js";
+import { TRANSFORM_KINDS } from "../domain/transforms.js";
+import type { TransformKind } from "../domain/transforms.js";
+import { buildSchedule, optimizeRunOrder } from "../domain/run_order.js";
 import { stableHash } from "../lib/hash.js";
+import { seededShuffle } from "../lib/rng.js";
 
 export type ExperimentCreateInput = {
   name: string;
@@ -35,16 +98,30 @@ type DefaultFactorConfig = {
   rangeMax?: number;
   list?: number[];
   levelCount?: number | null;
+  role?: "CONTROL" | "NOISE";
 };
 
 export function getDefaultActiveFactors(designType: string): DefaultFactorConfig[] {
-  if (designType === "BBD") {
+  if (designType === "BBD" || designType === "CCD" || designType === "OPTIMAL") {
     return [
       { code: "barrel_zone5", mode: "RANGE", rangeMin: 80, rangeMax: 120, levelCount: 3 },
       { code: "inj_speed", mode: "RANGE", rangeMin: 20, rangeMax: 50, levelCount: 3 },
       { code: "v_to_p_transfer", mode: "RANGE", rangeMin: 92, rangeMax: 98, levelCount: 3 }
     ];
   }
+  if (designType === "TAGUCHI") {
+    return [
+      { code: "mold_temp", mode: "RANGE", rangeMin: 40, rangeMax: 120, levelCount: 3 },
+      { code: "inj_speed", mode: "RANGE", rangeMin: 25, rangeMax: 60, levelCount: 3 },
+      { code: "hold_press", mode: "RANGE", rangeMin: 200, rangeMax: 400, levelCount: 3 },
+      { code: "hold_time", mode: "RANGE", rangeMin: 2, rangeMax: 8, levelCount: 3 },
+      { code: "moisture_pct", mode: "LIST", list: [0.02, 0.2], levelCount: 2, role: "NOISE" }
+    ];
+  }
+  if (designType === "MIXTURE") {
+    // Mixture factors are the varied recipe components, created from the design options.
+    return [];
+  }
   if (designType === "FFA") {
     return [
       { code: "moisture_pct", mode: "LIST", list: [0, 1, 2], levelCount: 3 },
@@ -70,6 +147,184 @@ export function getDefaultActiveFactors(designType: string): DefaultFactorConfig
   ];
 }
 
+export type DesignOptions = {
+  resolution: 3 | 4 | 5;
+  fold_over: boolean;
+  ccd_variant: CcdVariant;
+  ccd_alpha: CcdAlphaMode;
+  ccd_axial_reps: number;
+  pb_runs: number;
+  optimal_model: ModelKind;
+  optimal_criterion: OptimalCriterion;
+  optimal_runs: number | null;
+  optimal_forced_runs: Array<Record<number, number>>;
+  optimal_include_done: boolean;
+  taguchi_array: TaguchiArrayName | "auto";
+  mixture_base_recipe_id: number | null;
+  mixture_kind: MixtureKind;
+  mixture_degree: number;
+  mixture_augment: boolean;
+  mixture_components: MixtureComponent[];
+  sim_method: "grid" | SpaceFillingMethod;
+  sim_runs: number | null;
+  constraint_text: string;
+  split_plot: boolean;
+  split_plot_size: number | null;
+  run_order: "random" | "changeover";
+  // Minutes to settle after changing each factor, keyed by param id.
+  changeover_minutes: Record<number, number>;
+  run_minutes: number;
+};
+
+export function readDesignOptions(meta: Record<string, unknown>): DesignOptions {
+  const resolution = Number(meta.resolution);
+  const axialReps = Number(meta.ccd_axial_reps);
+  const pbRuns = Number(meta.pb_runs);
+  const optimalRuns = Number(meta.optimal_runs);
+  const forcedRuns = Array.isArray(meta.optimal_forced_runs) ? meta.optimal_forced_runs : [];
+  const baseRecipeId = Number(meta.mixture_base_recipe_id);
+  const mixtureDegree = Number(meta.mixture_degree);
+  const mixtureComponents = Array.isArray(meta.mixture_components) ? meta.mixture_components : [];
+  const simRuns = Number(meta.sim_runs);
+  const wholePlotSize = Number(meta.split_plot_size);
+  const runMinutes = Number(meta.run_minutes);
+  const changeover: Record<number, number> = {};
+  if (meta.changeover_minutes != null && typeof meta.changeover_minutes === "object") {
+    Object.entries(meta.changeover_minutes).forEach(([key, value]) => {
+      if (typeof value === "number" && Number.isFinite(value) && value > 0) changeover[Number(key)] = value;
+    });
+  }
+  return {
+    resolution: resolution === 3 || resolution === 5 ? resolution : 4,
+    fold_over: meta.fold_over === true,
+    ccd_variant: meta.ccd_variant === "CCI" || meta.ccd_variant === "CCF" ? meta.ccd_variant : "CCC",
+    ccd_alpha: meta.ccd_alpha === "orthogonal" ? "orthogonal" : "rotatable",
+    ccd_axial_reps: Number.isInteger(axialReps) && axialReps >= 1 && axialReps <= 4 ? axialReps : 1,
+    pb_runs: PLACKETT_BURMAN_SIZES.includes(pbRuns) ? pbRuns : 12,
+    optimal_model:
+      meta.optimal_model === "main" || meta.optimal_model === "quadratic" ? meta.optimal_model : "interactions",
+    optimal_criterion: meta.optimal_criterion === "I" ? "I" : "D",
+    optimal_runs:
+      meta.optimal_runs != null && Number.isInteger(optimalRuns) && optimalRuns >= 2 ? optimalRuns : null,
+    optimal_forced_runs: forcedRuns
+      .filter((run): run is Record<string, unknown> => run != null && typeof run === "object")
+      .map((run) => {
+        const values: Record<number, number> = {};
+        Object.entries(run).forEach(([key, value]) => {
+          if (typeof value === "number" && Number.isFinite(value)) values[Number(key)] = value;
+        });
+        return values;
+      })
+      .filter((run) => Object.keys(run).length > 0),
+    optimal_include_done: meta.optimal_include_done === true,
+    taguchi_array: TAGUCHI_ARRAYS.find((array) => array.name === meta.taguchi_array)?.name ?? "auto",
+    mixture_base_recipe_id:
+      meta.mixture_base_recipe_id != null && Number.isInteger(baseRecipeId) && baseRecipeId > 0 ? baseRecipeId : null,
+    mixture_kind: meta.mixture_kind === "centroid" || meta.mixture_kind === "extreme" ? meta.mixture_kind : "lattice",
+    mixture_degree: Number.isInteger(mixtureDegree) && mixtureDegree >= 1 && mixtureDegree <= 4 ? mixtureDegree : 2,
+    mixture_augment: meta.mixture_augment === true,
+    mixture_components: mixtureComponents
+      .filter((component): component is Record<string, unknown> => component != null && typeof component === "object")
+      .map((component) => ({
+        name: String(component.name ?? "").trim(),
+        lower: Number(component.lower),
+        upper: Number(component.upper)
+      }))
+      .filter(
+        (component) =>
+          component.name.length > 0 &&
+          Number.isFinite(component.lower) &&
+          Number.isFinite(component.upper) &&
+          component.lower >= 0 &&
+          component.upper <= 1 &&
+          component.lower <= component.upper
+      ),
+    sim_method:
+      meta.sim_method === "lhs" || meta.sim_method === "sobol" || meta.sim_method === "halton"
+        ? meta.sim_method
+        : "grid",
+    sim_runs: meta.sim_runs != null && Number.isInteger(simRuns) && simRuns >= 2 && simRuns <= 5000 ? simRuns : null,
+    constraint_text: typeof meta.constraint_text === "string" ? meta.constraint_text : "",
+    split_plot: meta.split_plot === true,
+    split_plot_size:
+      meta.split_plot_size != null && Number.isInteger(wholePlotSize) && wholePlotSize >= 1 ? wholePlotSize : null,
+    run_order: meta.run_order === "changeover" ? "changeover" : "random",
+    changeover_minutes: changeover,
+    run_minutes: meta.run_minutes != null && Number.isFinite(runMinutes) && runMinutes > 0 ? runMinutes : 10
+  };
+}
+
+export type ResponseGoalSetting = {
+  field_id: number;
+  goal: GoalKind;
+  lower: number | null;
+  target: number | null;
+  upper: number | null;
+  importance: number;
+};
+
+// Desirability goals per analysis field (design metadata `response_goals`); fields without a goal are absent.
+export function readResponseGoals(meta: Record<string, unknown>): ResponseGoalSetting[] {
+  const raw = Array.isArray(meta.response_goals) ? meta.response_goals : [];
+  const limit = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : null);
+  return raw
+    .filter((entry): entry is Record<string, unknown> => entry != null && typeof entry === "object")
+    .filter((entry) => entry.goal === "minimize" || entry.goal === "maximize" || entry.goal === "target")
+    .map((entry) => {
+      const importance = Number(entry.importance);
+      return {
+        field_id: Number(entry.field_id),
+        goal: entry.goal as GoalKind,
+        lower: limit(entry.lower),
+        target: limit(entry.target),
+        upper: limit(entry.upper),
+        importance: Number.isInteger(importance) && importance >= 1 && importance <= 5 ? importance : 1
+      };
+    })
+    .filter((entry) => Number.isInteger(entry.field_id) && entry.field_id > 0);
+}
+
+export type ResponseSpecSetting = {
+  field_id: number;
+  lower: number | null;
+  upper: number | null;
+};
+
+// Spec limits per analysis field for the contour overlay (design metadata `response_specs`).
+export function readResponseSpecs(meta: Record<string, unknown>): ResponseSpecSetting[] {
+  const raw = Array.isArray(meta.response_specs) ? meta.response_specs : [];
+  const limit = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : null);
+  return raw
+    .filter((entry): entry is Record<string, unknown> => entry != null && typeof entry === "object")
+    .map((entry) => ({ field_id: Number(entry.field_id), lower: limit(entry.lower), upper: limit(entry.upper) }))
+    .filter(
+      (entry) =>
+        Number.isInteger(entry.field_id) && entry.field_id > 0 && (entry.lower != null || entry.upper != null)
+    );
+}
+
+export type ResponseTransformSetting = {
+  field_id: number;
+  kind: TransformKind;
+  // Box-Cox power; null re-estimates the optimal λ from the data on every analysis.
+  lambda: number | null;
+};
+
+// Response transform per analysis field (design metadata `response_transforms`); untransformed fields are absent.
+export function readResponseTransforms(meta: Record<string, unknown>): ResponseTransformSetting[] {
+  const raw = Array.isArray(meta.response_transforms) ? meta.response_transforms : [];
+  return raw
+    .filter((entry): entry is Record<string, unknown> => entry != null && typeof entry === "object")
+    .filter((entry) => TRANSFORM_KINDS.includes(entry.kind as TransformKind) && entry.kind !== "none")
+    .map((entry) => ({
+      field_id: Number(entry.field_id),
+      kind: entry.kind as TransformKind,
+      lambda:
+        entry.kind === "boxcox" && typeof entry.lambda === "number" && Number.isFinite(entry.lambda) ? entry.lambda : null
+    }))
+    .filter((entry) => Number.isInteger(entry.field_id) && entry.field_id > 0);
+}
+
 export function createExperimentWithDefaults(db: Db, input: ExperimentCreateInput): number {
   const experimentId = createExperiment(db, {
     name: input.name,
@@ -126,7 +381,8 @@ export function createDoeWithDefaults(
       range_min_real: factor.mode === "RANGE" ? factor.rangeMin ?? null : null,
       range_max_real: factor.mode === "RANGE" ? factor.rangeMax ?? null : null,
       list_json: factor.mode === "LIST" ? JSON.stringify(factor.list ?? []) : null,
-      level_count: factor.levelCount ?? null
+      level_count: factor.levelCount ?? null,
+      factor_role: factor.role ?? "CONTROL"
     });
   }
   const outputParams = listParamDefinitionsByKind(db, input.experimentId, "OUTPUT");
@@ -165,7 +421,112 @@ export function createCustomParam(
   });
 }
 
-function configToFactor(config: ParamConfig, param: ParamDefinition) {
+/**
+ * Stores the parts measured on a run and writes their aggregate (the field's mean, median, range or SD)
+ * as the run value every analysis reads.
+ */
+export function saveRunSamples(
+  db: Db,
+  runId: number,
+  field: AnalysisField,
+  samples: Array<Pick<AnalysisRunSample, "sample_index" | "cavity" | "value_real">>
+) {
+  replaceAnalysisRunSamples(db, runId, field.id, samples);
+  const value = aggregateSamples(
+    samples.map((sample) => sample.value_real),
+    field.sample_aggregation
+  );
+  upsertAnalysisRunValue(db, runId, field.id, value, null, null);
+}
+
+// Recomputes the run values of every run with stored samples, after the field's aggregation changed.
+export function reaggregateFieldSamples(db: Db, field: AnalysisField) {
+  const byRun = new Map<number, Array<number | null>>();
+  listAnalysisRunSamplesByField(db, field.id).forEach((sample) => {
+    byRun.set(sample.run_id, [...(byRun.get(sample.run_id) || []), sample.value_real]);
+  });
+  byRun.forEach((values, runId) => {
+    upsertAnalysisRunValue(db, runId, field.id, aggregateSamples(values, field.sample_aggregation), null, null);
+  });
+}
+
+const MIXTURE_PARAM_PREFIX = "mix_";
+
+function mixtureParamCode(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return `${MIXTURE_PARAM_PREFIX}${slug || "component"}`;
+}
+
+/**
+ * Each varied mixture component is a factor in its own right: it gets an experiment-scoped INPUT
+ * parameter holding its proportion and an active RANGE config over its bounds. Components that are
+ * no longer varied are deactivated for this DOE.
+ */
+export function syncMixtureFactors(
+  db: Db,
+  experimentId: number,
+  doeId: number,
+  components: MixtureComponent[]
+): Array<MixtureComponent & { paramDefId: number }> {
+  const inputParams = listParamDefinitionsByKind(db, experimentId, "INPUT");
+  const resolved = components.map((component) => {
+    const code = mixtureParamCode(component.name);
+    const paramDefId =
+      inputParams.find((param) => param.code === code)?.id ??
+      createParamDefinition(db, {
+        scope: "EXPERIMENT",
+        experiment_id: experimentId,
+        code,
+        label: component.name,
+        unit: "fraction",
+        field_kind: "INPUT",
+        field_type: "number",
+        group_label: "Mixture",
+        allowed_values_json: null
+      });
+    upsertParamConfig(db, {
+      experiment_id: experimentId,
+      doe_id: doeId,
+      param_def_id: paramDefId,
+      active: 1,
+      mode: "RANGE",
+      fixed_value_real: null,
+      range_min_real: component.lower,
+      range_max_real: component.upper,
+      list_json: null,
+      level_count: null
+    });
+    return { ...component, paramDefId };
+  });
+  const kept = new Set(resolved.map((component) => component.paramDefId));
+  for (const config of listParamConfigs(db, experimentId, doeId)) {
+    const param = inputParams.find((entry) => entry.id === config.param_def_id);
+    if (!param?.code.startsWith(MIXTURE_PARAM_PREFIX) || config.active !== 1 || kept.has(param.id)) continue;
+    upsertParamConfig(db, { ...config, active: 0 });
+  }
+  return resolved;
+}
+
+// Text inputs are categorical factors: list_json holds their level names instead of numbers.
+function categoryLevels(param: ParamDefinition, config: ParamConfig | undefined): string[] | null {
+  if (param.field_type !== "text") return null;
+  return config?.list_json ? (JSON.parse(config.list_json) as unknown[]).map(String) : [];
+}
+
+function configToFactor(config: ParamConfig, param: ParamDefinition): FactorConfig {
+  const categories = categoryLevels(param, config);
+  if (categories) {
+    // Designed over the level indices; a FIXED categorical factor stays at its single level.
+    return {
+      paramDefId: param.id,
+      code: param.code,
+      label: param.label,
+      mode: config.mode === "FIXED" ? "FIXED" : "LIST",
+      list: categories.map((_, idx) => idx),
+      fixedValue: config.mode === "FIXED" && categories.length ? 0 : null,
+      categories
+    };
+  }
   const list = config.list_json ? (JSON.parse(config.list_json) as number[]) : null;
   return {
     paramDefId: param.id,
@@ -180,20 +541,60 @@ function configToFactor(config: ParamConfig, param: ParamDefinition) {
   };
 }
 
-export function generateRuns(db: Db, experimentId: number, doeId: number) {
-  const experiment = getExperiment(db, experimentId);
-  if (!experiment) throw new Error("Experiment not found");
-  const doe = getDoeStudy(db, doeId);
-  if (!doe) throw new Error("DOE not found");
+type DesignPlanInput = {
+  doe: DoeStudy;
+  existingMeta: Record<string, unknown>;
+  inputParams: ParamDefinition[];
+  configs: ParamConfig[];
+};
 
-  const inputParams = listParamDefinitionsByKind(db, experimentId, "INPUT");
-  const outputParams = listParamDefinitionsByKind(db, experimentId, "OUTPUT");
-  const configs = listParamConfigs(db, experimentId, doeId);
-  const existingMeta = parseDesignMetadata(getDesignMetadata(db, experimentId, doeId));
-  const nonRandomizedParamId =
-    typeof existingMeta.non_randomized_param_id === "number"
-      ? existingMeta.non_randomized_param_id
-      : null;
+export type ExcludedRun = {
+  values: Record<number, number>;
+  constraint: string;
+};
+
+/**
+ * Parses the DOE's constraint text and checks every factor code against the experiment's inputs.
+ * Constraints may reference inactive inputs; those are judged at their fixed value.
+ */
+export function designConstraints(options: DesignOptions, inputParams: ParamDefinition[]) {
+  const { constraints, errors } = parseConstraints(options.constraint_text);
+  const codes = new Set(inputParams.map((param) => param.code));
+  const categorical = new Set(inputParams.filter((param) => param.field_type === "text").map((param) => param.code));
+  constraintCodes(constraints).forEach((code) => {
+    if (!codes.has(code)) errors.push(`Unknown factor code "${code}".`);
+    else if (categorical.has(code)) errors.push(`Categorical factor "${code}" cannot be used in a constraint.`);
+  });
+  return { constraints, errors };
+}
+
+function constraintChecker(
+  constraints: DesignConstraint[],
+  inputParams: ParamDefinition[],
+  configs: ParamConfig[]
+): (values: Record<number, number>) => DesignConstraint | null {
+  const idByCode = new Map(inputParams.map((param) => [param.code, param.id]));
+  const fallback = new Map(
+    inputParams.map((param) => [
+      param.id,
+      deriveFallbackValue(configs.find((config) => config.param_def_id === param.id))
+    ])
+  );
+  return (values) =>
+    violatedConstraint(constraints, (code) => {
+      const id = idByCode.get(code);
+      if (id == null) return null;
+      return values[id] ?? fallback.get(id) ?? null;
+    });
+}
+
+// Builds the design points and metadata for a DOE without touching its runs.
+function planDesign(db: Db, { doe, existingMeta, inputParams, configs }: DesignPlanInput) {
+  const doeId = doe.id;
+  const options = readDesignOptions(existingMeta);
+  const { constraints } = designConstraints(options, inputParams);
+  const violation = constraintChecker(constraints, inputParams, configs);
+  const feasible = (values: Record<number, number>) => violation(values) == null;
 
   const activeFactors = configs
     .filter((config) => config.active === 1)
@@ -210,12 +611,40 @@ export function generateRuns(db: Db, experimentId: number, doeId: number) {
     return configToFactor(entry.config, entry.param);
   });
 
-  let designRuns: { values: Record<number, number>; coded?: Record<number, number> }[] = [];
+  let designRuns: DesignRun[] = [];
+  let preservedRuns: Run[] = [];
   let metadata: Record<string, unknown> = {};
+  let mixtureBlend: {
+    baseComponents: RecipeComponent[];
+    varied: Array<MixtureComponent & { paramDefId: number }>;
+    total: number;
+  } | null = null;
 
   if (doe.design_type === "SIM") {
-    designRuns = buildSimDesign(factorConfigs, doe.seed, doe.max_runs);
-    metadata = { design: "SIM", factors: factorConfigs };
+    if (options.sim_method === "grid") {
+      designRuns = buildSimDesign(factorConfigs, doe.seed, doe.max_runs);
+      metadata = { design: "SIM", factors: factorConfigs, space_filling: null };
+    } else {
+      const k = factorConfigs.filter((factor) => factor.mode !== "FIXED").length;
+      const runCount = options.sim_runs ?? defaultSpaceFillingRuns(k);
+      designRuns = buildSpaceFillingDesign(factorConfigs, doe.seed, {
+        method: options.sim_method,
+        runs: runCount,
+        feasible: constraints.length ? feasible : undefined
+      });
+      const codedLevels = designRuns.map((run) => run.coded ?? {});
+      metadata = {
+        design: "SIM",
+        factors: factorConfigs,
+        codedLevels,
+        space_filling: {
+          method: options.sim_method,
+          runs: designRuns.length,
+          // Smallest distance between two runs in coded [-1, 1] units.
+          min_distance: minimumDistance(codedLevels.map((coded) => Object.values(coded)))
+        }
+      };
+    }
   } else if (doe.design_type === "FFA") {
     designRuns = buildFfaDesign(factorConfigs, doe.seed, doe.max_runs);
     metadata = { design: "FFA", factors: factorConfigs };
@@ -227,39 +656,484 @@ export function generateRuns(db: Db, experimentId: number, doeId: number) {
     );
     designRuns = runs;
     metadata = { design: "BBD", factors: factorConfigs, codedLevels };
+  } else if (doe.design_type === "CCD") {
+    const { runs, codedLevels, plan } = buildCcdDesign(factorConfigs, doe.seed, {
+      variant: options.ccd_variant,
+      alphaMode: options.ccd_alpha,
+      centerPoints: doe.center_points,
+      axialReplicates: options.ccd_axial_reps
+    });
+    designRuns = runs;
+    metadata = {
+      design: "CCD",
+      factors: factorConfigs,
+      codedLevels,
+      ccd: plan
+        ? {
+            variant: plan.variant,
+            alpha_mode: plan.alphaMode,
+            alpha: plan.alpha,
+            factorial_runs: plan.factorialRuns,
+            axial_runs: plan.axialRuns,
+            center_runs: plan.centerRuns,
+            generators: plan.fraction.generators
+          }
+        : null
+    };
+  } else if (doe.design_type === "PB") {
+    const { runs, codedLevels, size } = buildPlackettBurmanDesign(factorConfigs, doe.seed, {
+      minRuns: options.pb_runs
+    });
+    designRuns = runs;
+    metadata = {
+      design: "PB",
+      factors: factorConfigs,
+      codedLevels,
+      plackett_burman: size ? { runs: size, columns: size - 1 } : null
+    };
+  } else if (doe.design_type === "OPTIMAL") {
+    if (options.optimal_include_done) {
+      preservedRuns = listRuns(db, doeId).filter((run) => run.done === 1);
+    }
+    const completed = preservedRuns.map((run) => storedDesignValues(db, run.id, inputParams, configs));
+    const { runs, codedLevels, terms, budget, result } = buildOptimalDesign(factorConfigs, doe.seed, {
+      model: options.optimal_model,
+      criterion: options.optimal_criterion,
+      runs: options.optimal_runs,
+      forced: options.optimal_forced_runs,
+      existing: completed,
+      feasible: constraints.length ? feasible : undefined
+    });
+    designRuns = runs;
+    metadata = {
+      design: "OPTIMAL",
+      factors: factorConfigs,
+      codedLevels,
+      optimal: result
+        ? {
+            criterion: options.optimal_criterion,
+            model: options.optimal_model,
+            terms,
+            runs: budget,
+            forced_runs: options.optimal_forced_runs.length,
+            completed_runs: completed.length,
+            d_efficiency: result.efficiency.dEfficiency,
+            g_efficiency: result.efficiency.gEfficiency,
+            average_variance: result.efficiency.averageVariance
+          }
+        : null
+    };
+  } else if (doe.design_type === "TAGUCHI") {
+    const isNoise = (factor: { paramDefId: number }) =>
+      activeFactors.find((entry) => entry.param.id === factor.paramDefId)?.config.factor_role === "NOISE";
+    const control = factorConfigs.filter((factor) => !isNoise(factor));
+    const noise = factorConfigs.filter(isNoise);
+    const { runs, codedLevels, plan } = buildTaguchiDesign(control, noise, doe.seed, {
+      array: options.taguchi_array
+    });
+    designRuns = runs;
+    metadata = {
+      design: "TAGUCHI",
+      factors: factorConfigs,
+      codedLevels,
+      taguchi: plan
+        ? {
+            inner_array: plan.inner.name,
+            inner_runs: plan.inner.runs,
+            outer_array: plan.outer.name,
+            outer_runs: plan.outer.runs,
+            control_ids: control.map((factor) => factor.paramDefId),
+            noise_ids: noise.map((factor) => factor.paramDefId),
+            columns: control.map((factor, idx) => ({
+              param_def_id: factor.paramDefId,
+              column: plan.inner.assignment[idx].column + 1,
+              dummy: plan.inner.assignment[idx].dummy
+            }))
+          }
+        : null
+    };
+  } else if (doe.design_type === "MIXTURE") {
+    const baseComponents = options.mixture_base_recipe_id
+      ? getRecipeComponents(db, options.mixture_base_recipe_id)
+      : [];
+    const varied = options.mixture_components
+      .filter((component) => baseComponents.some((base) => base.component_name === component.name))
+      .map((component) => ({
+        ...component,
+        paramDefId: inputParams.find((param) => param.code === mixtureParamCode(component.name))?.id ?? 0
+      }))
+      .filter((component) => component.paramDefId > 0);
+    const { runs, plan } = buildMixtureDesign(varied, doe.seed, {
+      kind: options.mixture_kind,
+      degree: options.mixture_degree,
+      augment: options.mixture_augment
+    });
+    // Varied components share the phr total they have in the base recipe; the rest are carried over unchanged.
+    const variedTotal = baseComponents
+      .filter((base) => varied.some((component) => component.name === base.component_name))
+      .reduce((acc, base) => acc + base.phr, 0);
+    designRuns = runs;
+    mixtureBlend = plan ? { baseComponents, varied, total: variedTotal } : null;
+    metadata = {
+      design: "MIXTURE",
+      factors: factorConfigs,
+      codedLevels: runs.map((run) => run.coded),
+      mixture: plan
+        ? {
+            kind: plan.kind,
+            degree: plan.degree,
+            pseudo: plan.pseudo,
+            excluded: plan.excluded,
+            total_phr: variedTotal,
+            components: varied.map((component) => ({
+              name: component.name,
+              lower: component.lower,
+              upper: component.upper,
+              param_def_id: component.paramDefId
+            }))
+          }
+        : null
+    };
+  } else if (doe.design_type === "DSD") {
+    const { runs, codedLevels, plan } = buildDsdDesign(factorConfigs, doe.seed);
+    designRuns = runs;
+    metadata = {
+      design: "DSD",
+      factors: factorConfigs,
+      codedLevels,
+      dsd: plan ? { k: plan.k, m: plan.m, runs: plan.runs, fake_factors: plan.fakeFactors } : null
+    };
   } else {
-    designRuns = buildScreenDesign(factorConfigs, doe.seed, doe.max_runs);
-    metadata = { design: "SCREEN_SAMPLE", factors: factorConfigs };
+    const { runs, codedLevels, plan, aliases, letters } = buildScreenDesign(factorConfigs, doe.seed, {
+      resolution: options.resolution,
+      foldOver: options.fold_over
+    });
+    designRuns = runs;
+    metadata = {
+      design: "SCREEN_FRACTIONAL",
+      factors: factorConfigs,
+      codedLevels,
+      fraction: plan
+        ? {
+            k: plan.k,
+            p: plan.p,
+            runs: plan.runs,
+            resolution: plan.resolution,
+            fold_over: options.fold_over && plan.p > 0,
+            generators: plan.generators,
+            defining_relation: plan.definingRelation,
+            letters,
+            aliases
+          }
+        : null
+    };
   }
-  if (nonRandomizedParamId) {
-    designRuns = applyNonRandomizedParamOrder(designRuns, nonRandomizedParamId);
+
+  // Generators that cannot search around the constraints lose their infeasible points here.
+  const excluded: ExcludedRun[] = [];
+  if (constraints.length) {
+    designRuns = designRuns.filter((run) => {
+      const broken = violation(run.values);
+      if (broken) excluded.push({ values: run.values, constraint: broken.source });
+      return broken == null;
+    });
   }
+  metadata.constraints = constraints.length ? { count: constraints.length, excluded } : null;
+  return { designRuns, preservedRuns, metadata, mixtureBlend, excluded };
+}
 
+/**
+ * Run counts after constraints, for the run preview. Null when the DOE has no constraints, so
+ * unconstrained previews stay a cheap formula; invalid constraints only report their errors.
+ */
+export function previewConstrainedRuns(db: Db, experimentId: number, doeId: number) {
+  const doe = getDoeStudy(db, doeId);
+  if (!doe) return null;
+  const existingMeta = parseDesignMetadata(getDesignMetadata(db, experimentId, doeId));
+  const inputParams = listParamDefinitionsByKind(db, experimentId, "INPUT");
+  const { constraints, errors } = designConstraints(readDesignOptions(existingMeta), inputParams);
+  if (!constraints.length && !errors.length) return null;
+  if (errors.length) return { errors, kept: null, excluded: 0 };
+  const configs = listParamConfigs(db, experimentId, doeId);
+  const plan = planDesign(db, { doe, existingMeta, inputParams, configs });
+  return { errors, kept: plan.designRuns.length, excluded: plan.excluded.length };
+}
+
+// Recipes each design point is run with: every linked recipe as a block, the single linked recipe, or none.
+function recipeBlocks(db: Db, experimentId: number, doe: DoeStudy) {
   const recipeIds = getExperimentRecipes(db, experimentId);
-  const recipeBlock = doe.recipe_as_block === 1 && recipeIds.length > 0;
-  const recipeList = recipeBlock
+  // Mixture runs carry their own generated recipe, so recipes are never crossed as blocks.
+  const recipeBlock = doe.recipe_as_block === 1 && recipeIds.length > 0 && doe.design_type !== "MIXTURE";
+  const recipeList: Array<number | null> = recipeBlock
     ? recipeIds
-    : recipeIds.length === 1
+    : recipeIds.length === 1 && doe.design_type !== "MIXTURE"
       ? [recipeIds[0]]
       : [null];
+  return { recipeBlock, recipeList };
+}
+
+type PlannedRun = {
+  values: Record<number, number>;
+  // Index into the design points; mixture runs take the recipe generated for that blend.
+  designIndex: number;
+  recipeId: number | null;
+  replicate: number;
+  wholePlot: number | null;
+  replicateKey: string;
+};
+
+// Everything generateRuns writes, computed without touching the database.
+function planRunlist(db: Db, experimentId: number, doeId: number) {
+  const doe = getDoeStudy(db, doeId);
+  if (!doe) throw new Error("DOE not found");
+  const existingMeta = parseDesignMetadata(getDesignMetadata(db, experimentId, doeId));
+  const inputParams = listParamDefinitionsByKind(db, experimentId, "INPUT");
+  const configs = listParamConfigs(db, experimentId, doeId);
+  const nonRandomizedParamId =
+    typeof existingMeta.non_randomized_param_id === "number"
+      ? existingMeta.non_randomized_param_id
+      : null;
+
+  const plan = planDesign(db, { doe, existingMeta, inputParams, configs });
+  const { preservedRuns, metadata } = plan;
+  let designRuns = plan.designRuns.map((run, designIndex) => ({ ...run, designIndex }));
+
+  // Hard-to-change factors group the runs into whole plots, which replaces any non-randomized ordering;
+  // so does ordering by changeover time.
+  const options = readDesignOptions(existingMeta);
+  const hardIds = splitPlotFactorIds(doe, options, configs);
+  const changeoverCosts = changeoverOrderCosts(options, configs, hardIds);
+  if (nonRandomizedParamId && !hardIds.length && !changeoverCosts) {
+    designRuns = applyNonRandomizedParamOrder(designRuns, nonRandomizedParamId);
+  }
 
-  const runsToInsert: Array<
-    Omit<
-      {
-        id: number;
-        experiment_id: number;
-        run_order: number;
-        run_code: string;
-        recipe_id: number | null;
-        replicate_key: string | null;
-        replicate_index: number | null;
-        done: number;
-        exclude_from_analysis: number;
-        created_at: string;
-      },
-      "id" | "created_at" | "experiment_id"
-    >
-  > = [];
+  const { recipeBlock, recipeList } = recipeBlocks(db, experimentId, doe);
+
+  const splitPlotSize = options.split_plot_size;
+  let wholePlotOffset = 0;
+  const plannedRuns: PlannedRun[] = [];
+  for (const blockRecipeId of recipeList) {
+    const blockRuns = designRuns.flatMap((baseRun) =>
+      Array.from({ length: doe.replicate_count }, (_, r) => ({
+        values: baseRun.values,
+        designIndex: baseRun.designIndex,
+        recipeId: baseRun.recipeId ?? blockRecipeId,
+        replicate: r + 1,
+        wholePlot: null as number | null,
+        replicateKey: buildReplicateKey(baseRun.values, baseRun.recipeId ?? blockRecipeId, recipeBlock)
+      }))
+    );
+    if (changeoverCosts) {
+      plannedRuns.push(...optimizeRunOrder(blockRuns, changeoverCosts, doe.seed + (blockRecipeId ?? 0)));
+      continue;
+    }
+    if (!hardIds.length) {
+      plannedRuns.push(...blockRuns);
+      continue;
+    }
+    const arranged = arrangeSplitPlot(blockRuns, hardIds, doe.seed + (blockRecipeId ?? 0), splitPlotSize);
+    arranged.forEach((run) => plannedRuns.push({ ...run, wholePlot: run.wholePlot + wholePlotOffset }));
+    wholePlotOffset = arranged.reduce((acc, run) => Math.max(acc, run.wholePlot + wholePlotOffset), wholePlotOffset);
+  }
+  if (hardIds.length) {
+    const plotSizes = new Map<number | null, number>();
+    plannedRuns.forEach((run) => plotSizes.set(run.wholePlot, (plotSizes.get(run.wholePlot) ?? 0) + 1));
+    metadata.split_plot_layout = {
+      hard_ids: hardIds,
+      whole_plots: plotSizes.size,
+      // CCD, optimal and space-filling designs rarely repeat a hard-to-change setting, leaving one-run plots.
+      single_run_plots: Array.from(plotSizes.values()).filter((size) => size === 1).length,
+      max_size: splitPlotSize
+    };
+  } else {
+    metadata.split_plot_layout = null;
+  }
+
+  return { doe, existingMeta, inputParams, configs, plan, plannedRuns, nonRandomizedParamId };
+}
+
+export type RunlistDiff = {
+  kept: Array<{ run: Run; planned: PlannedRun | null }>;
+  // Kept pending runs whose fixed (non-design) inputs changed; their stored values are rewritten.
+  refixed: Run[];
+  added: PlannedRun[];
+  // Existing runs that match no design point; those with results stay, the rest are removed.
+  orphaned: Array<{ run: Run; hasResults: boolean }>;
+};
+
+/**
+ * Matches planned runs to existing runs by replicate key. Within a key, completed runs and runs
+ * with results are matched first, then by run order; runs kept by the design itself (OPTIMAL
+ * completed runs) are always kept. The key covers the design values only: a run with results made
+ * at other fixed inputs does not match (it stays as an orphan), a pending one is matched and refixed.
+ */
+function diffRunlist(
+  existing: Run[],
+  resultIds: Set<number>,
+  preserved: Run[],
+  planned: PlannedRun[],
+  fixedChanged: (run: Run, planned: PlannedRun) => boolean
+): RunlistDiff {
+  const preservedIds = new Set(preserved.map((run) => run.id));
+  const byKey = new Map<string, Run[]>();
+  existing
+    .filter((run) => !preservedIds.has(run.id))
+    .sort(
+      (a, b) =>
+        b.done - a.done ||
+        Number(resultIds.has(b.id)) - Number(resultIds.has(a.id)) ||
+        a.run_order - b.run_order
+    )
+    .forEach((run) => {
+      const key = run.replicate_key ?? "";
+      if (!byKey.has(key)) byKey.set(key, []);
+      byKey.get(key)!.push(run);
+    });
+  const hasResults = (run: Run) => run.done === 1 || resultIds.has(run.id);
+  const kept: RunlistDiff["kept"] = preserved.map((run) => ({ run, planned: null }));
+  const refixed: Run[] = [];
+  const added: PlannedRun[] = [];
+  for (const plannedRun of planned) {
+    const candidates = byKey.get(plannedRun.replicateKey) ?? [];
+    const matchIdx = candidates.findIndex((run) => !hasResults(run) || !fixedChanged(run, plannedRun));
+    if (matchIdx >= 0) {
+      const [match] = candidates.splice(matchIdx, 1);
+      kept.push({ run: match, planned: plannedRun });
+      if (fixedChanged(match, plannedRun)) refixed.push(match);
+    } else {
+      added.push(plannedRun);
+    }
+  }
+  const orphaned = Array.from(byKey.values())
+    .flat()
+    .sort((a, b) => a.run_order - b.run_order)
+    .map((run) => ({ run, hasResults: hasResults(run) }));
+  kept.sort((a, b) => a.run.run_order - b.run.run_order);
+  return { kept, refixed, added, orphaned };
+}
+
+// Inputs a planned run does not set take their configured value; compares those with a stored run's.
+function fixedInputsChanged(db: Db, inputParams: ParamDefinition[], configs: ParamConfig[]) {
+  const stored = new Map<number, RunValue[]>();
+  return (run: Run, planned: PlannedRun) => {
+    if (!stored.has(run.id)) stored.set(run.id, listRunValues(db, run.id));
+    const values = stored.get(run.id)!;
+    return fixedRunValues(inputParams, configs, planned).some((expected) => {
+      const value = values.find((entry) => entry.param_def_id === expected.param_def_id);
+      return (value?.value_real ?? null) !== expected.value_real || (value?.value_text ?? null) !== expected.value_text;
+    });
+  };
+}
+
+function fixedRunValues(inputParams: ParamDefinition[], configs: ParamConfig[], planned: PlannedRun) {
+  return inputParams
+    .filter((input) => planned.values[input.id] == null)
+    .map((input) => ({
+      param_def_id: input.id,
+      ...inputRunValue(
+        input,
+        configs.find((cfg) => cfg.param_def_id === input.id),
+        undefined
+      )
+    }));
+}
+
+/**
+ * What regenerating in keep-results mode would do to the current runlist, for the confirmation
+ * preview. Mixture recipes are not created here; added mixture runs show their blend values only.
+ */
+export function previewRegeneration(db: Db, experimentId: number, doeId: number): RunlistDiff {
+  const { plan, plannedRuns, inputParams, configs } = planRunlist(db, experimentId, doeId);
+  return diffRunlist(
+    listRuns(db, doeId),
+    new Set(listRunIdsWithResults(db, doeId)),
+    plan.preservedRuns,
+    plannedRuns,
+    fixedInputsChanged(db, inputParams, configs)
+  );
+}
+
+/**
+ * Writes the runlist for a DOE. "replace" rebuilds it (keeping only runs the design itself keeps);
+ * "keep_results" matches the new design to the existing runs by replicate key, keeps matched runs
+ * and orphaned runs with results, removes orphaned runs without results and appends the rest.
+ */
+export function generateRuns(
+  db: Db,
+  experimentId: number,
+  doeId: number,
+  mode: "replace" | "keep_results" = "replace"
+) {
+  const experiment = getExperiment(db, experimentId);
+  if (!experiment) throw new Error("Experiment not found");
+  const doe = getDoeStudy(db, doeId);
+  if (!doe) throw new Error("DOE not found");
+
+  if (doe.design_type === "MIXTURE") {
+    const meta = parseDesignMetadata(getDesignMetadata(db, experimentId, doeId));
+    syncMixtureFactors(db, experimentId, doeId, readDesignOptions(meta).mixture_components);
+  }
+  const { existingMeta, inputParams, configs, plan, plannedRuns, nonRandomizedParamId } = planRunlist(
+    db,
+    experimentId,
+    doeId
+  );
+  const outputParams = listParamDefinitionsByKind(db, experimentId, "OUTPUT");
+  const { preservedRuns, metadata, mixtureBlend } = plan;
+
+  const diff =
+    mode === "keep_results"
+      ? diffRunlist(
+          listRuns(db, doeId),
+          new Set(listRunIdsWithResults(db, doeId)),
+          preservedRuns,
+          plannedRuns,
+          fixedInputsChanged(db, inputParams, configs)
+        )
+      : null;
+  const remainingRuns = diff
+    ? [...diff.kept.map((entry) => entry.run), ...diff.orphaned.filter((entry) => entry.hasResults).map((entry) => entry.run)]
+    : preservedRuns;
+  const runsToAdd = diff ? diff.added : plannedRuns;
+
+  let blendRecipeIds: number[] = [];
+  if (mixtureBlend) {
+    const previousMixture = existingMeta.mixture as { recipe_ids?: unknown } | null | undefined;
+    // Kept runs move to the new blend recipes below; runs kept without a design point still use theirs.
+    const movedIds = new Set(diff?.kept.filter((entry) => entry.planned).map((entry) => entry.run.id) ?? []);
+    const inUse = new Set(remainingRuns.filter((run) => !movedIds.has(run.id)).map((run) => run.recipe_id));
+    if (Array.isArray(previousMixture?.recipe_ids)) {
+      previousMixture.recipe_ids.forEach((id) => {
+        if (typeof id === "number" && !inUse.has(id)) deleteRecipe(db, id);
+      });
+    }
+    blendRecipeIds = plan.designRuns.map((run, idx) => {
+      const recipeId = createRecipe(
+        db,
+        `${doe.name} M${String(idx + 1).padStart(2, "0")}`,
+        `Mixture blend ${idx + 1} of ${plan.designRuns.length}`
+      );
+      replaceRecipeComponents(
+        db,
+        recipeId,
+        mixtureBlend.baseComponents.map((base) => {
+          const component = mixtureBlend.varied.find((entry) => entry.name === base.component_name);
+          const phr = component ? run.values[component.paramDefId] * mixtureBlend.total : base.phr;
+          return { recipe_id: recipeId, component_name: base.component_name, phr: Math.round(phr * 1000) / 1000 };
+        })
+      );
+      return recipeId;
+    });
+    (metadata.mixture as Record<string, unknown>).recipe_ids = blendRecipeIds;
+    // Kept mixture runs move to the new recipe for their (unchanged) blend.
+    diff?.kept.forEach(({ run, planned }) => {
+      if (planned) updateRunRecipe(db, run.id, blendRecipeIds[planned.designIndex]);
+    });
+  }
+
+  // Added whole plots are numbered after the kept ones: they are run at a different time.
+  const wholePlotOffset = remainingRuns.reduce((acc, run) => Math.max(acc, run.whole_plot ?? 0), 0);
+  const runsToInsert: Array<Omit<Run, "id" | "created_at" | "exclude_reason">> = [];
   const valuesToInsert: Array<{
     run_id: number;
     param_def_id: number;
@@ -268,64 +1142,286 @@ export function generateRuns(db: Db, experimentId: number, doeId: number) {
     value_tags_json: string | null;
   }> = [];
 
-  let runOrder = 1;
-  const inputMap = new Map<number, ParamDefinition>();
-  inputParams.forEach((param) => inputMap.set(param.id, param));
+  let runOrder = remainingRuns.reduce((acc, run) => Math.max(acc, run.run_order), 0) + 1;
+  for (const plannedRun of runsToAdd) {
+    const runCode = `E${experimentId}-R${String(runOrder).padStart(3, "0")}`;
+    runsToInsert.push({
+      experiment_id: experimentId,
+      doe_id: doeId,
+      run_order: runOrder,
+      run_code: runCode,
+      recipe_id: mixtureBlend ? blendRecipeIds[plannedRun.designIndex] : plannedRun.recipeId,
+      replicate_key: plannedRun.replicateKey,
+      replicate_index: plannedRun.replicate,
+      whole_plot: plannedRun.wholePlot == null ? null : plannedRun.wholePlot + wholePlotOffset,
+      block: null,
+      done: 0,
+      exclude_from_analysis: 0
+    });
 
-  for (const recipeId of recipeList) {
-    for (const baseRun of designRuns) {
-      for (let r = 0; r < doe.replicate_count; r += 1) {
-        const runCode = `E${experimentId}-R${String(runOrder).padStart(3, "0")}`;
-        const replicateKey = buildReplicateKey(baseRun.values, recipeId, recipeBlock);
-        runsToInsert.push({
-          experiment_id: experimentId,
-          doe_id: doeId,
-          run_order: runOrder,
-          run_code: runCode,
-          recipe_id: recipeId,
-          replicate_key: replicateKey,
-          replicate_index: r + 1,
-          done: 0,
-          exclude_from_analysis: 0
-        });
+    for (const input of inputParams) {
+      const config = configs.find((cfg) => cfg.param_def_id === input.id);
+      valuesToInsert.push({
+        run_id: runOrder,
+        param_def_id: input.id,
+        ...inputRunValue(input, config, plannedRun.values[input.id]),
+        value_tags_json: null
+      });
+    }
 
-        for (const input of inputParams) {
-          const config = configs.find((cfg) => cfg.param_def_id === input.id);
-          const value = baseRun.values[input.id];
-          const fallback = deriveFallbackValue(config);
-          const finalValue = value ?? fallback ?? null;
-          valuesToInsert.push({
-            run_id: runOrder,
-            param_def_id: input.id,
-            value_real: finalValue,
-            value_text: null,
-            value_tags_json: null
-          });
-        }
+    for (const output of outputParams) {
+      valuesToInsert.push({
+        run_id: runOrder,
+        param_def_id: output.id,
+        value_real: null,
+        value_text: null,
+        value_tags_json: null
+      });
+    }
 
-        for (const output of outputParams) {
-          valuesToInsert.push({
-            run_id: runOrder,
-            param_def_id: output.id,
-            value_real: null,
-            value_text: null,
-            value_tags_json: null
-          });
-        }
+    runOrder += 1;
+  }
+
+  if (!diff) metadata.augmentations = [];
+  diff?.kept.forEach(({ run, planned }) => {
+    if (!planned || !diff.refixed.includes(run)) return;
+    fixedRunValues(inputParams, configs, planned).forEach((value) =>
+      upsertRunValue(db, { run_id: run.id, ...value, value_tags_json: null })
+    );
+  });
+  if (diff) {
+    deleteRuns(
+      db,
+      diff.orphaned.filter((entry) => !entry.hasResults).map((entry) => entry.run.id)
+    );
+  } else if (preservedRuns.length) {
+    deletePendingRuns(db, doeId);
+  } else {
+    deleteRunsForExperiment(db, doeId);
+  }
+  insertRuns(db, experimentId, doeId, runsToInsert, valuesToInsert);
+  upsertDesignMetadata(
+    db,
+    experimentId,
+    doeId,
+    JSON.stringify({ ...existingMeta, ...metadata, non_randomized_param_id: nonRandomizedParamId })
+  );
+}
+
+function activeFactorConfigs(inputParams: ParamDefinition[], configs: ParamConfig[]) {
+  return configs
+    .filter((config) => config.active === 1)
+    .map((config) => ({ config, param: inputParams.find((param) => param.id === config.param_def_id) }))
+    .filter((entry): entry is { config: ParamConfig; param: ParamDefinition } => entry.param != null)
+    .map((entry) => configToFactor(entry.config, entry.param));
+}
 
-        runOrder += 1;
+/**
+ * Design evaluation of the runlist generation would produce right now (replicates and recipe
+ * blocks included), coded over the active factors' low/high levels. Factors are lettered like the
+ * SCREEN alias table. Null for mixture designs, whose components are not independent.
+ */
+export function evaluatePlannedDesign(
+  db: Db,
+  experimentId: number,
+  doeId: number,
+  options: { model: ModelKind; effectSize: number; alpha: number }
+) {
+  const { doe, inputParams, configs, plan, plannedRuns } = planRunlist(db, experimentId, doeId);
+  if (doe.design_type === "MIXTURE") return null;
+  const preserved = plan.preservedRuns.map((run) => storedDesignValues(db, run.id, inputParams, configs));
+  const { factors, rows } = codeRuns(activeFactorConfigs(inputParams, configs), [
+    ...preserved,
+    ...plannedRuns.map((run) => run.values)
+  ]);
+  const letters = factors.map((factor, idx) => ({ letter: factorLetter(idx), label: factor.label }));
+  return {
+    letters,
+    evaluation: evaluateDesign(
+      rows,
+      letters.map((entry) => entry.letter),
+      options.model,
+      { effectSize: options.effectSize, alpha: options.alpha, seed: doe.seed }
+    )
+  };
+}
+
+export type AugmentOptions = {
+  kind: AugmentKind;
+  foldFactorId: number | null;
+  alpha: AugmentAlpha;
+  centerPoints: number;
+};
+
+/**
+ * Appends augmentation runs (fold-over, axial or center points) to a DOE as a new block, keeping
+ * every existing run. Returns the number of runs added; zero when the design has nothing to extend.
+ */
+export function augmentDesign(db: Db, experimentId: number, doeId: number, options: AugmentOptions): number {
+  const doe = getDoeStudy(db, doeId);
+  if (!doe) throw new Error("DOE not found");
+  const existingMeta = parseDesignMetadata(getDesignMetadata(db, experimentId, doeId));
+  const inputParams = listParamDefinitionsByKind(db, experimentId, "INPUT");
+  const outputParams = listParamDefinitionsByKind(db, experimentId, "OUTPUT");
+  const configs = listParamConfigs(db, experimentId, doeId);
+  const factorConfigs = activeFactorConfigs(inputParams, configs);
+
+  const existingRuns = listRuns(db, doeId);
+  const existingValues = existingRuns.map((run) => storedDesignValues(db, run.id, inputParams, configs));
+  const block = existingRuns.reduce((acc, run) => Math.max(acc, run.block ?? 1), 0) + 1;
+  const { runs, alpha } = buildAugmentRuns(factorConfigs, existingValues, doe.seed + block, options);
+  if (!runs.length) return 0;
+
+  const { recipeBlock, recipeList } = recipeBlocks(db, experimentId, doe);
+  const runsToInsert: Array<Omit<Run, "id" | "created_at" | "exclude_reason">> = [];
+  const valuesToInsert: RunValue[] = [];
+  let runOrder = existingRuns.reduce((acc, run) => Math.max(acc, run.run_order), 0) + 1;
+  for (const recipeId of recipeList) {
+    for (const run of runs) {
+      runsToInsert.push({
+        experiment_id: experimentId,
+        doe_id: doeId,
+        run_order: runOrder,
+        run_code: `E${experimentId}-R${String(runOrder).padStart(3, "0")}`,
+        recipe_id: recipeId,
+        replicate_key: buildReplicateKey(run.values, recipeId, recipeBlock),
+        replicate_index: 1,
+        whole_plot: null,
+        block,
+        done: 0,
+        exclude_from_analysis: 0
+      });
+      for (const input of inputParams) {
+        const config = configs.find((cfg) => cfg.param_def_id === input.id);
+        valuesToInsert.push({
+          run_id: runOrder,
+          param_def_id: input.id,
+          ...inputRunValue(input, config, run.values[input.id]),
+          value_tags_json: null
+        });
       }
+      for (const output of outputParams) {
+        valuesToInsert.push({
+          run_id: runOrder,
+          param_def_id: output.id,
+          value_real: null,
+          value_text: null,
+          value_tags_json: null
+        });
+      }
+      runOrder += 1;
     }
   }
-
-  deleteRunsForExperiment(db, doeId);
   insertRuns(db, experimentId, doeId, runsToInsert, valuesToInsert);
+
+  const previous = Array.isArray(existingMeta.augmentations) ? existingMeta.augmentations : [];
+  const augmentation = {
+    block,
+    kind: options.kind,
+    runs: runsToInsert.length,
+    fold_factor_id: options.kind === "fold_over" ? options.foldFactorId : null,
+    alpha,
+    center_points: options.centerPoints,
+    created_at: new Date().toISOString()
+  };
   upsertDesignMetadata(
     db,
     experimentId,
     doeId,
-    JSON.stringify({ ...existingMeta, ...metadata, non_randomized_param_id: nonRandomizedParamId })
+    JSON.stringify({ ...existingMeta, augmentations: [...previous, augmentation] })
   );
+  return runsToInsert.length;
+}
+
+// Active hard-to-change factors of a DOE with split-plot randomization on; empty when runs are fully randomized.
+export function splitPlotFactorIds(doe: DoeStudy, options: DesignOptions, configs: ParamConfig[]): number[] {
+  if (!options.split_plot || doe.design_type === "TAGUCHI" || doe.design_type === "MIXTURE") return [];
+  return configs
+    .filter((config) => config.active === 1 && config.factor_role === "HARD")
+    .map((config) => config.param_def_id);
+}
+
+// Changeover minutes of the active factors when runs are ordered by changeover time; null otherwise.
+function changeoverOrderCosts(
+  options: DesignOptions,
+  configs: ParamConfig[],
+  hardIds: number[]
+): Record<number, number> | null {
+  if (options.run_order !== "changeover" || hardIds.length) return null;
+  return activeChangeoverCosts(options, configs);
+}
+
+function activeChangeoverCosts(options: DesignOptions, configs: ParamConfig[]): Record<number, number> {
+  const costs: Record<number, number> = {};
+  configs
+    .filter((config) => config.active === 1 && options.changeover_minutes[config.param_def_id] != null)
+    .forEach((config) => {
+      costs[config.param_def_id] = options.changeover_minutes[config.param_def_id];
+    });
+  return costs;
+}
+
+export type RunScheduleView = {
+  runMinutes: number;
+  totalMinutes: number;
+  changeoverMinutes: number;
+  // The same runs in a plain seeded shuffle, for comparison.
+  randomTotalMinutes: number;
+  randomChangeoverMinutes: number;
+  entries: Array<{ runId: number; runCode: string; start: number; changeover: number; changed: number[] }>;
+};
+
+// Estimated timeline of the stored runlist: run time plus the changeover before each run.
+export function runSchedule(db: Db, experimentId: number, doeId: number): RunScheduleView | null {
+  const doe = getDoeStudy(db, doeId);
+  if (!doe) return null;
+  const runs = listRuns(db, doeId);
+  if (!runs.length) return null;
+  const options = readDesignOptions(parseDesignMetadata(getDesignMetadata(db, experimentId, doeId)));
+  const inputParams = listParamDefinitionsByKind(db, experimentId, "INPUT");
+  const configs = listParamConfigs(db, experimentId, doeId);
+  const costs = activeChangeoverCosts(options, configs);
+  const values = runs.map((run) => storedDesignValues(db, run.id, inputParams, configs));
+  const schedule = buildSchedule(values, costs, options.run_minutes);
+  const random = buildSchedule(seededShuffle(values, doe.seed), costs, options.run_minutes);
+  return {
+    runMinutes: options.run_minutes,
+    totalMinutes: schedule.totalMinutes,
+    changeoverMinutes: schedule.changeoverMinutes,
+    randomTotalMinutes: random.totalMinutes,
+    randomChangeoverMinutes: random.changeoverMinutes,
+    entries: runs.map((run, idx) => ({ runId: run.id, runCode: run.run_code, ...schedule.entries[idx] }))
+  };
+}
+
+// Stored value columns of a design value: the level name for a categorical input, else the number.
+function inputRunValue(param: ParamDefinition, config: ParamConfig | undefined, value: number | undefined) {
+  const categories = categoryLevels(param, config);
+  if (categories) {
+    return { value_real: null, value_text: categories[value ?? 0] ?? null };
+  }
+  return { value_real: value ?? deriveFallbackValue(config) ?? null, value_text: null };
+}
+
+// A stored run's settings in design terms: numbers as stored, categorical levels as their index.
+function storedDesignValues(
+  db: Db,
+  runId: number,
+  inputParams: ParamDefinition[],
+  configs: ParamConfig[]
+): Record<number, number> {
+  const values: Record<number, number> = {};
+  listRunValues(db, runId).forEach((value) => {
+    if (value.value_real != null) {
+      values[value.param_def_id] = value.value_real;
+      return;
+    }
+    const param = inputParams.find((entry) => entry.id === value.param_def_id);
+    const config = configs.find((entry) => entry.param_def_id === value.param_def_id);
+    const level = param && value.value_text != null ? categoryLevels(param, config)?.indexOf(value.value_text) ?? -1 : -1;
+    if (level >= 0) values[value.param_def_id] = level;
+  });
+  return values;
 }
 
 function deriveFallbackValue(config: ParamConfig | undefined): number | null {
@@ -341,14 +1437,14 @@ function deriveFallbackValue(config: ParamConfig | undefined): number | null {
   }
   if (config.mode === "LIST") {
     if (!config.list_json) return null;
-    const list = JSON.parse(config.list_json) as number[];
-    return list.length ? list[0] : null;
+    const list = JSON.parse(config.list_json) as unknown[];
+    return typeof list[0] === "number" ? list[0] : null;
   }
   return null;
 }
 
-function applyNonRandomizedParamOrder(
-  runs: Array<{ values: Record<number, number>; coded?: Record<number, number> }>,
+function applyNonRandomizedParamOrder<T extends DesignRun>(
+  runs: T[],
   paramDefId: number
 ) {
   const indexed = runs.map((run, idx) => ({ run, idx }));
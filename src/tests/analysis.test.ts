@@ -0,0 +1,341 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import fs from "node:fs";
+import os from "node:os";
+import request from "supertest";
+import { predictResponseSurface, replicateModelInput, summarizeReplicates } from "../services/analysis_service.js";
+import type { AnalysisValueRow, RunRow, SurfaceFactor } from "../services/analysis_service.js";
+import type { Db } from "../db.js";
+import { listParamConfigs, listParamDefinitionsByKind, upsertParamConfig } from "../repos/params_repo.js";
+
+let dbPath = "";
+let session: { agent: ReturnType<typeof request.agent>; db: Db } | null = null;
+
+before(() => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "im-planner-"));
+  dbPath = path.join(tempDir, "analysis.sqlite");
+  process.env.DB_PATH = dbPath;
+  process.env.SESSION_SECRET = "test-secret";
+  process.env.ADMIN_EMAIL = "admin@example.com";
+  process.env.ADMIN_TEMP_PASSWORD = "TempPass123!";
+});
+
+after(() => {
+  session?.db.close();
+  if (dbPath && fs.existsSync(dbPath)) {
+    try {
+      fs.unlinkSync(dbPath);
+    } catch {
+      // ignore locked db on Windows
+    }
+  }
+});
+
+const FIELD_ID = 100;
+
+function runRow(id: number, values: Record<number, number | null>, texts: Record<number, string> = {}): RunRow {
+  return {
+    id,
+    run_order: id,
+    run_code: `R${id}`,
+    recipe_id: null,
+    doe_id: 1,
+    whole_plot: null,
+    block: null,
+    replicate_key: null,
+    exclude_from_analysis: 0,
+    exclude_reason: null,
+    done: 1,
+    values,
+    texts,
+    tags: {}
+  };
+}
+
+function valueMap(entries: Array<[number, number]>) {
+  return new Map<string, AnalysisValueRow>(
+    entries.map(([runId, value]) => [
+      `${runId}:${FIELD_ID}`,
+      { run_id: runId, field_id: FIELD_ID, value_real: value, value_text: null, value_tags_json: null }
+    ])
+  );
+}
+
+// y = 5 + 0.2 (A - 20) + 3 [B = "Y"] with ±0.01 noise, A at 10/20/30 and B at X/Y, twice each.
+function knownModel() {
+  const runs: RunRow[] = [];
+  const values: Array<[number, number]> = [];
+  [10, 20, 30].forEach((a) =>
+    ["X", "Y"].forEach((b) =>
+      [1, -1].forEach((sign) => {
+        const id = runs.length + 1;
+        runs.push(runRow(id, { 1: a }, { 2: b }));
+        values.push([id, 5 + 0.2 * (a - 20) + (b === "Y" ? 3 : 0) + 0.01 * sign]);
+      })
+    )
+  );
+  const factors: SurfaceFactor[] = [
+    { paramId: 1, label: "A", levels: null, scale: null },
+    { paramId: 2, label: "B", levels: ["X", "Y"], scale: null }
+  ];
+  return { runs, map: valueMap(values), factors };
+}
+
+const MAIN_EFFECTS = { kind: "main" as const, selection: "none" as const, alpha: 0.1 };
+
+test("prediction profiler reproduces a known model at given, missing and out-of-range settings", () => {
+  const { runs, map, factors } = knownModel();
+  const at = (settings: Array<[number, number | string]>) =>
+    predictResponseSurface(runs, map, FIELD_ID, factors, MAIN_EFFECTS, new Map(settings))!;
+
+  const point = at([
+    [1, 25],
+    [2, "Y"]
+  ]);
+  assert.equal(point.n, 12);
+  assert.ok(Math.abs(point.predicted - 9) < 1e-9);
+  assert.ok(point.ci && point.ci[0] < 9 && point.ci[1] > 9);
+  assert.ok(point.pi && point.pi[0] < point.ci[0] && point.pi[1] > point.ci[1]);
+  assert.deepEqual(
+    point.settings.map((setting) => [setting.value, setting.extrapolated]),
+    [
+      [25, false],
+      ["Y", false]
+    ]
+  );
+
+  // Missing settings take the middle of the tested range and the first level.
+  const defaults = at([]);
+  assert.deepEqual(
+    defaults.settings.map((setting) => setting.value),
+    [20, "X"]
+  );
+  assert.ok(Math.abs(defaults.predicted - 5) < 1e-9);
+
+  // Outside the tested range the model is extrapolated and flagged; unknown levels fall back to the first.
+  const outside = at([
+    [1, 40],
+    [2, "Z"]
+  ]);
+  assert.ok(Math.abs(outside.predicted - 9) < 1e-9);
+  assert.deepEqual(
+    outside.settings.map((setting) => [setting.value, setting.extrapolated]),
+    [
+      [40, true],
+      ["X", false]
+    ]
+  );
+  assert.ok(outside.ci![1] - outside.ci![0] > point.ci![1] - point.ci![0]);
+
+  // Slices span the tested range (or every level) through the point.
+  const [slice, levelSlice] = point.slices;
+  assert.equal(slice.points[0].x, 10);
+  assert.equal(slice.points[slice.points.length - 1].x, 30);
+  assert.ok(Math.abs(slice.points[0].predicted - 6) < 1e-9);
+  assert.deepEqual(
+    levelSlice.points.map((entry) => [entry.x, Math.round(entry.predicted * 1e9) / 1e9]),
+    [
+      ["X", 6],
+      ["Y", 9]
+    ]
+  );
+
+  // Too few results for the model terms.
+  assert.equal(predictResponseSurface([runs[0], runs[11]], map, FIELD_ID, factors, MAIN_EFFECTS, new Map()), null);
+  assert.equal(predictResponseSurface([], map, FIELD_ID, factors, MAIN_EFFECTS, new Map()), null);
+});
+
+test("replicate summary averages each design point and pools the pure error of replicated points", () => {
+  const replicate = (id: number, key: string | null, a: number) => ({ ...runRow(id, { 1: a }), replicate_key: key });
+  // p1: spread 10/12/14; p2: no spread; run 6: a single run; p4: its second run has no result yet.
+  const runs = [
+    replicate(1, "p1", 10),
+    replicate(2, "p1", 10),
+    replicate(3, "p1", 10),
+    replicate(4, "p2", 20),
+    replicate(5, "p2", 20),
+    replicate(6, null, 30),
+    replicate(7, "p4", 40),
+    replicate(8, "p4", 40)
+  ];
+  const map = valueMap([
+    [1, 10],
+    [2, 12],
+    [3, 14],
+    [4, 7],
+    [5, 7],
+    [6, 3],
+    [7, 5]
+  ]);
+  const summary = summarizeReplicates(runs, map, FIELD_ID);
+  assert.deepEqual(
+    summary.points.map((point) => [point.key, point.n, point.mean, point.runCodes]),
+    [
+      ["p1", 3, 12, ["R1", "R2", "R3"]],
+      ["p2", 2, 7, ["R4", "R5"]],
+      ["run:6", 1, 3, ["R6"]],
+      ["p4", 1, 5, ["R7"]]
+    ]
+  );
+  const [spread, flat, single, partial] = summary.points;
+  assert.ok(Math.abs(spread.logSd - Math.log(2)) < 1e-12);
+  assert.equal(flat.sd, 0);
+  assert.ok(Number.isNaN(flat.logSd));
+  assert.ok(Number.isNaN(single.sd) && Number.isNaN(single.logSd));
+  assert.ok(Number.isNaN(partial.logSd));
+
+  // Pure error pools (n - 1) degrees of freedom over the points with two or more results.
+  assert.equal(summary.replicated, 2);
+  assert.equal(summary.pureError?.df, 3);
+  assert.ok(Math.abs(summary.pureError!.ss - 8) < 1e-12);
+  assert.ok(Math.abs(summary.pureError!.ms - 8 / 3) < 1e-12);
+
+  const means = replicateModelInput(runs, summary, FIELD_ID, "mean");
+  assert.deepEqual(
+    means.runs.map((run) => [run.id, run.run_code]),
+    [
+      [1, "R1, R2, R3"],
+      [4, "R4, R5"],
+      [6, "R6"],
+      [7, "R7"]
+    ]
+  );
+  assert.deepEqual(
+    means.runs.map((run) => means.analysisValueMap.get(`${run.id}:${FIELD_ID}`)?.value_real),
+    [12, 7, 3, 5]
+  );
+
+  // ln(SD) keeps only points with two or more results and some spread.
+  const logSd = replicateModelInput(runs, summary, FIELD_ID, "log_sd");
+  assert.deepEqual(
+    logSd.runs.map((run) => run.id),
+    [1]
+  );
+  assert.ok(Math.abs(logSd.analysisValueMap.get(`1:${FIELD_ID}`)!.value_real! - Math.log(2)) < 1e-12);
+
+  // Without replicates there is no pure error.
+  assert.equal(summarizeReplicates([runs[5]], map, FIELD_ID).pureError, null);
+});
+
+async function signIn() {
+  if (session) return session;
+  const { createApp } = await import("../app.js");
+  const { openDb } = await import("../db.js");
+  const agent = request.agent(createApp());
+  await agent.post("/auth/login").type("form").send({ email: "admin@example.com", password: "TempPass123!" }).expect(302);
+  await agent
+    .post("/auth/change-password")
+    .type("form")
+    .send({ password: "NewPass123!", confirm: "NewPass123!" })
+    .expect(302);
+  session = { agent, db: openDb() };
+  return session;
+}
+
+async function createExperiment(name: string) {
+  const { agent, db } = await signIn();
+  await agent.post("/experiments").type("form").send({ name }).expect(302);
+  return (db.prepare("SELECT id FROM experiments ORDER BY id DESC LIMIT 1").get() as { id: number }).id;
+}
+
+async function createScreenDoe(experimentId: number) {
+  const { agent, db } = await signIn();
+  await agent.post(`/experiments/${experimentId}/doe`).type("form").send({ name: "Screen", design_type: "SCREEN" });
+  return (db.prepare("SELECT id FROM doe_studies ORDER BY id DESC LIMIT 1").get() as { id: number }).id;
+}
+
+function numberField(doeId: number) {
+  return session!.db
+    .prepare(
+      "SELECT id FROM analysis_fields WHERE scope_type = 'DOE' AND scope_id = ? AND field_type = 'number' AND is_active = 1"
+    )
+    .get(doeId) as { id: number };
+}
+
+function recordResults(doeId: number, fieldId: number) {
+  const { db } = session!;
+  const runs = db.prepare("SELECT id FROM runs WHERE doe_id = ? ORDER BY run_order").all(doeId) as Array<{ id: number }>;
+  const insert = db.prepare("INSERT INTO analysis_run_values (run_id, field_id, value_real) VALUES (?, ?, ?)");
+  runs.forEach((run, idx) => insert.run(run.id, fieldId, 10 + (idx % 3) * 0.5 + idx * 0.01));
+  return runs;
+}
+
+test("ANOVA export fits the varied factors when an active input is held fixed", async () => {
+  const { agent, db } = await signIn();
+  const experimentId = await createExperiment("Fixed input");
+  const doeId = await createScreenDoe(experimentId);
+  const configs = listParamConfigs(db, experimentId, doeId);
+  const varied = configs.filter((config) => config.active === 1 && config.mode !== "FIXED");
+  const fixed = listParamDefinitionsByKind(db, experimentId, "INPUT").find(
+    (param) => param.field_type !== "text" && !configs.some((config) => config.param_def_id === param.id && config.active === 1)
+  )!;
+  upsertParamConfig(db, {
+    experiment_id: experimentId,
+    doe_id: doeId,
+    param_def_id: fixed.id,
+    active: 1,
+    mode: "FIXED",
+    fixed_value_real: 50,
+    range_min_real: null,
+    range_max_real: null,
+    list_json: null,
+    level_count: null
+  });
+  await agent.post(`/experiments/${experimentId}/doe/${doeId}/generate`).expect(302);
+  recordResults(doeId, numberField(doeId).id);
+
+  const res = await agent.get(`/experiments/${experimentId}/doe/${doeId}/export/anova`).expect(200);
+  const sources = res.text
+    .trim()
+    .split("\n")
+    .slice(1)
+    .map((line) => line.split(",")[1]);
+  assert.ok(sources.includes("Model") && sources.includes("Residual"));
+  const labels = listParamDefinitionsByKind(db, experimentId, "INPUT");
+  varied.forEach((config) =>
+    assert.ok(sources.includes(labels.find((param) => param.id === config.param_def_id)!.label))
+  );
+  assert.ok(!sources.includes(fixed.label));
+});
+
+test("predict endpoint answers 404 for unknown studies and 400 for bad requests", async () => {
+  const { agent, db } = await signIn();
+  const experimentId = await createExperiment("Profiler");
+  const otherId = await createExperiment("Other");
+  const doeId = await createScreenDoe(experimentId);
+  const field = numberField(doeId);
+  const base = `/experiments/${experimentId}/doe/${doeId}/predict`;
+
+  let res = await agent.get(`/experiments/${experimentId}/doe/999999/predict?output_param=${field.id}`).expect(404);
+  assert.equal(res.body.error, "DOE not found");
+  await agent.get(`/experiments/${otherId}/doe/${doeId}/predict?output_param=${field.id}`).expect(404);
+
+  res = await agent.get(base).expect(400);
+  assert.match(res.body.error, /output_param/);
+  res = await agent.get(`${base}?output_param=999999`).expect(400);
+  assert.match(res.body.error, /output_param/);
+
+  // No runs yet: nothing to fit.
+  res = await agent.get(`${base}?output_param=${field.id}`).expect(400);
+  assert.match(res.body.error, /Not enough results/);
+
+  await agent.post(`/experiments/${experimentId}/doe/${doeId}/generate`).expect(302);
+  const runs = recordResults(doeId, field.id);
+  const factorId = (
+    db
+      .prepare("SELECT param_def_id FROM param_configs WHERE doe_id = ? AND active = 1 AND mode = 'RANGE' LIMIT 1")
+      .get(doeId) as { param_def_id: number }
+  ).param_def_id;
+
+  res = await agent.get(`${base}?output_param=${field.id}&rsm_model=main&f_${factorId}=abc`).expect(400);
+  assert.match(res.body.error, /not a number/);
+
+  res = await agent.get(`${base}?output_param=${field.id}&rsm_model=main&f_${factorId}=100000`).expect(200);
+  assert.equal(res.body.response.id, field.id);
+  assert.equal(res.body.n, runs.length);
+  assert.ok(Number.isFinite(res.body.predicted));
+  const setting = res.body.settings.find((entry: { paramId: number }) => entry.paramId === factorId);
+  assert.equal(setting.value, 100000);
+  assert.equal(setting.extrapolated, true);
+});
@@ -0,0 +1,716 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  arrangeSplitPlot,
+  buildAugmentRuns,
+  buildCcdDesign,
+  buildDsdDesign,
+  buildFfaDesign,
+  buildMixtureDesign,
+  buildOptimalDesign,
+  buildPlackettBurmanDesign,
+  buildScreenDesign,
+  buildSpaceFillingDesign,
+  buildTaguchiDesign,
+  ccdPlan,
+  conferenceMatrix,
+  dsdPlan,
+  fractionalPlan,
+  mixturePlan,
+  TAGUCHI_ARRAYS,
+  taguchiPlan
+} from "../domain/designs.js";
+import type { FactorConfig } from "../domain/designs.js";
+import { signalToNoise } from "../domain/stats.js";
+import { maximinLatinHypercube, sobolPoints } from "../domain/space_filling.js";
+import { parseConstraints, violatedConstraint } from "../domain/constraints.js";
+import { anovaTable, fitLeastSquares, fitSplitPlot, residualDiagnostics } from "../domain/regression.js";
+import { evaluateDesign } from "../domain/diagnostics.js";
+import { buildSchedule, optimizeRunOrder } from "../domain/run_order.js";
+import { buildModelTerms, modelRow } from "../domain/models.js";
+import { independentColumns, modelEffects, selectEffects, uncodedCoefficients } from "../domain/rsm.js";
+import { individualDesirability, maximizeOverBox, overallDesirability } from "../domain/desirability.js";
+import { lenthPse, screeningEffects } from "../domain/effects.js";
+import { fitLogistic, logistic } from "../domain/logistic.js";
+import { contourLevels, contourSegments } from "../domain/contour.js";
+import { applyTransform, boxCoxLambda, inverseTransform, transformIssue } from "../domain/transforms.js";
+import { aggregateSamples } from "../domain/samples.js";
+import { dot, matVec } from "../domain/matrix.js";
+import { mulberry32, seededShuffle } from "../lib/rng.js";
+
+function rangeFactors(count: number): FactorConfig[] {
+  return Array.from({ length: count }, (_, idx) => ({
+    paramDefId: idx + 1,
+    code: `f${idx + 1}`,
+    label: `Factor ${idx + 1}`,
+    mode: "RANGE" as const,
+    rangeMin: 0,
+    rangeMax: 10,
+    levelCount: 2
+  }));
+}
+
+test("fractional plans meet the requested resolution with standard run counts", () => {
+  assert.equal(fractionalPlan(4, 4)?.runs, 8);
+  assert.equal(fractionalPlan(7, 3)?.runs, 8);
+  assert.equal(fractionalPlan(8, 4)?.runs, 16);
+  assert.equal(fractionalPlan(5, 5)?.runs, 16);
+  for (let k = 3; k <= 11; k += 1) {
+    for (const resolution of [3, 4, 5]) {
+      const plan = fractionalPlan(k, resolution);
+      assert.ok(plan, `no plan for k=${k}`);
+      assert.ok(plan.resolution == null || plan.resolution >= resolution);
+    }
+  }
+});
+
+test("fold-over removes odd-length words from the defining relation", () => {
+  const plan = fractionalPlan(7, 3, true);
+  assert.equal(plan?.runs, 16);
+  assert.equal(plan?.resolution, 4);
+});
+
+test("screen design columns are balanced and orthogonal", () => {
+  const factors = rangeFactors(6);
+  const { runs, codedLevels } = buildScreenDesign(factors, 42, { resolution: 4, foldOver: false });
+  assert.equal(runs.length, 16);
+  for (const a of factors) {
+    assert.equal(codedLevels.reduce((acc, row) => acc + row[a.paramDefId], 0), 0);
+    for (const b of factors) {
+      if (a === b) continue;
+      const dot = codedLevels.reduce((acc, row) => acc + row[a.paramDefId] * row[b.paramDefId], 0);
+      assert.equal(dot, 0);
+    }
+  }
+  assert.ok(runs.every((run) => Object.values(run.values).every((value) => value === 0 || value === 10)));
+});
+
+test("list factors take their lowest and highest values whatever the entry order", () => {
+  const factors: FactorConfig[] = [
+    { paramDefId: 1, code: "f1", label: "Factor 1", mode: "LIST", list: [30, 10, 20] },
+    ...rangeFactors(2).map((factor) => ({ ...factor, paramDefId: factor.paramDefId + 1 }))
+  ];
+  const { runs, codedLevels } = buildScreenDesign(factors, 42, { resolution: 4, foldOver: false });
+  assert.equal(runs.length, 8);
+  runs.forEach((run, idx) => assert.equal(run.values[1], codedLevels[idx][1] === 1 ? 30 : 10));
+});
+
+test("central composite plans use rotatable alpha and stay inside limits for CCI", () => {
+  const plan = ccdPlan(3, { variant: "CCC", alphaMode: "rotatable", centerPoints: 6, axialReplicates: 1 });
+  assert.equal(plan?.runs, 8 + 6 + 6);
+  assert.ok(Math.abs((plan?.alpha ?? 0) - 1.682) < 0.001);
+  assert.equal(ccdPlan(3, { variant: "CCF", alphaMode: "rotatable", centerPoints: 0, axialReplicates: 1 })?.alpha, 1);
+  // Replicated star points lower the rotatable alpha to (F / r_a)^(1/4).
+  const replicated = ccdPlan(3, { variant: "CCC", alphaMode: "rotatable", centerPoints: 6, axialReplicates: 2 });
+  assert.equal(replicated?.runs, 8 + 12 + 6);
+  assert.ok(Math.abs((replicated?.alpha ?? 0) - Math.pow(4, 0.25)) < 1e-12);
+  // Orthogonal alpha keeps the pure quadratic columns uncorrelated: (F + 2 r_a alpha^2)^2 = F N.
+  for (const axialReplicates of [1, 2]) {
+    const orthogonal = ccdPlan(2, { variant: "CCC", alphaMode: "orthogonal", centerPoints: 3, axialReplicates })!;
+    const squares = orthogonal.factorialRuns + 2 * axialReplicates * orthogonal.alpha ** 2;
+    assert.ok(Math.abs(squares ** 2 - orthogonal.factorialRuns * orthogonal.runs) < 1e-9, `r_a = ${axialReplicates}`);
+  }
+
+  const { runs } = buildCcdDesign(rangeFactors(3), 42, {
+    variant: "CCI",
+    alphaMode: "rotatable",
+    centerPoints: 2,
+    axialReplicates: 1
+  });
+  assert.equal(runs.length, 16);
+  const values = runs.flatMap((run) => Object.values(run.values));
+  assert.equal(Math.min(...values), 0);
+  assert.equal(Math.max(...values), 10);
+});
+
+test("plackett-burman designs pick the smallest size and keep columns orthogonal", () => {
+  for (const [k, size] of [[8, 12], [11, 12], [12, 20], [19, 20], [23, 24]]) {
+    const factors = rangeFactors(k);
+    const { codedLevels } = buildPlackettBurmanDesign(factors, 7, { minRuns: 12 });
+    assert.equal(codedLevels.length, size);
+    for (const a of factors) {
+      for (const b of factors) {
+        const dot = codedLevels.reduce((acc, row) => acc + row[a.paramDefId] * row[b.paramDefId], 0);
+        assert.equal(dot, a === b ? size : 0);
+      }
+    }
+  }
+  assert.equal(buildPlackettBurmanDesign(rangeFactors(8), 7, { minRuns: 20 }).size, 20);
+});
+
+test("definitive screening designs are fold-over conference matrices plus a center run", () => {
+  for (const m of [4, 6, 8, 10, 12, 14, 18, 20, 24]) {
+    const matrix = conferenceMatrix(m);
+    assert.ok(matrix, `no conference matrix of order ${m}`);
+    for (let i = 0; i < m; i += 1) {
+      for (let j = 0; j < m; j += 1) {
+        const dot: number = matrix[i].reduce<number>((acc, value, idx) => acc + value * matrix[j][idx], 0);
+        assert.equal(dot, i === j ? m - 1 : 0);
+      }
+    }
+  }
+  assert.equal(dsdPlan(8)?.runs, 17);
+  assert.equal(dsdPlan(7)?.runs, 17);
+
+  const factors = rangeFactors(6);
+  const { runs, codedLevels } = buildDsdDesign(factors, 3);
+  assert.equal(runs.length, 13);
+  for (const factor of factors) {
+    assert.equal(codedLevels.filter((row) => row[factor.paramDefId] === 0).length, 3);
+  }
+  assert.ok(runs.every((run) => Object.values(run.values).every((value) => [0, 5, 10].includes(value))));
+});
+
+test("coordinate exchange finds an orthogonal main-effects design and keeps forced runs", () => {
+  const factors = rangeFactors(4);
+  const { runs, result } = buildOptimalDesign(factors, 11, {
+    model: "main",
+    criterion: "D",
+    runs: 8,
+    forced: []
+  });
+  assert.equal(runs.length, 8);
+  assert.ok(Math.abs((result?.efficiency.dEfficiency ?? 0) - 100) < 1e-6);
+
+  const forced = { 1: 5, 2: 5, 3: 5, 4: 5 };
+  const quadratic = buildOptimalDesign(factors, 11, {
+    model: "quadratic",
+    criterion: "I",
+    runs: null,
+    forced: [forced]
+  });
+  assert.equal(quadratic.budget, 15 + 4);
+  assert.equal(quadratic.runs.length, 19);
+  assert.ok(quadratic.runs.some((run) => factors.every((factor) => run.values[factor.paramDefId] === 5)));
+  assert.ok((quadratic.result?.efficiency.gEfficiency ?? 0) > 0);
+});
+
+test("optimal designs dummy-code categorical factors and balance their levels", () => {
+  const screw: FactorConfig = {
+    paramDefId: 9,
+    code: "screw",
+    label: "Screw",
+    mode: "LIST",
+    list: [0, 1, 2],
+    categories: ["General", "Barrier", "Mixing"]
+  };
+  const factors = [...rangeFactors(2), screw];
+  const { runs, terms, result } = buildOptimalDesign(factors, 5, {
+    model: "interactions",
+    criterion: "D",
+    runs: 12,
+    forced: []
+  });
+  assert.deepEqual(terms.slice(0, 5), ["Intercept", "f1", "f2", "screw[Barrier]", "screw[Mixing]"]);
+  assert.equal(terms.length, 10);
+  assert.equal(runs.length, 12);
+  assert.ok(result && result.efficiency.dEfficiency > 0);
+  for (const level of [0, 1, 2]) {
+    assert.equal(runs.filter((run) => run.values[9] === level).length, 4);
+  }
+  assert.ok(runs.every((run) => [0, 10].includes(run.values[1]) && [0, 10].includes(run.values[2])));
+
+  const ffa = buildFfaDesign(factors, 5, 100);
+  assert.equal(ffa.length, 12);
+  assert.deepEqual(
+    [...new Set(ffa.map((run) => run.values[9]))].sort(),
+    [0, 1, 2]
+  );
+});
+
+test("taguchi arrays are pairwise balanced and crossed with the noise array", () => {
+  for (const array of TAGUCHI_ARRAYS) {
+    for (let a = 0; a < array.columnLevels.length; a += 1) {
+      for (let b = a + 1; b < array.columnLevels.length; b += 1) {
+        const counts = new Map<string, number>();
+        array.rows.forEach((row) => counts.set(`${row[a]}:${row[b]}`, (counts.get(`${row[a]}:${row[b]}`) ?? 0) + 1));
+        assert.equal(counts.size, array.columnLevels[a] * array.columnLevels[b], `${array.name} columns ${a + 1}/${b + 1}`);
+        assert.equal(new Set(counts.values()).size, 1, `${array.name} columns ${a + 1}/${b + 1}`);
+      }
+    }
+  }
+  assert.equal(taguchiPlan([3, 3, 3, 3], [], "auto")?.inner.name, "L9");
+  assert.equal(taguchiPlan([2, 3, 3, 3, 3], [], "auto")?.inner.name, "L18");
+  assert.equal(taguchiPlan([2, 2, 2, 2], [2, 2, 2], "auto")?.runs, 8 * 4);
+
+  const control = rangeFactors(3).map((factor) => ({ ...factor, levelCount: 3 }));
+  const noise = [{ ...rangeFactors(4)[3], rangeMin: 1, rangeMax: 2 }];
+  const { runs, plan } = buildTaguchiDesign(control, noise, 5, { array: "auto" });
+  assert.equal(plan?.inner.name, "L9");
+  assert.equal(runs.length, 18);
+  assert.equal(runs.filter((run) => run.values[4] === 1).length, 9);
+});
+
+test("signal-to-noise ratios are undefined where the log or the spread is", () => {
+  assert.ok(Math.abs(signalToNoise([1, 2], "smaller") - -10 * Math.log10(2.5)) < 1e-12);
+  assert.ok(Math.abs(signalToNoise([1, 2], "larger") - -10 * Math.log10(0.625)) < 1e-12);
+  assert.ok(Number.isNaN(signalToNoise([2, 0], "larger")));
+  assert.ok(Number.isNaN(signalToNoise([2, -1], "larger")));
+  assert.ok(Math.abs(signalToNoise([9, 11], "nominal") - 10 * Math.log10(100 / 2)) < 1e-12);
+  assert.ok(Number.isNaN(signalToNoise([5, 5], "nominal")));
+  assert.ok(Number.isNaN(signalToNoise([5], "nominal")));
+});
+
+test("mixture designs stay on the simplex and inside the component bounds", () => {
+  const free = [0, 1, 2].map((idx) => ({ name: `C${idx}`, lower: 0, upper: 1 }));
+  assert.equal(mixturePlan(free, { kind: "lattice", degree: 2, augment: false })?.points.length, 6);
+  assert.equal(mixturePlan(free, { kind: "lattice", degree: 3, augment: false })?.points.length, 10);
+  assert.equal(mixturePlan(free, { kind: "centroid", degree: 2, augment: false })?.points.length, 7);
+  assert.equal(mixturePlan(free, { kind: "centroid", degree: 2, augment: true })?.points.length, 10);
+
+  const bounded = [
+    { name: "A", lower: 0.4, upper: 0.8 },
+    { name: "B", lower: 0.1, upper: 0.5 },
+    { name: "C", lower: 0.05, upper: 0.2 }
+  ];
+  const sumsToOne = (point: number[]) => Math.abs(point.reduce((acc, value) => acc + value, 0) - 1) < 1e-5;
+  const inBounds = (point: number[]) =>
+    point.every((value, idx) => value >= bounded[idx].lower - 1e-6 && value <= bounded[idx].upper + 1e-6);
+  const lattice = mixturePlan(bounded, { kind: "lattice", degree: 2, augment: false });
+  assert.ok(lattice?.pseudo);
+  assert.equal((lattice?.points.length ?? 0) + (lattice?.excluded ?? 0), 6);
+  assert.ok(lattice?.points.every((point) => sumsToOne(point) && inBounds(point)));
+
+  const extreme = mixturePlan(bounded, { kind: "extreme", degree: 1, augment: false });
+  // Every bound is active somewhere, so the region is a hexagon: 6 vertices plus the centroid.
+  assert.equal(extreme?.points.length, 7);
+  assert.ok(extreme?.points.every((point) => sumsToOne(point) && inBounds(point)));
+  assert.equal(mixturePlan(bounded, { kind: "extreme", degree: 2, augment: false })?.points.length, 13);
+  const infeasible = [
+    { name: "A", lower: 0.7, upper: 1 },
+    { name: "B", lower: 0.5, upper: 1 }
+  ];
+  assert.equal(mixturePlan(infeasible, { kind: "lattice", degree: 2, augment: false }), null);
+
+  const components = bounded.map((component, idx) => ({ ...component, paramDefId: idx + 1 }));
+  const { runs } = buildMixtureDesign(components, 3, { kind: "extreme", degree: 2, augment: false });
+  assert.equal(runs.length, 13);
+  assert.ok(runs.every((run) => sumsToOne([1, 2, 3].map((id) => run.values[id]))));
+});
+
+test("space-filling designs are stratified and reproducible from the seed", () => {
+  const strata = (values: number[], bins: number) => new Set(values.map((value) => Math.floor(value * bins))).size;
+
+  const sobol = sobolPoints(16, 6, 9);
+  for (let dim = 0; dim < 6; dim += 1) {
+    assert.equal(strata(sobol.map((point) => point[dim]), 16), 16, `sobol dimension ${dim + 1}`);
+  }
+  // The first two dimensions form a (0, 4, 2)-net: one point in each 4 × 4 cell.
+  assert.equal(new Set(sobol.map((point) => `${Math.floor(point[0] * 4)}:${Math.floor(point[1] * 4)}`)).size, 16);
+  assert.deepEqual(sobolPoints(16, 6, 9), sobol);
+  assert.notDeepEqual(sobolPoints(16, 6, 10), sobol);
+
+  const lhs = maximinLatinHypercube(12, 4, 3);
+  for (let dim = 0; dim < 4; dim += 1) {
+    assert.equal(strata(lhs.map((point) => point[dim]), 12), 12, `lhs dimension ${dim + 1}`);
+  }
+
+  const factors = [...rangeFactors(3), { ...rangeFactors(4)[3], mode: "FIXED" as const, fixedValue: 7 }];
+  for (const method of ["lhs", "sobol", "halton"] as const) {
+    const runs = buildSpaceFillingDesign(factors, 5, { method, runs: 25 });
+    assert.equal(runs.length, 25, method);
+    assert.ok(runs.every((run) => run.values[4] === 7 && [1, 2, 3].every((id) => run.values[id] >= 0 && run.values[id] <= 10)));
+    assert.ok(new Set(runs.map((run) => run.values[1])).size > 20, method);
+    assert.deepEqual(buildSpaceFillingDesign(factors, 5, { method, runs: 25 }), runs);
+  }
+
+  // LIST factors are coded from the level actually used, evenly spaced over -1..1.
+  const listed = [...rangeFactors(1), { ...rangeFactors(2)[1], mode: "LIST" as const, list: [30, 10, 20] }];
+  const sampled = buildSpaceFillingDesign(listed, 5, { method: "lhs", runs: 12 });
+  assert.ok(sampled.every((run) => run.coded?.[2] === (run.values[2] - 20) / 10));
+  assert.equal(new Set(sampled.map((run) => run.values[2])).size, 3);
+});
+
+test("design constraints parse and keep generators inside the allowed region", () => {
+  const { constraints, errors } = parseConstraints(
+    [
+      "# pressure limit",
+      "x1 + 2*x2 - 5 <= x3",
+      "forbid x1 >= 8, x2 <= 2",
+      "x1 => 3",
+      "forbid x1 ~ 2"
+    ].join("\n")
+  );
+  assert.equal(constraints.length, 2);
+  assert.equal(errors.length, 2);
+  assert.deepEqual(constraints[0], {
+    kind: "linear",
+    terms: [
+      { code: "x1", coef: 1 },
+      { code: "x2", coef: 2 },
+      { code: "x3", coef: -1 }
+    ],
+    op: "<=",
+    rhs: 5,
+    source: "x1 + 2*x2 - 5 <= x3"
+  });
+  const at = (values: Record<string, number>) => violatedConstraint(constraints, (code) => values[code]);
+  assert.equal(at({ x1: 1, x2: 2, x3: 0 }), null);
+  assert.equal(at({ x1: 10, x2: 2, x3: 0 })?.kind, "linear");
+  assert.equal(at({ x1: 9, x2: 1, x3: 10 })?.kind, "forbidden");
+  assert.equal(at({ x1: 9, x2: 3, x3: 10 }), null);
+
+  // x1 + x2 <= 12 cuts the (10, 10) corner off a 0..10 square.
+  const [limit] = parseConstraints("x1 + x2 <= 12").constraints;
+  const factors = rangeFactors(2).map((factor, idx) => ({ ...factor, code: `x${idx + 1}` }));
+  const feasible = (values: Record<number, number>) => violatedConstraint([limit], (code) => values[Number(code.slice(1))]) == null;
+  const optimal = buildOptimalDesign(factors, 3, { model: "interactions", criterion: "D", runs: 8, forced: [], feasible });
+  assert.equal(optimal.runs.length, 8);
+  assert.ok(optimal.runs.every((run) => feasible(run.values)));
+  const sobol = buildSpaceFillingDesign(factors, 3, { method: "sobol", runs: 20, feasible });
+  assert.equal(sobol.length, 20);
+  assert.ok(sobol.every((run) => feasible(run.values)));
+});
+
+test("split-plot arrangement keeps hard-to-change settings together and REML separates the strata", () => {
+  const runs = [0, 10].flatMap((hard) =>
+    [0, 10].flatMap((b) =>
+      [0, 10].flatMap((c) => [1, 2].map((replicate) => ({ values: { 1: hard, 2: b, 3: c }, replicate })))
+    )
+  );
+  const arranged = arrangeSplitPlot(runs, [1], 11, 4);
+  assert.equal(arranged.length, 16);
+  assert.deepEqual(arrangeSplitPlot(runs, [1], 11, 4), arranged);
+  const plots = new Map<number, typeof arranged>();
+  arranged.forEach((run) => plots.set(run.wholePlot, [...(plots.get(run.wholePlot) ?? []), run]));
+  assert.equal(plots.size, 4);
+  for (const plot of plots.values()) {
+    assert.equal(plot.length, 4);
+    assert.equal(new Set(plot.map((run) => run.values[1])).size, 1);
+  }
+  // Whole plots are contiguous in run order.
+  assert.deepEqual(
+    arranged.map((run) => run.wholePlot),
+    [1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4]
+  );
+  // Without a size limit each replicate of a hard setting gets its own whole plot.
+  const byReplicate = arrangeSplitPlot(runs, [1], 11, null);
+  assert.equal(new Set(byReplicate.map((run) => run.wholePlot)).size, 4);
+  assert.ok(
+    [1, 2, 3, 4].every(
+      (plot) => new Set(byReplicate.filter((run) => run.wholePlot === plot).map((run) => run.replicate)).size === 1
+    )
+  );
+
+  // 8 whole plots of 4 runs with a large whole-plot effect.
+  const rng = mulberry32(5);
+  const normal = () => Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+  const x: number[][] = [];
+  const y: number[] = [];
+  const groups: number[] = [];
+  for (let plot = 0; plot < 8; plot += 1) {
+    const hard = plot % 2 === 0 ? -1 : 1;
+    const plotEffect = 2 * normal();
+    for (let run = 0; run < 4; run += 1) {
+      const easy = run % 2 === 0 ? -1 : 1;
+      x.push([1, hard, easy]);
+      y.push(5 + hard + 0.5 * easy + plotEffect + 0.2 * normal());
+      groups.push(plot);
+    }
+  }
+  const fit = fitSplitPlot(x, y, groups, [true, true, false]);
+  const ols = fitLeastSquares(x, y);
+  assert.ok(fit && ols);
+  assert.deepEqual(fit.df, [6, 6, 23]);
+  assert.ok(fit.wholePlotVariance > 10 * fit.residualVariance);
+  assert.ok(Math.abs(fit.coefficients[2] - 0.5) < 0.1);
+  assert.ok(fit.standardErrors[1] > ols.standardErrors[1]);
+  assert.ok(fit.standardErrors[2] < ols.standardErrors[2]);
+  assert.equal(fitSplitPlot(x, y, x.map(() => 0), [true, true, false]), null);
+
+  // One whole plot per hard setting leaves the whole-plot terms without df: no p-value, not df 1.
+  const pooled = fitSplitPlot(x, y, x.map((row) => (row[1] < 0 ? 0 : 1)), [true, true, false]);
+  assert.ok(pooled);
+  assert.deepEqual(pooled.df, [0, 0, 29]);
+  assert.deepEqual(pooled.pValues.slice(0, 2), [null, null]);
+  assert.ok(pooled.pValues[2] != null && pooled.pValues[2] < 0.05);
+});
+
+test("augmentation folds over, adds axial and center points around an existing design", () => {
+  const factors = rangeFactors(3);
+  // 2^(3-1) half fraction with C = AB on the 0..10 ranges.
+  const half = [
+    [-1, -1, 1],
+    [1, -1, -1],
+    [-1, 1, -1],
+    [1, 1, 1]
+  ].map((signs) => ({ 1: 5 + 5 * signs[0], 2: 5 + 5 * signs[1], 3: 5 + 5 * signs[2] }));
+  const options = { foldFactorId: null, alpha: "face" as const, centerPoints: 0 };
+
+  const folded = buildAugmentRuns(factors, half, 1, { ...options, kind: "fold_over" });
+  assert.equal(folded.runs.length, 4);
+  assert.ok(folded.runs.every((run) => run.coded![3] === -run.coded![1] * run.coded![2]));
+  const full = [...half, ...folded.runs.map((run) => run.values)];
+  assert.equal(buildAugmentRuns(factors, full, 1, { ...options, kind: "fold_over" }).runs.length, 0);
+  const single = buildAugmentRuns(factors, half, 1, { ...options, kind: "fold_over", foldFactorId: 1 });
+  assert.ok(single.runs.every((run) => run.coded![3] === -run.coded![1] * run.coded![2]));
+
+  const axial = buildAugmentRuns(factors, full, 1, { ...options, kind: "axial", alpha: "rotatable", centerPoints: 2 });
+  assert.ok(Math.abs((axial.alpha ?? 0) - Math.pow(8, 0.25)) < 1e-9);
+  assert.equal(axial.runs.length, 8);
+  assert.equal(axial.runs.filter((run) => Object.values(run.coded!).every((value) => value === 0)).length, 2);
+  assert.ok(axial.runs.some((run) => run.values[1] > 10));
+
+  const centers = buildAugmentRuns(factors, half, 1, { ...options, kind: "center", centerPoints: 3 });
+  assert.deepEqual(
+    centers.runs.map((run) => run.values),
+    Array.from({ length: 3 }, () => ({ 1: 5, 2: 5, 3: 5 }))
+  );
+});
+
+test("design evaluation reports VIF, power and aliasing for planned runs", () => {
+  const full = [-1, 1].flatMap((a) => [-1, 1].flatMap((b) => [-1, 1].map((c) => [a, b, c])));
+  const options = { effectSize: 2, alpha: 0.05, seed: 1 };
+  const main = evaluateDesign(full, ["A", "B", "C"], "main", options);
+  assert.equal(main.dfError, 4);
+  assert.deepEqual(main.vif, [1, 1, 1]);
+  assert.ok(main.relativeSe.every((se) => Math.abs((se ?? 0) - 1 / Math.sqrt(8)) < 1e-9));
+  assert.ok(main.alias!.rows.every((row) => row.aliases.length === 0));
+  const larger = evaluateDesign(full, ["A", "B", "C"], "main", { ...options, effectSize: 3 });
+  assert.ok(larger.power[0]! > main.power[0]!);
+
+  const half = full.filter((row) => row[2] === row[0] * row[1]);
+  const fraction = evaluateDesign(half, ["A", "B", "C"], "main", options);
+  assert.deepEqual(
+    fraction.alias!.rows.find((row) => row.term === "A")!.aliases.map((entry) => [entry.term, Math.round(entry.weight)]),
+    [["B*C", 1]]
+  );
+  assert.equal(evaluateDesign(half, ["A", "B", "C"], "interactions", options).estimable, false);
+});
+
+test("changeover ordering keeps the runs and cuts settling time against a random order", () => {
+  const runs = [-1, 1].flatMap((a) =>
+    [-1, 1].flatMap((b) => [-1, 1].flatMap((c) => [1, 2].map((rep) => ({ values: { 1: a, 2: b, 3: c }, rep }))))
+  );
+  const costs = { 1: 30, 2: 5 };
+  const ordered = optimizeRunOrder(runs, costs, 7);
+  assert.deepEqual(optimizeRunOrder(runs, costs, 7), ordered);
+  assert.deepEqual(
+    ordered.map((run) => JSON.stringify(run)).sort(),
+    runs.map((run) => JSON.stringify(run)).sort()
+  );
+  const schedule = buildSchedule(ordered.map((run) => run.values), costs, 10);
+  // The slow factor changes once and the faster one at most once per half.
+  assert.equal(schedule.changeoverMinutes, 30 + 2 * 5);
+  assert.equal(schedule.totalMinutes, 16 * 10 + schedule.changeoverMinutes);
+  assert.equal(schedule.entries[0].start, 0);
+  const random = buildSchedule(seededShuffle(runs, 7).map((run) => run.values), costs, 10);
+  assert.ok(random.changeoverMinutes > schedule.changeoverMinutes);
+  assert.deepEqual(
+    buildSchedule([{ 1: -1, 2: -1 }, { 1: 1, 2: 1 }], costs, 10).entries[1],
+    { start: 40, changeover: 30, changed: [1, 2] }
+  );
+});
+
+test("anova splits the residual into lack of fit and pure error from repeated center points", () => {
+  const settings = [[-1, -1], [1, -1], [-1, 1], [1, 1], [0, 0], [0, 0], [0, 0]];
+  const x = settings.map(([a, b]) => [1, a, b]);
+  // Curvature at the center that the linear model cannot follow.
+  const y = [10, 14, 11, 15.4, 15, 15.6, 14.7];
+  const anova = anovaTable(x, y, [{ label: "A", columns: [1] }, { label: "B", columns: [2] }], settings.map(String))!;
+  assert.equal(anova.model.df, 2);
+  assert.equal(anova.residual.df, 4);
+  assert.deepEqual([anova.lackOfFit!.df, anova.pureError!.df], [2, 2]);
+  const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+  assert.ok(close(anova.terms[0].ss + anova.terms[1].ss, anova.model.ss));
+  assert.ok(close(anova.lackOfFit!.ss + anova.pureError!.ss, anova.residual.ss));
+  assert.ok(close(anova.model.ss + anova.residual.ss, anova.total.ss));
+  assert.ok(close(anova.terms[0].ss, 4 * 4.2 ** 2 / 4));
+  assert.ok(anova.lackOfFit!.p < 0.05);
+  assert.ok(anova.predR2 < anova.adjR2 && anova.adjR2 < anova.r2);
+  assert.equal(anovaTable(x, y, [], x.map((_, idx) => String(idx)))!.pureError, null);
+});
+
+test("response surface selection keeps hierarchy and converts coefficients to original units", () => {
+  // Face-centred 3^2 grid around 200 °C / 50 mm/s, three centre replicates.
+  const settings = [-1, 0, 1].flatMap((a) => [-1, 0, 1].map((b) => [a, b]));
+  const coded = [...settings, [0, 0], [0, 0]];
+  const terms = buildModelTerms(["T", "V"], "quadratic");
+  const x = coded.map((row) => modelRow(terms, row));
+  const noise = [0.05, -0.04, 0.03, -0.02, 0.01, 0.04, -0.05, 0.02, -0.03, 0.01, -0.02];
+  // y = 5 + 2T + 1.5V^2 plus small noise: V has no linear effect but stays for V^2 (hierarchy).
+  const y = coded.map(([a, b], idx) => 5 + 2 * a + 1.5 * b * b + noise[idx]);
+  const effects = modelEffects(terms, ["T", "V"]);
+  assert.deepEqual(effects.map((effect) => effect.label), ["T", "V", "T*V", "T^2", "V^2"]);
+
+  const backward = selectEffects(x, y, effects, "backward", 0.05);
+  assert.deepEqual(effects.filter((_, idx) => backward.kept[idx]).map((effect) => effect.label), ["T", "V", "V^2"]);
+  // Forward steps cannot reach V^2: V never enters on its own.
+  const stepwise = selectEffects(x, y, effects, "stepwise", 0.05);
+  assert.deepEqual(effects.filter((_, idx) => stepwise.kept[idx]).map((effect) => effect.label), ["T"]);
+  assert.deepEqual(stepwise.steps.map((step) => step.action), ["added"]);
+  // With a huge alpha nothing is removed.
+  assert.ok(selectEffects(x, y, effects, "backward", 0.999).kept.every(Boolean));
+
+  const scales = [{ center: 200, half: 10 }, { center: 50, half: 5 }];
+  const fit = fitLeastSquares(x, y)!;
+  const uncoded = uncodedCoefficients(terms, fit.coefficients, scales)!;
+  const predictCoded = (a: number, b: number) =>
+    modelRow(terms, [a, b]).reduce((acc, value, idx) => acc + value * fit.coefficients[idx], 0);
+  const predictUncoded = (t: number, v: number) =>
+    modelRow(terms, [t, v]).reduce((acc, value, idx) => acc + value * uncoded[idx], 0);
+  assert.ok(Math.abs(predictCoded(0.4, -0.7) - predictUncoded(204, 46.5)) < 1e-6);
+  const squareOnly = terms.filter((term) => term.label !== "T");
+  assert.equal(uncodedCoefficients(squareOnly, squareOnly.map(() => 1), scales), null);
+
+  // Half fraction with C = AB: the AB column repeats C and is dropped.
+  const aliasedX = [[1, 1, -1, -1], [1, -1, 1, -1], [1, 1, 1, 1], [1, -1, -1, 1]].map((row) => [...row, row[1] * row[2]]);
+  assert.deepEqual(independentColumns(aliasedX), [0, 1, 2, 3]);
+});
+
+test("desirability ramps between the limits and the optimizer finds the best compromise", () => {
+  const maximize = { goal: "maximize" as const, lower: 10, target: 20, upper: 20, importance: 1 };
+  assert.equal(individualDesirability(10, maximize), 0);
+  assert.equal(individualDesirability(15, maximize), 0.5);
+  assert.equal(individualDesirability(25, maximize), 1);
+  const target = { goal: "target" as const, lower: 0, target: 4, upper: 6, importance: 1 };
+  assert.equal(individualDesirability(4, target), 1);
+  assert.equal(individualDesirability(5, target), 0.5);
+  assert.equal(individualDesirability(7, target), 0);
+  assert.equal(overallDesirability([0.9, 0], [1, 1]), 0);
+  assert.ok(Math.abs(overallDesirability([0.25, 1], [1, 1]) - 0.5) < 1e-12);
+  assert.ok(Math.abs(overallDesirability([0.25, 1], [2, 1]) - Math.pow(0.25, 2 / 3)) < 1e-12);
+
+  // Strength rises with x and shrink is lowest at x = 2: the compromise sits between them.
+  const strength = { goal: "maximize" as const, lower: 0, target: 10, upper: 10, importance: 1 };
+  const shrink = { goal: "minimize" as const, lower: 0, target: 0, upper: 4, importance: 1 };
+  const score = ([x, level]: number[]) =>
+    overallDesirability(
+      [individualDesirability(2 * x + (level === 1 ? 2 : 0), strength), individualDesirability((x - 2) ** 2, shrink)],
+      [1, 1]
+    );
+  const best = maximizeOverBox(score, [{ kind: "range", min: 0, max: 5 }, { kind: "levels", count: 2 }], 7);
+  assert.equal(best.point[1], 1);
+  // d = sqrt((2x + 2) / 10 * (1 - (x - 2)^2 / 4)) peaks where 3x^2 - 6x - 4 = 0.
+  assert.ok(Math.abs(best.point[0] - (1 + Math.sqrt(21) / 3)) < 1e-3);
+  assert.deepEqual(maximizeOverBox(score, [{ kind: "range", min: 0, max: 5 }, { kind: "levels", count: 2 }], 7), best);
+});
+
+test("screening effects use Lenth's PSE when unreplicated and report aliased interactions", () => {
+  assert.equal(lenthPse([1, -1, 2, -2, 10]), 2.25);
+
+  // 2^(4-1) with D = ABC: AB = CD, AC = BD, AD = BC.
+  const coded: number[][] = [];
+  for (let run = 0; run < 8; run += 1) {
+    const a = run & 1 ? 1 : -1;
+    const b = run & 2 ? 1 : -1;
+    const c = run & 4 ? 1 : -1;
+    coded.push([a, b, c, a * b * c]);
+  }
+  const noise = [0.3, -0.2, 0.1, -0.4, 0.2, 0.05, -0.1, 0.15];
+  const y = coded.map(([a, b], idx) => 50 + 4 * a - 1.5 * b + noise[idx]);
+  const result = screeningEffects(coded, y, ["A", "B", "C", "D"])!;
+  assert.equal(result.method, "lenth");
+  assert.equal(result.effects.length, 7);
+  assert.deepEqual(result.effects.find((effect) => effect.label === "A*B")!.aliases, ["C*D"]);
+  assert.equal(result.effects[0].label, "A");
+  assert.ok(Math.abs(result.effects[0].effect - 8) < 0.5);
+  assert.deepEqual(result.effects.filter((effect) => effect.active).map((effect) => effect.label), ["A", "B"]);
+  assert.deepEqual(result.halfNormal.map((point) => point.label).slice(-2), ["B", "A"]);
+
+  // Repeating the fraction gives a residual error to test against instead.
+  const replicated = screeningEffects([...coded, ...coded], [...y, ...y.map((value, idx) => value + noise[7 - idx])], ["A", "B", "C", "D"])!;
+  assert.equal(replicated.method, "residual");
+  assert.equal(replicated.df, 8);
+  assert.equal(replicated.simultaneous, null);
+});
+
+test("residual diagnostics flag a run that is both an outlier and influential", () => {
+  const xs = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+  const noise = [0.1, -0.2, 0.15, -0.05, 0.2, -0.1, 0.05, -0.15, 0.1, 0];
+  const y = xs.map((value, idx) => 2 + 0.5 * value + noise[idx]);
+  y[9] += 4;
+  const x = xs.map((value) => [1, value]);
+  const fit = fitLeastSquares(x, y)!;
+  const diagnostics = residualDiagnostics(x, fit);
+  // Leverages sum to the number of parameters.
+  assert.ok(Math.abs(diagnostics.reduce((acc, entry) => acc + entry.leverage, 0) - 2) < 1e-9);
+  const worst = diagnostics.reduce((best, entry, idx) => (Math.abs(entry.deleted) > Math.abs(diagnostics[best].deleted) ? idx : best), 0);
+  assert.equal(worst, 9);
+  assert.ok(diagnostics[9].deleted > 3);
+  assert.ok(diagnostics[9].cooksDistance > 1);
+  assert.ok(diagnostics.slice(0, 9).every((entry) => entry.cooksDistance < 1));
+  // Deleted residual matches a refit without the run.
+  const refit = fitLeastSquares(x.slice(0, 9), y.slice(0, 9))!;
+  const prediction = refit.coefficients[0] + refit.coefficients[1] * 10;
+  const se = refit.rmse * Math.sqrt(1 + dot(x[9], matVec(refit.covarianceUnscaled, x[9])));
+  assert.ok(Math.abs(diagnostics[9].deleted - (y[9] - prediction) / se) < 1e-9);
+});
+
+test("logistic fits stay finite under separation and match Firth's half-count correction", () => {
+  // Two settings, 2/10 and 7/10 defective: Firth equals adding 1/2 to every cell.
+  const x: number[][] = [];
+  const y: number[] = [];
+  for (let i = 0; i < 10; i += 1) {
+    x.push([1, -1]);
+    y.push(i < 2 ? 1 : 0);
+    x.push([1, 1]);
+    y.push(i < 7 ? 1 : 0);
+  }
+  const fit = fitLogistic(x, y)!;
+  const logit = (p: number) => Math.log(p / (1 - p));
+  assert.ok(Math.abs(fit.coefficients[1] - (logit(7.5 / 11) - logit(2.5 / 11)) / 2) < 1e-6);
+  assert.ok(Math.abs(logistic(fit.coefficients[0] - fit.coefficients[1]) - 2.5 / 11) < 1e-6);
+  assert.ok(fit.deviance < fit.nullDeviance);
+
+  // Every high-setting run fails and every low-setting run passes: plain ML would diverge.
+  const separated = fitLogistic(
+    [-1, -1, -1, -1, 1, 1, 1, 1].map((value) => [1, value]),
+    [0, 0, 0, 0, 1, 1, 1, 1]
+  )!;
+  assert.ok(Number.isFinite(separated.coefficients[1]) && separated.coefficients[1] > 1);
+  assert.ok(Math.abs(separated.coefficients[0]) < 1e-6);
+  assert.equal(fitLogistic([[1, -1], [1, 0], [1, 1]], [0, 0, 0]), null);
+});
+
+test("contour lines follow the level through the grid and levels use round steps", () => {
+  assert.deepEqual(contourLevels(18.06, 26.15, 8), [20, 22, 24, 26]);
+  assert.deepEqual(contourLevels(0.013, 0.087, 4), [0.02, 0.04, 0.06, 0.08]);
+  assert.deepEqual(contourLevels(1, 1), []);
+
+  // A plane z = x + 2y: every crossing of the 3-level lies on that line, one segment per crossed cell.
+  const axis = [0, 0.5, 1, 1.5, 2];
+  const z = axis.map((x) => axis.map((y) => x + 2 * y));
+  const segments = contourSegments(axis, axis, z, 3);
+  assert.ok(segments.length >= 4);
+  segments.flat().forEach(([x, y]) => assert.ok(Math.abs(x + 2 * y - 3) < 1e-9));
+
+  // A saddle cell splits into two segments; a cell with a missing corner draws nothing.
+  assert.equal(contourSegments([0, 1], [0, 1], [[1, 0], [0, 1]], 0.5).length, 2);
+  assert.equal(contourSegments([0, 1], [0, 1], [[1, NaN], [0, 1]], 0.5).length, 0);
+});
+
+test("response transforms invert cleanly and Box-Cox recovers the log scale of multiplicative data", () => {
+  const kinds = ["none", "log", "sqrt", "reciprocal", "logit", "boxcox"] as const;
+  kinds.forEach((kind) =>
+    [0.5, 12, 73].forEach((value) => {
+      const back = inverseTransform(kind, 0.3, applyTransform(kind, 0.3, value));
+      assert.ok(Math.abs(back - value) < 1e-9, `${kind} ${value}`);
+    })
+  );
+  assert.equal(transformIssue("log", [1, 0, 2]), "needs all values above zero");
+  assert.equal(transformIssue("logit", [5, 100]), "needs percentages strictly between 0 and 100");
+  assert.equal(transformIssue("sqrt", [0, 4]), null);
+
+  // y = exp(1 + x) with small multiplicative noise: the interval holds λ = 0 but not 1.
+  const xs = [-1, -0.5, 0, 0.5, 1, -1, -0.5, 0, 0.5, 1];
+  const noise = [0.03, -0.02, 0.01, -0.04, 0.02, -0.01, 0.04, -0.03, 0.02, -0.02];
+  const x = xs.map((value) => [1, value]);
+  const logNormal = boxCoxLambda(x, xs.map((value, idx) => Math.exp(1 + value + noise[idx])))!;
+  assert.ok(logNormal.lower <= 0 && logNormal.upper >= 0 && logNormal.upper < 1);
+  assert.equal(logNormal.suggested, 0);
+  const linear = boxCoxLambda(x, xs.map((value, idx) => 10 + 2 * value + noise[idx]))!;
+  assert.equal(linear.suggested, 1);
+  assert.equal(boxCoxLambda(x, xs.map((value) => value)), null);
+});
+
+test("sample aggregation skips missing parts and needs two values for an SD", () => {
+  const parts = [10.2, null, 9.8, 10.6, 10];
+  assert.ok(Math.abs(aggregateSamples(parts, "mean")! - 10.15) < 1e-12);
+  assert.equal(aggregateSamples(parts, "median"), 10.1);
+  assert.ok(Math.abs(aggregateSamples(parts, "range")! - 0.8) < 1e-12);
+  assert.ok(Math.abs(aggregateSamples(parts, "sd")! - Math.sqrt(0.35 / 3)) < 1e-12);
+  assert.equal(aggregateSamples([4, 1, 3], "median"), 3);
+  assert.equal(aggregateSamples([7], "sd"), null);
+  assert.equal(aggregateSamples([null], "mean"), null);
+});
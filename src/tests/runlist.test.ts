@@ -0,0 +1,215 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import fs from "node:fs";
+import os from "node:os";
+import { openDb } from "../db.js";
+import type { Db } from "../db.js";
+import { ensureSeedParams } from "../services/seed.js";
+import {
+  createDoeWithDefaults,
+  createExperimentWithDefaults,
+  generateRuns,
+  previewRegeneration
+} from "../services/experiments_service.js";
+import { listParamConfigs, listParamDefinitionsByKind, upsertParamConfig } from "../repos/params_repo.js";
+import { listRuns, listRunValues, updateRunStatus } from "../repos/runs_repo.js";
+import { createRecipe, getRecipe, replaceRecipeComponents } from "../repos/recipes_repo.js";
+import { upsertDesignMetadata } from "../repos/experiments_repo.js";
+import { listActiveAnalysisFields, upsertAnalysisRunValue } from "../repos/analysis_repo.js";
+
+let dbPath = "";
+let db: Db;
+
+before(() => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "im-planner-"));
+  dbPath = path.join(tempDir, "runlist.sqlite");
+  process.env.DB_PATH = dbPath;
+  db = openDb();
+  ensureSeedParams(db);
+});
+
+after(() => {
+  db?.close();
+  if (dbPath && fs.existsSync(dbPath)) {
+    try {
+      fs.unlinkSync(dbPath);
+    } catch {
+      // ignore locked db on Windows
+    }
+  }
+});
+
+function createDoe(designType: string, replicateCount = 1) {
+  const experimentId = createExperimentWithDefaults(db, { name: `${designType} runlist` });
+  const doeId = createDoeWithDefaults(db, {
+    experimentId,
+    name: designType,
+    design_type: designType,
+    seed: 7,
+    center_points: 0,
+    max_runs: 200,
+    replicate_count: replicateCount,
+    recipe_as_block: 0
+  });
+  return { experimentId, doeId };
+}
+
+function recordResult(doeId: number, runId: number) {
+  const field = listActiveAnalysisFields(db, doeId).find((entry) => entry.field_type === "number")!;
+  upsertAnalysisRunValue(db, runId, field.id, 1.5, null, null);
+}
+
+function storedValue(runId: number, paramId: number) {
+  return listRunValues(db, runId).find((value) => value.param_def_id === paramId)?.value_real ?? null;
+}
+
+test("keep-results regeneration keeps matching runs, adds new points and removes only orphans without results", () => {
+  const { experimentId, doeId } = createDoe("SCREEN");
+  generateRuns(db, experimentId, doeId);
+  const before = listRuns(db, doeId);
+  const config = listParamConfigs(db, experimentId, doeId).find(
+    (entry) => entry.active === 1 && entry.mode === "RANGE"
+  )!;
+  const atMax = (runId: number) => storedValue(runId, config.param_def_id) === config.range_max_real;
+  const moved = before.filter((run) => atMax(run.id));
+  const stays = before.filter((run) => !atMax(run.id));
+  assert.ok(moved.length > 1 && stays.length > 0);
+  recordResult(doeId, moved[0].id);
+
+  upsertParamConfig(db, { ...config, range_max_real: config.range_max_real! + 10 });
+  const preview = previewRegeneration(db, experimentId, doeId);
+  assert.equal(preview.kept.length, stays.length);
+  assert.equal(preview.added.length, moved.length);
+  assert.deepEqual(
+    preview.orphaned.map((entry) => [entry.run.id, entry.hasResults]),
+    moved.map((run) => [run.id, run.id === moved[0].id])
+  );
+
+  generateRuns(db, experimentId, doeId, "keep_results");
+  const after = listRuns(db, doeId);
+  const ids = new Set(after.map((run) => run.id));
+  assert.ok(stays.every((run) => ids.has(run.id)));
+  assert.ok(ids.has(moved[0].id));
+  assert.ok(moved.slice(1).every((run) => !ids.has(run.id)));
+  assert.equal(after.length, stays.length + 1 + moved.length);
+  // Matched runs keep their codes; added runs are numbered after the last kept run.
+  const maxKeptOrder = Math.max(...before.map((run) => run.run_order));
+  assert.ok(after.filter((run) => !before.some((old) => old.id === run.id)).every((run) => run.run_order > maxKeptOrder));
+});
+
+test("matching prefers completed runs within a replicate key", () => {
+  const { experimentId, doeId } = createDoe("SCREEN", 2);
+  generateRuns(db, experimentId, doeId);
+  const runs = listRuns(db, doeId);
+  const key = runs[0].replicate_key;
+  const [first, second] = runs.filter((run) => run.replicate_key === key).sort((a, b) => a.run_order - b.run_order);
+  updateRunStatus(db, second.id, 1, 0);
+
+  db.prepare("UPDATE doe_studies SET replicate_count = 1 WHERE id = ?").run(doeId);
+  const preview = previewRegeneration(db, experimentId, doeId);
+  assert.ok(preview.kept.some((entry) => entry.run.id === second.id));
+  assert.ok(preview.orphaned.some((entry) => entry.run.id === first.id && !entry.hasResults));
+  assert.equal(preview.added.length, 0);
+
+  generateRuns(db, experimentId, doeId, "keep_results");
+  const ids = new Set(listRuns(db, doeId).map((run) => run.id));
+  assert.ok(ids.has(second.id));
+  assert.ok(!ids.has(first.id));
+  assert.equal(ids.size, runs.length / 2);
+});
+
+test("a changed fixed input is rewritten on pending runs and leaves runs with results unmatched", () => {
+  const { experimentId, doeId } = createDoe("SCREEN");
+  const activeIds = new Set(
+    listParamConfigs(db, experimentId, doeId)
+      .filter((entry) => entry.active === 1)
+      .map((entry) => entry.param_def_id)
+  );
+  const fixedParam = listParamDefinitionsByKind(db, experimentId, "INPUT").find(
+    (param) => !activeIds.has(param.id) && param.field_type !== "text"
+  )!;
+  const fixedConfig = {
+    experiment_id: experimentId,
+    doe_id: doeId,
+    param_def_id: fixedParam.id,
+    active: 0,
+    mode: "FIXED" as const,
+    fixed_value_real: 50,
+    range_min_real: null,
+    range_max_real: null,
+    list_json: null,
+    level_count: null
+  };
+  upsertParamConfig(db, fixedConfig);
+  generateRuns(db, experimentId, doeId);
+  const before = listRuns(db, doeId);
+  assert.ok(before.every((run) => storedValue(run.id, fixedParam.id) === 50));
+  recordResult(doeId, before[0].id);
+
+  upsertParamConfig(db, { ...fixedConfig, fixed_value_real: 60 });
+  const preview = previewRegeneration(db, experimentId, doeId);
+  assert.equal(preview.refixed.length, before.length - 1);
+  assert.equal(preview.added.length, 1);
+  assert.deepEqual(
+    preview.orphaned.map((entry) => [entry.run.id, entry.hasResults]),
+    [[before[0].id, true]]
+  );
+
+  generateRuns(db, experimentId, doeId, "keep_results");
+  const after = listRuns(db, doeId);
+  assert.equal(after.length, before.length + 1);
+  assert.equal(storedValue(before[0].id, fixedParam.id), 50);
+  assert.ok(after.filter((run) => run.id !== before[0].id).every((run) => storedValue(run.id, fixedParam.id) === 60));
+});
+
+test("mixture regeneration keeps the recipes of orphaned runs with results", () => {
+  const { experimentId, doeId } = createDoe("MIXTURE");
+  const baseId = createRecipe(db, "Base PP", null);
+  replaceRecipeComponents(db, baseId, [
+    { recipe_id: baseId, component_name: "PP", phr: 100 },
+    { recipe_id: baseId, component_name: "Talc", phr: 20 },
+    { recipe_id: baseId, component_name: "EPDM", phr: 10 }
+  ]);
+  const options = (talcUpper: number) => ({
+    mixture_base_recipe_id: baseId,
+    mixture_kind: "extreme",
+    mixture_degree: 2,
+    mixture_augment: false,
+    mixture_components: [
+      { name: "PP", lower: 0.6, upper: 0.9 },
+      { name: "Talc", lower: 0.05, upper: talcUpper },
+      { name: "EPDM", lower: 0.05, upper: 0.2 }
+    ]
+  });
+  upsertDesignMetadata(db, experimentId, doeId, JSON.stringify(options(0.3)));
+  generateRuns(db, experimentId, doeId);
+  const before = listRuns(db, doeId);
+  assert.ok(before.length > 2 && before.every((run) => run.recipe_id != null));
+  before.forEach((run) => {
+    recordResult(doeId, run.id);
+    updateRunStatus(db, run.id, 1, 0);
+  });
+
+  const meta = JSON.parse(
+    (db.prepare("SELECT json_blob FROM design_metadata WHERE doe_id = ?").get(doeId) as { json_blob: string }).json_blob
+  );
+  upsertDesignMetadata(db, experimentId, doeId, JSON.stringify({ ...meta, ...options(0.25) }));
+  const preview = previewRegeneration(db, experimentId, doeId);
+  const orphaned = preview.orphaned.map((entry) => entry.run);
+  assert.ok(orphaned.length > 0 && preview.orphaned.every((entry) => entry.hasResults));
+
+  generateRuns(db, experimentId, doeId, "keep_results");
+  const after = listRuns(db, doeId);
+  orphaned.forEach((run) => {
+    const kept = after.find((entry) => entry.id === run.id)!;
+    assert.equal(kept.recipe_id, run.recipe_id);
+    assert.equal(getRecipe(db, run.recipe_id!)?.archived_at ?? null, null);
+  });
+  // Kept runs moved to fresh blend recipes; their old ones are archived.
+  const moved = preview.kept.filter((entry) => entry.planned).map((entry) => entry.run);
+  moved.forEach((run) => {
+    assert.notEqual(after.find((entry) => entry.id === run.id)!.recipe_id, run.recipe_id);
+    assert.ok(getRecipe(db, run.recipe_id!)?.archived_at);
+  });
+});